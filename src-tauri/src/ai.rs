@@ -0,0 +1,430 @@
+use crate::settings::{self, CredentialCache};
+use futures_util::StreamExt;
+use serde::{Deserialize, Serialize, Serializer};
+use std::collections::HashMap;
+use std::sync::{Arc, Mutex};
+use std::time::Duration;
+use tauri::{AppHandle, Emitter, State};
+use thiserror::Error;
+use tokio::sync::Notify;
+
+// Provider HTTP calls are made here rather than in the webview, so decrypted API keys
+// never reach the frontend and local servers (Ollama, LM Studio) don't hit CORS.
+// The frontend adapters decide URL, body and how to parse the reply; this module only
+// adds authentication, performs the request and streams the raw body back as events.
+// A saved key is only sent to its configuration's saved base URL.
+
+pub const STREAM_EVENT: &str = "provider-stream";
+
+const CONNECT_TIMEOUT: Duration = Duration::from_secs(15);
+// Longest wait for the next bytes of a reply. Generous, as reasoning models can think for minutes
+// before streaming anything.
+const READ_TIMEOUT: Duration = Duration::from_secs(300);
+// Longest a request that isn't streamed may take overall
+const REQUEST_TIMEOUT: Duration = Duration::from_secs(600);
+
+// Endpoints of configurations saved without a base URL; keep in sync with
+// DEFAULT_PROVIDER_BASE_URLS in src/config.ts
+const DEFAULT_BASE_URLS: [(&str, &str); 6] = [
+    ("openai", "https://api.openai.com/v1"),
+    ("anthropic", "https://api.anthropic.com/v1"),
+    ("google", "https://generativelanguage.googleapis.com/v1beta"),
+    ("groq", "https://api.groq.com/openai/v1"),
+    ("ollama", "http://localhost:11434/v1"),
+    ("lmstudio", "http://localhost:1234/v1"),
+];
+
+#[derive(Debug, Error)]
+pub enum ProviderError {
+    #[error("{0}")]
+    Config(String),
+    #[error("HTTP {status}")]
+    Http { status: u16, body: String },
+    #[error("Could not connect to {0}")]
+    Connect(String),
+    #[error("Request to {0} timed out")]
+    Timeout(String),
+    #[error("TLS error: {0}")]
+    Tls(String),
+    #[error("Request cancelled")]
+    Cancelled,
+    #[error("{0}")]
+    Other(String),
+}
+
+impl ProviderError {
+    fn kind(&self) -> &'static str {
+        match self {
+            ProviderError::Config(_) => "config",
+            ProviderError::Http { .. } => "http",
+            ProviderError::Connect(_) => "connect",
+            ProviderError::Timeout(_) => "timeout",
+            ProviderError::Tls(_) => "tls",
+            ProviderError::Cancelled => "cancelled",
+            ProviderError::Other(_) => "other",
+        }
+    }
+}
+
+// Serialized as { kind, message, status?, body? } so the frontend can tell failures apart
+impl Serialize for ProviderError {
+    fn serialize<S: Serializer>(&self, serializer: S) -> Result<S::Ok, S::Error> {
+        use serde::ser::SerializeMap;
+        let mut map = serializer.serialize_map(None)?;
+        map.serialize_entry("kind", self.kind())?;
+        map.serialize_entry("message", &self.to_string())?;
+        if let ProviderError::Http { status, body } = self {
+            map.serialize_entry("status", status)?;
+            map.serialize_entry("body", body)?;
+        }
+        map.end()
+    }
+}
+
+#[derive(Deserialize, Debug)]
+#[serde(rename_all = "camelCase")]
+pub struct ProviderRequest {
+    request_id: String,
+    provider_config_id: String,
+    url: String,
+    #[serde(default = "default_method")]
+    method: String,
+    // Non-secret headers only (e.g. anthropic-version); auth is added here
+    #[serde(default)]
+    headers: HashMap<String, String>,
+    #[serde(default)]
+    body: Option<serde_json::Value>,
+    #[serde(default)]
+    stream: bool,
+}
+
+fn default_method() -> String {
+    "POST".to_string()
+}
+
+#[derive(Serialize, Debug)]
+#[serde(rename_all = "camelCase")]
+pub struct ProviderResponse {
+    status: u16,
+    // Full response body for regular requests, empty for streams (sent as events instead)
+    body: String,
+}
+
+#[derive(Serialize, Clone)]
+#[serde(rename_all = "camelCase")]
+struct StreamChunk {
+    request_id: String,
+    chunk: String,
+    done: bool,
+}
+
+// Shared HTTP client plus a cancel handle for every request still in flight
+pub struct ProviderRequestState {
+    client: reqwest::Client,
+    // Also holds requests cancelled before they started. A cancel for a request that has already
+    // finished leaves its (tiny) entry behind, which is cheaper than tracking finished ids.
+    in_flight: Mutex<HashMap<String, Arc<Notify>>>,
+}
+
+impl Default for ProviderRequestState {
+    fn default() -> Self {
+        Self {
+            client: reqwest::Client::builder()
+                .connect_timeout(CONNECT_TIMEOUT)
+                .read_timeout(READ_TIMEOUT)
+                .build()
+                .expect("failed to build HTTP client"),
+            in_flight: Mutex::new(HashMap::new()),
+        }
+    }
+}
+
+fn auth_headers(provider_id: &str, api_key: &str) -> Vec<(&'static str, String)> {
+    if api_key.is_empty() {
+        return Vec::new(); // Local servers usually run without a key
+    }
+    match provider_id {
+        "anthropic" => vec![("x-api-key", api_key.to_string())],
+        "google" => vec![("x-goog-api-key", api_key.to_string())],
+        _ => vec![("Authorization", format!("Bearer {}", api_key))],
+    }
+}
+
+fn default_base_url(provider_id: &str) -> Option<&'static str> {
+    DEFAULT_BASE_URLS
+        .iter()
+        .find(|(id, _)| *id == provider_id)
+        .map(|(_, url)| *url)
+}
+
+// Whether `url` is on the same origin as `base_url` and at or below its path
+fn is_under_base_url(url: &str, base_url: &str) -> bool {
+    let (Ok(url), Ok(base)) = (
+        reqwest::Url::parse(url),
+        reqwest::Url::parse(base_url.trim()),
+    ) else {
+        return false;
+    };
+    let base_path = base.path().trim_end_matches('/');
+    url.scheme() == base.scheme()
+        && url.host_str() == base.host_str()
+        && url.port_or_known_default() == base.port_or_known_default()
+        && (url.path() == base_path || url.path().starts_with(&format!("{}/", base_path)))
+}
+
+fn is_tls_error(error: &(dyn std::error::Error + 'static)) -> bool {
+    let mut current: Option<&(dyn std::error::Error + 'static)> = Some(error);
+    while let Some(err) = current {
+        let text = err.to_string().to_lowercase();
+        if text.contains("certificate") || text.contains("tls") || text.contains("ssl") {
+            return true;
+        }
+        current = err.source();
+    }
+    false
+}
+
+fn classify_error(error: reqwest::Error, url: &str) -> ProviderError {
+    if error.is_builder() {
+        ProviderError::Config(format!("Invalid URL: {}", url))
+    } else if error.is_timeout() {
+        ProviderError::Timeout(url.to_string())
+    } else if is_tls_error(&error) {
+        ProviderError::Tls(error.to_string())
+    } else if error.is_connect() {
+        ProviderError::Connect(url.to_string())
+    } else {
+        ProviderError::Other(error.to_string())
+    }
+}
+
+async fn execute_request(
+    app_handle: &AppHandle,
+    client: &reqwest::Client,
+    cache: &CredentialCache,
+    request: &ProviderRequest,
+    cancel: &Notify,
+) -> Result<ProviderResponse, ProviderError> {
+    // Keys are saved before they are ever used, so the stored one is always the one to send.
+    // Biased so a cancel that arrived before the request started wins over credentials that load at once.
+    let credentials = tokio::select! {
+        biased;
+        _ = cancel.notified() => return Err(ProviderError::Cancelled),
+        result = settings::load_provider_credentials(app_handle, cache, &request.provider_config_id) => {
+            result.map_err(ProviderError::Config)?
+        }
+    };
+    // Configurations that were never saved have no key to add
+    let auth = match credentials {
+        Some(credentials) => {
+            let api_key = credentials
+                .api_key
+                .map_err(ProviderError::Config)?
+                .unwrap_or_default();
+            let base_url = credentials
+                .base_url
+                .as_deref()
+                .filter(|url| !url.trim().is_empty())
+                .or_else(|| default_base_url(&credentials.provider_id));
+            // E.g. a Test Connection after editing the base URL without saving it
+            if !api_key.is_empty()
+                && !base_url.is_some_and(|base| is_under_base_url(&request.url, base))
+            {
+                return Err(ProviderError::Config(format!(
+                    "The saved API key is only sent to the saved base URL. Save the configuration to use it with {}.",
+                    request.url
+                )));
+            }
+            auth_headers(&credentials.provider_id, &api_key)
+        }
+        None => Vec::new(),
+    };
+
+    let method = reqwest::Method::from_bytes(request.method.as_bytes())
+        .map_err(|_| ProviderError::Config(format!("Invalid method: {}", request.method)))?;
+    let mut builder = client.request(method, &request.url);
+    for (name, value) in &request.headers {
+        builder = builder.header(name.as_str(), value.as_str());
+    }
+    for (name, value) in auth {
+        builder = builder.header(name, value);
+    }
+    if let Some(body) = &request.body {
+        builder = builder.json(body);
+    }
+    if !request.stream {
+        builder = builder.timeout(REQUEST_TIMEOUT); // Streams are bounded by READ_TIMEOUT per chunk instead
+    }
+
+    let response = tokio::select! {
+        _ = cancel.notified() => return Err(ProviderError::Cancelled),
+        result = builder.send() => result.map_err(|e| classify_error(e, &request.url))?,
+    };
+
+    let status = response.status();
+    if !status.is_success() {
+        let body = response.text().await.unwrap_or_default();
+        return Err(ProviderError::Http {
+            status: status.as_u16(),
+            body,
+        });
+    }
+
+    if !request.stream {
+        let body = tokio::select! {
+            _ = cancel.notified() => return Err(ProviderError::Cancelled),
+            result = response.text() => result.map_err(|e| classify_error(e, &request.url))?,
+        };
+        return Ok(ProviderResponse {
+            status: status.as_u16(),
+            body,
+        });
+    }
+
+    let emit_chunk = |chunk: String, done: bool| {
+        app_handle
+            .emit(
+                STREAM_EVENT,
+                StreamChunk {
+                    request_id: request.request_id.clone(),
+                    chunk,
+                    done,
+                },
+            )
+            .map_err(|e| ProviderError::Other(format!("Failed to emit stream chunk: {}", e)))
+    };
+
+    let mut stream = response.bytes_stream();
+    let mut pending: Vec<u8> = Vec::new(); // Bytes of a UTF-8 character split across chunks
+    loop {
+        let next = tokio::select! {
+            _ = cancel.notified() => return Err(ProviderError::Cancelled),
+            next = stream.next() => next,
+        };
+        match next {
+            Some(Ok(bytes)) => {
+                pending.extend_from_slice(&bytes);
+                let valid_up_to = match std::str::from_utf8(&pending) {
+                    Ok(_) => pending.len(),
+                    Err(e) => e.valid_up_to(),
+                };
+                if valid_up_to > 0 {
+                    let text = String::from_utf8_lossy(&pending[..valid_up_to]).into_owned();
+                    pending.drain(..valid_up_to);
+                    emit_chunk(text, false)?;
+                }
+            }
+            Some(Err(e)) => return Err(classify_error(e, &request.url)),
+            None => break,
+        }
+    }
+    emit_chunk(String::from_utf8_lossy(&pending).into_owned(), true)?;
+
+    Ok(ProviderResponse {
+        status: status.as_u16(),
+        body: String::new(),
+    })
+}
+
+#[tauri::command]
+pub async fn provider_request(
+    app_handle: AppHandle,
+    state: State<'_, ProviderRequestState>,
+    cache: State<'_, CredentialCache>,
+    request: ProviderRequest,
+) -> Result<ProviderResponse, ProviderError> {
+    // The entry may exist already, holding the permit of a cancel that came first
+    let cancel = state
+        .in_flight
+        .lock()
+        .unwrap()
+        .entry(request.request_id.clone())
+        .or_insert_with(|| Arc::new(Notify::new()))
+        .clone();
+
+    let result =
+        execute_request(&app_handle, &state.client, cache.inner(), &request, &cancel).await;
+
+    state.in_flight.lock().unwrap().remove(&request.request_id);
+    result
+}
+
+#[tauri::command]
+pub fn cancel_provider_request(state: State<'_, ProviderRequestState>, request_id: String) {
+    // A cancel can arrive before provider_request has registered its request (Stop right after Send),
+    // so the entry is created here if needed. notify_one stores a permit, so neither that cancel nor
+    // one that lands between awaits is lost: the request stops at its next await.
+    state
+        .in_flight
+        .lock()
+        .unwrap()
+        .entry(request_id)
+        .or_insert_with(|| Arc::new(Notify::new()))
+        .notify_one();
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    #[test]
+    fn accepts_urls_below_the_base_url() {
+        let base = "https://api.openai.com/v1";
+        assert!(is_under_base_url(
+            "https://api.openai.com/v1/chat/completions",
+            base
+        ));
+        assert!(is_under_base_url(
+            "https://API.openai.com:443/v1/models",
+            base
+        ));
+        assert!(is_under_base_url(
+            "https://api.openai.com/v1/models",
+            "https://api.openai.com/v1/"
+        ));
+        assert!(is_under_base_url(
+            "http://localhost:11434/v1/models",
+            " http://localhost:11434/v1 "
+        ));
+    }
+
+    #[test]
+    fn rejects_urls_elsewhere() {
+        let base = "https://api.openai.com/v1";
+        assert!(!is_under_base_url(
+            "https://evil.example/v1/chat/completions",
+            base
+        ));
+        assert!(!is_under_base_url(
+            "https://api.openai.com.evil.example/v1/models",
+            base
+        ));
+        assert!(!is_under_base_url("http://api.openai.com/v1/models", base));
+        assert!(!is_under_base_url(
+            "https://api.openai.com:8443/v1/models",
+            base
+        ));
+        assert!(!is_under_base_url(
+            "https://api.openai.com/v10/models",
+            base
+        ));
+        assert!(!is_under_base_url(
+            "https://api.openai.com/v1/../admin",
+            base
+        ));
+        assert!(!is_under_base_url(
+            "https://user@evil.example/v1/models",
+            base
+        ));
+        assert!(!is_under_base_url("not a url", base));
+    }
+
+    #[test]
+    fn knows_the_default_base_urls() {
+        assert_eq!(
+            default_base_url("anthropic"),
+            Some("https://api.anthropic.com/v1")
+        );
+        assert_eq!(default_base_url("custom"), None);
+    }
+}
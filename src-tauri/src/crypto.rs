@@ -10,6 +10,8 @@ use tauri_plugin_shell::ShellExt;
 use thiserror::Error;
 
 pub const NONCE_SIZE: usize = 12;
+// Random salt mixed with the machine id to derive the key; without it stored keys can't be decrypted
+pub const SALT_FILE: &str = "key.salt";
 
 #[derive(Debug, Error)]
 pub enum CryptoError {
@@ -131,7 +133,7 @@ async fn generate_device_key(app_handle: &AppHandle) -> Result<Key<Aes256Gcm>, C
         })?;
 
     fs::create_dir_all(&app_data_dir)?;
-    fs::write(app_data_dir.join("key.salt"), &random_salt)?;
+    fs::write(app_data_dir.join(SALT_FILE), &random_salt)?;
 
     Ok(Key::<Aes256Gcm>::clone_from_slice(key_bytes.as_slice()))
 }
@@ -144,7 +146,7 @@ pub async fn get_key(app_handle: &AppHandle) -> Result<Key<Aes256Gcm>, CryptoErr
             eprintln!("Tauri path resolver error: {}", e);
             CryptoError::AppDataDirError 
         })?;
-    let salt_path = app_data_dir.join("key.salt");
+    let salt_path = app_data_dir.join(SALT_FILE);
 
     if salt_path.exists() {
         let random_salt = fs::read(salt_path)?;
@@ -180,7 +182,9 @@ pub async fn encrypt(app_handle: &AppHandle, text: &str) -> Result<Vec<u8>, Cryp
     Ok(result)
 }
 
-pub async fn decrypt(app_handle: &AppHandle, encrypted_data: &[u8]) -> Result<String, CryptoError> {
+// Takes the key from get_key, so several values can be decrypted with one derivation
+// (which may run an OS command to read the machine id)
+pub fn decrypt(key: &Key<Aes256Gcm>, encrypted_data: &[u8]) -> Result<String, CryptoError> {
     if encrypted_data.len() <= NONCE_SIZE {
         return Err(CryptoError::FormatError);
     }
@@ -188,8 +192,7 @@ pub async fn decrypt(app_handle: &AppHandle, encrypted_data: &[u8]) -> Result<St
     let nonce = Nonce::from_slice(&encrypted_data[..NONCE_SIZE]);
     let ciphertext = &encrypted_data[NONCE_SIZE..];
 
-    let key = get_key(app_handle).await?;
-    let cipher = Aes256Gcm::new(&key);
+    let cipher = Aes256Gcm::new(key);
 
     let decrypted_bytes = cipher
         .decrypt(nonce, ciphertext)
@@ -205,10 +208,7 @@ pub async fn encrypt_to_base64(app_handle: &AppHandle, text: &str) -> Result<Str
     Ok(BASE64.encode(encrypted_bytes))
 }
 
-pub async fn decrypt_base64(
-    app_handle: &AppHandle,
-    base64_text: &str,
-) -> Result<String, CryptoError> {
+pub fn decrypt_base64(key: &Key<Aes256Gcm>, base64_text: &str) -> Result<String, CryptoError> {
     let encrypted_data = BASE64.decode(base64_text)?;
-    decrypt(app_handle, &encrypted_data).await
+    decrypt(key, &encrypted_data)
 }
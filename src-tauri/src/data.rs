@@ -0,0 +1,232 @@
+use crate::crypto::SALT_FILE;
+use crate::sessions::{self, SessionStoreState};
+use crate::settings::{self, CredentialCache};
+use serde::{Deserialize, Serialize};
+use std::collections::HashMap;
+use std::fs;
+use std::path::{Path, PathBuf};
+use std::time::{SystemTime, UNIX_EPOCH};
+use tauri::{AppHandle, Manager, State};
+
+// Data tab controls: wiping chats, settings and keys, optionally after taking a backup.
+// A backup is a folder under <app data>/backups/<id>/ with copies of the session files,
+// settings.json and key.salt as they were, the frontend's localStorage entries it passes in
+// (model lists, usage history), plus backup.json describing it. Restoring puts the app data
+// back exactly as it was when the backup was taken and hands the entries back to the frontend.
+
+const BACKUPS_DIR: &str = "backups";
+const BACKUP_MANIFEST: &str = "backup.json";
+const BACKUP_SESSIONS_DIR: &str = "sessions";
+const BACKUP_SETTINGS_FILE: &str = "settings.json";
+const BACKUP_LOCAL_DATA_FILE: &str = "local-data.json";
+
+#[derive(Deserialize, Debug)]
+#[serde(rename_all = "camelCase")]
+pub struct WipeOptions {
+    #[serde(default)]
+    sessions: bool,
+    // The whole settings file, provider configurations and their keys included
+    #[serde(default)]
+    settings: bool,
+    // Keys only; provider configurations are kept
+    #[serde(default)]
+    api_keys: bool,
+    // Stored keys can't be decrypted without the salt, so this clears them too
+    #[serde(default)]
+    key_salt: bool,
+    #[serde(default)]
+    backup: bool,
+}
+
+#[derive(Serialize, Deserialize, Debug)]
+#[serde(rename_all = "camelCase")]
+pub struct BackupInfo {
+    id: String,
+    created_at: u64, // Unix time in milliseconds
+    session_count: usize,
+    has_settings: bool,
+}
+
+fn get_app_data_dir(app_handle: &AppHandle) -> Result<PathBuf, String> {
+    app_handle
+        .path()
+        .app_data_dir()
+        .map_err(|_| "Could not resolve app data directory".to_string())
+}
+
+fn get_backups_dir(app_handle: &AppHandle) -> Result<PathBuf, String> {
+    let dir = get_app_data_dir(app_handle)?.join(BACKUPS_DIR);
+    if !dir.exists() {
+        fs::create_dir_all(&dir)
+            .map_err(|e| format!("Failed to create backups directory: {}", e))?;
+    }
+    Ok(dir)
+}
+
+// Ids become folder names, so only allow the characters generated ids are made of
+fn get_backup_dir(app_handle: &AppHandle, id: &str) -> Result<PathBuf, String> {
+    let valid = !id.is_empty() && id.chars().all(|c| c.is_ascii_alphanumeric() || c == '-');
+    if !valid {
+        return Err(format!("Invalid backup id: {:?}", id));
+    }
+    let dir = get_backups_dir(app_handle)?.join(id);
+    if !dir.join(BACKUP_MANIFEST).exists() {
+        return Err(format!("Backup {} not found", id));
+    }
+    Ok(dir)
+}
+
+// Copies `from` to `to` if it exists; returns whether it did
+fn copy_if_exists(from: &Path, to: &Path) -> Result<bool, String> {
+    if !from.exists() {
+        return Ok(false);
+    }
+    fs::copy(from, to).map_err(|e| format!("Failed to copy {:?}: {}", from.file_name(), e))?;
+    Ok(true)
+}
+
+// Replaces `to` with `from`, or removes `to` if `from` doesn't exist
+fn restore_file(from: &Path, to: &Path) -> Result<(), String> {
+    if !copy_if_exists(from, to)? && to.exists() {
+        fs::remove_file(to).map_err(|e| format!("Failed to remove {:?}: {}", to.file_name(), e))?;
+    }
+    Ok(())
+}
+
+fn remove_if_exists(path: &Path) -> Result<(), String> {
+    if path.exists() {
+        fs::remove_file(path)
+            .map_err(|e| format!("Failed to delete {:?}: {}", path.file_name(), e))?;
+    }
+    Ok(())
+}
+
+async fn create_backup(
+    app_handle: &AppHandle,
+    state: &SessionStoreState,
+    local_data: &HashMap<String, String>,
+) -> Result<BackupInfo, String> {
+    let created_at = SystemTime::now()
+        .duration_since(UNIX_EPOCH)
+        .map(|d| d.as_millis() as u64)
+        .unwrap_or_default();
+    let id = format!("backup-{}", created_at);
+    let dir = get_backups_dir(app_handle)?.join(&id);
+    println!("Creating backup in {:?}", dir);
+
+    let session_count =
+        sessions::backup_sessions(app_handle, state, &dir.join(BACKUP_SESSIONS_DIR)).await?;
+    let has_settings = copy_if_exists(
+        &settings::get_settings_path(app_handle)?,
+        &dir.join(BACKUP_SETTINGS_FILE),
+    )?;
+    copy_if_exists(&get_app_data_dir(app_handle)?.join(SALT_FILE), &dir.join(SALT_FILE))?;
+    let local_data =
+        serde_json::to_string(local_data).map_err(|e| format!("Failed serialize: {}", e))?;
+    fs::write(dir.join(BACKUP_LOCAL_DATA_FILE), local_data.as_bytes())
+        .map_err(|e| format!("Failed to write backup: {}", e))?;
+
+    let info = BackupInfo {
+        id,
+        created_at,
+        session_count,
+        has_settings,
+    };
+    // Written last, so a backup that failed halfway is never listed
+    let manifest =
+        serde_json::to_string_pretty(&info).map_err(|e| format!("Failed serialize: {}", e))?;
+    fs::write(dir.join(BACKUP_MANIFEST), manifest.as_bytes())
+        .map_err(|e| format!("Failed to write backup: {}", e))?;
+    Ok(info)
+}
+
+// Returns the backup taken first, if one was requested. `local_data` is what the frontend keeps in
+// localStorage, by key, for the backup; it clears those entries itself.
+#[tauri::command]
+pub async fn wipe_app_data(
+    app_handle: AppHandle,
+    state: State<'_, SessionStoreState>,
+    cache: State<'_, CredentialCache>,
+    options: WipeOptions,
+    local_data: HashMap<String, String>,
+) -> Result<Option<BackupInfo>, String> {
+    println!("Wiping app data: {:?}", options);
+    let backup = if options.backup {
+        Some(create_backup(&app_handle, state.inner(), &local_data).await?)
+    } else {
+        None
+    };
+
+    if options.sessions {
+        sessions::replace_all_sessions(&app_handle, state.inner(), None).await?;
+    }
+    if options.settings {
+        remove_if_exists(&settings::get_settings_path(&app_handle)?)?;
+    } else if options.api_keys || options.key_salt {
+        settings::clear_stored_api_keys(&app_handle, cache.inner())?;
+    }
+    if options.key_salt {
+        remove_if_exists(&get_app_data_dir(&app_handle)?.join(SALT_FILE))?;
+    }
+    cache.clear();
+    println!("App data wiped.");
+    Ok(backup)
+}
+
+// Newest first
+#[tauri::command]
+pub async fn list_backups(app_handle: AppHandle) -> Result<Vec<BackupInfo>, String> {
+    let dir = get_backups_dir(&app_handle)?;
+    let entries = fs::read_dir(&dir).map_err(|e| format!("Failed to read backups: {}", e))?;
+    let mut backups: Vec<BackupInfo> = entries
+        .flatten()
+        .filter_map(|entry| {
+            let manifest = fs::read_to_string(entry.path().join(BACKUP_MANIFEST)).ok()?;
+            match serde_json::from_str(&manifest) {
+                Ok(info) => Some(info),
+                Err(e) => {
+                    eprintln!("WARN: Skipping backup {:?}: {}", entry.file_name(), e);
+                    None
+                }
+            }
+        })
+        .collect();
+    backups.sort_by(|a, b| b.created_at.cmp(&a.created_at));
+    Ok(backups)
+}
+
+// Returns the localStorage entries kept in the backup, or None for backups taken before they were kept
+#[tauri::command]
+pub async fn restore_backup(
+    app_handle: AppHandle,
+    state: State<'_, SessionStoreState>,
+    cache: State<'_, CredentialCache>,
+    id: String,
+) -> Result<Option<HashMap<String, String>>, String> {
+    let dir = get_backup_dir(&app_handle, &id)?;
+    println!("Restoring backup {:?}", dir);
+    let sessions_dir = dir.join(BACKUP_SESSIONS_DIR);
+    let source = sessions_dir.exists().then_some(sessions_dir.as_path());
+    sessions::replace_all_sessions(&app_handle, state.inner(), source).await?;
+    restore_file(
+        &dir.join(BACKUP_SETTINGS_FILE),
+        &settings::get_settings_path(&app_handle)?,
+    )?;
+    restore_file(&dir.join(SALT_FILE), &get_app_data_dir(&app_handle)?.join(SALT_FILE))?;
+    cache.clear();
+    let local_data = match fs::read_to_string(dir.join(BACKUP_LOCAL_DATA_FILE)) {
+        Ok(json) => Some(
+            serde_json::from_str(&json)
+                .map_err(|e| format!("Failed to read backed up local data: {}", e))?,
+        ),
+        Err(_) => None,
+    };
+    println!("Backup {} restored.", id);
+    Ok(local_data)
+}
+
+#[tauri::command]
+pub async fn delete_backup(app_handle: AppHandle, id: String) -> Result<(), String> {
+    let dir = get_backup_dir(&app_handle, &id)?;
+    fs::remove_dir_all(&dir).map_err(|e| format!("Failed to delete backup: {}", e))
+}
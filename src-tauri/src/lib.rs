@@ -1,5 +1,9 @@
 // Learn more about Tauri commands at https://tauri.app/develop/calling-rust/
+mod ai;
 mod crypto;
+mod data;
+mod search;
+mod sessions;
 mod settings;
 use tauri::Manager;
 
@@ -9,11 +13,26 @@ pub fn run() {
         .plugin(tauri_plugin_opener::init())
         .plugin(tauri_plugin_shell::init())
         .plugin(tauri_plugin_fs::init())
+        .plugin(tauri_plugin_dialog::init())
         .plugin(tauri_plugin_os::init())
+        .manage(ai::ProviderRequestState::default())
+        .manage(sessions::SessionStoreState::default())
+        .manage(settings::CredentialCache::default())
         .invoke_handler(tauri::generate_handler![
             settings::load_app_settings,
-            settings::save_app_settings
-            // Add other async commands like get_ai_response, test_api_connection later
+            settings::save_app_settings,
+            sessions::list_sessions,
+            sessions::load_session,
+            sessions::save_session,
+            sessions::delete_session,
+            sessions::import_sessions,
+            sessions::search_messages,
+            data::wipe_app_data,
+            data::list_backups,
+            data::restore_backup,
+            data::delete_backup,
+            ai::provider_request,
+            ai::cancel_provider_request
         ])
         .setup(|app| {
             let app_handle = app.handle().clone();
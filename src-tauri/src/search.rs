@@ -0,0 +1,226 @@
+use serde::{Deserialize, Serialize};
+use serde_json::Value;
+use std::collections::{HashMap, HashSet};
+
+// In-memory full-text index over every stored message. Terms map to the sessions that
+// contain them, which narrows a query to a few sessions before their messages are scanned.
+// Built on the first search and kept up to date by the session store afterwards.
+
+const MAX_RESULTS: usize = 200;
+const SNIPPET_CONTEXT: usize = 60; // Characters shown on each side of the first match
+
+struct IndexedMessage {
+    id: String,
+    role: String,
+    content: String,
+    lowercase: String,
+    timestamp: String, // ISO 8601 as written by the frontend, so it sorts as a string
+}
+
+struct IndexedSession {
+    title: String,
+    model: Option<String>, // None when the session uses the global default settings
+    messages: Vec<IndexedMessage>,
+}
+
+#[derive(Default)]
+pub struct SearchIndex {
+    sessions: HashMap<String, IndexedSession>,
+    terms: HashMap<String, HashSet<String>>, // Term -> ids of sessions containing it
+}
+
+#[derive(Deserialize, Default, Debug)]
+#[serde(rename_all = "camelCase")]
+pub struct SearchFilters {
+    role: Option<String>,
+    model: Option<String>,
+    // Model of sessions without their own settings, needed to apply the model filter to them
+    default_model: Option<String>,
+    from: Option<String>,
+    to: Option<String>,
+}
+
+#[derive(Serialize, Debug)]
+#[serde(rename_all = "camelCase")]
+pub struct SearchHit {
+    session_id: String,
+    session_title: String,
+    message_id: String,
+    role: String,
+    snippet: String,
+    timestamp: String,
+}
+
+// Lowercased character by character, unlike str::to_lowercase (which special-cases a final
+// sigma), so every character of the original maps onto a known stretch of the result
+fn fold_case(text: &str) -> String {
+    text.chars().flat_map(char::to_lowercase).collect()
+}
+
+fn tokenize(text: &str) -> impl Iterator<Item = String> + '_ {
+    text.split(|c: char| !c.is_alphanumeric())
+        .filter(|t| !t.is_empty())
+        .map(fold_case)
+}
+
+fn str_field(value: &Value, key: &str) -> String {
+    value
+        .get(key)
+        .and_then(Value::as_str)
+        .unwrap_or_default()
+        .to_string()
+}
+
+fn index_session(session: &Value) -> IndexedSession {
+    let messages = session
+        .get("messages")
+        .and_then(Value::as_array)
+        .map(|messages| {
+            messages
+                .iter()
+                .map(|m| {
+                    let content = str_field(m, "content");
+                    IndexedMessage {
+                        id: str_field(m, "id"),
+                        role: str_field(m, "role"),
+                        lowercase: fold_case(&content),
+                        content,
+                        timestamp: str_field(m, "timestamp"),
+                    }
+                })
+                .collect()
+        })
+        .unwrap_or_default();
+    IndexedSession {
+        title: str_field(session, "title"),
+        model: session
+            .get("settings")
+            .and_then(|s| s.get("model"))
+            .and_then(Value::as_str)
+            .map(str::to_string),
+        messages,
+    }
+}
+
+// Around the first match, on character boundaries, with whitespace collapsed. The match is
+// found in the lowercased text, where a character can take more or fewer bytes and chars than
+// in the original (e.g. 'İ' becomes two), so its position is mapped back to the original.
+fn snippet(message: &IndexedMessage, term: &str) -> String {
+    let chars: Vec<char> = message.content.chars().collect();
+    // Byte offset in message.lowercase at which each original character's lowercase form starts
+    let mut folded_starts = Vec::with_capacity(chars.len());
+    let mut offset = 0;
+    for c in &chars {
+        folded_starts.push(offset);
+        offset += c.to_lowercase().map(char::len_utf8).sum::<usize>();
+    }
+    let byte_index = message.lowercase.find(term).unwrap_or(0);
+    // Original characters whose lowercase forms overlap the match
+    let match_start = folded_starts
+        .partition_point(|&start| start <= byte_index)
+        .saturating_sub(1);
+    let match_end = folded_starts.partition_point(|&start| start < byte_index + term.len());
+    let start = match_start.saturating_sub(SNIPPET_CONTEXT);
+    let end = (match_end + SNIPPET_CONTEXT).min(chars.len());
+    let text: String = chars[start.min(end)..end].iter().collect();
+    format!(
+        "{}{}{}",
+        if start > 0 { "…" } else { "" },
+        text.split_whitespace().collect::<Vec<_>>().join(" "),
+        if end < chars.len() { "…" } else { "" }
+    )
+}
+
+impl SearchIndex {
+    pub fn build(sessions: impl Iterator<Item = Value>) -> Self {
+        let mut index = SearchIndex::default();
+        for session in sessions {
+            index.update(&session);
+        }
+        index
+    }
+
+    pub fn update(&mut self, session: &Value) {
+        let id = str_field(session, "id");
+        self.remove(&id);
+        let indexed = index_session(session);
+        for message in &indexed.messages {
+            for term in tokenize(&message.content) {
+                self.terms.entry(term).or_default().insert(id.clone());
+            }
+        }
+        self.sessions.insert(id, indexed);
+    }
+
+    pub fn remove(&mut self, id: &str) {
+        let Some(old) = self.sessions.remove(id) else {
+            return;
+        };
+        for message in &old.messages {
+            for term in tokenize(&message.content) {
+                if let Some(ids) = self.terms.get_mut(&term) {
+                    ids.remove(id);
+                    if ids.is_empty() {
+                        self.terms.remove(&term);
+                    }
+                }
+            }
+        }
+    }
+
+    // Sessions containing a term that starts with `prefix` (so results appear while typing)
+    fn sessions_matching(&self, prefix: &str) -> HashSet<&str> {
+        self.terms
+            .iter()
+            .filter(|(term, _)| term.starts_with(prefix))
+            .flat_map(|(_, ids)| ids.iter().map(String::as_str))
+            .collect()
+    }
+
+    // Messages containing every query term, newest first
+    pub fn search(&self, query: &str, filters: &SearchFilters) -> Vec<SearchHit> {
+        let query_terms: Vec<String> = tokenize(query).collect();
+        let Some(first_term) = query_terms.first() else {
+            return Vec::new();
+        };
+
+        let mut candidates = self.sessions_matching(first_term);
+        for term in &query_terms[1..] {
+            let matching = self.sessions_matching(term);
+            candidates.retain(|id| matching.contains(id));
+        }
+
+        let mut hits = Vec::new();
+        for session_id in candidates {
+            let Some(session) = self.sessions.get(session_id) else {
+                continue;
+            };
+            if let Some(model) = &filters.model {
+                let session_model = session.model.as_ref().or(filters.default_model.as_ref());
+                if session_model != Some(model) {
+                    continue;
+                }
+            }
+            for message in &session.messages {
+                if filters.role.as_ref().is_some_and(|role| *role != message.role)
+                    || filters.from.as_ref().is_some_and(|from| message.timestamp < *from)
+                    || filters.to.as_ref().is_some_and(|to| message.timestamp > *to)
+                    || !query_terms.iter().all(|t| message.lowercase.contains(t.as_str()))
+                {
+                    continue;
+                }
+                hits.push(SearchHit {
+                    session_id: session_id.to_string(),
+                    session_title: session.title.clone(),
+                    message_id: message.id.clone(),
+                    role: message.role.clone(),
+                    snippet: snippet(message, first_term),
+                    timestamp: message.timestamp.clone(),
+                });
+            }
+        }
+        hits.sort_by(|a, b| b.timestamp.cmp(&a.timestamp));
+        hits.truncate(MAX_RESULTS);
+        hits
+    }
+}
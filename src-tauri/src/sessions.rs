@@ -0,0 +1,422 @@
+use crate::search::{SearchFilters, SearchHit, SearchIndex};
+use serde_json::{Map, Value};
+use std::fs;
+use std::path::{Path, PathBuf};
+use std::time::SystemTime;
+use tauri::{AppHandle, Manager, State};
+use tokio::sync::Mutex;
+
+// Chat sessions are stored one file per session under <app data>/sessions/<id>.json.
+// index.json holds every session without its messages, so the sidebar can be listed
+// without reading message bodies; those are loaded per session when it is opened.
+// Sessions are kept as plain JSON so fields added by the frontend survive a round-trip.
+//
+// Saving a message changes only a session's lastModified and activeLeafId, so index.json
+// is not rewritten for those: it lags behind, and entries of session files written after
+// it are refreshed when the index is next loaded (see load_index).
+
+const SESSIONS_DIR: &str = "sessions";
+const INDEX_FILE: &str = "index.json";
+
+// Summary fields that change with every message; they alone don't warrant an index write
+const VOLATILE_FIELDS: [&str; 2] = ["lastModified", "activeLeafId"];
+
+#[derive(Default)]
+struct StoreCache {
+    index: Option<Map<String, Value>>, // index.json as loaded, kept current in memory
+    search_index: Option<SearchIndex>, // Built by the first search
+}
+
+// Serializes store access between concurrent commands. Also caches the session index and,
+// once the first search has built it, the message search index, so saves and deletes can
+// keep both current without reading them from disk again.
+#[derive(Default)]
+pub struct SessionStoreState {
+    cache: Mutex<StoreCache>,
+}
+
+fn get_sessions_dir(app_handle: &AppHandle) -> Result<PathBuf, String> {
+    let dir = app_handle
+        .path()
+        .app_data_dir()
+        .map(|dir| dir.join(SESSIONS_DIR))
+        .map_err(|_| "Could not resolve app data directory".to_string())?;
+    if !dir.exists() {
+        fs::create_dir_all(&dir)
+            .map_err(|e| format!("Failed to create sessions directory: {}", e))?;
+    }
+    Ok(dir)
+}
+
+// Ids become file names, so only allow the characters uuids are made of
+fn validate_id(id: &str) -> Result<(), String> {
+    let valid = !id.is_empty()
+        && id
+            .chars()
+            .all(|c| c.is_ascii_alphanumeric() || c == '-' || c == '_');
+    if valid {
+        Ok(())
+    } else {
+        Err(format!("Invalid session id: {:?}", id))
+    }
+}
+
+fn session_path(dir: &Path, id: &str) -> PathBuf {
+    dir.join(format!("{}.json", id))
+}
+
+fn session_id(session: &Value) -> Result<String, String> {
+    let id = session
+        .get("id")
+        .and_then(Value::as_str)
+        .ok_or("Session has no id")?;
+    validate_id(id)?;
+    Ok(id.to_string())
+}
+
+fn summary_of(session: &Value) -> Value {
+    let mut summary = session.clone();
+    if let Some(obj) = summary.as_object_mut() {
+        obj.remove("messages");
+    }
+    summary
+}
+
+fn read_json(path: &Path) -> Result<Option<Value>, String> {
+    if !path.exists() {
+        return Ok(None);
+    }
+    let contents = fs::read_to_string(path)
+        .map_err(|e| format!("Failed to read {:?}: {}", path.file_name(), e))?;
+    if contents.trim().is_empty() {
+        return Ok(None);
+    }
+    serde_json::from_str(&contents)
+        .map(Some)
+        .map_err(|e| format!("Parse {:?}: {}", path.file_name(), e))
+}
+
+// Write to a temporary file first so a crash mid-write never leaves a truncated session
+fn write_json(path: &Path, value: &Value) -> Result<(), String> {
+    let serialized =
+        serde_json::to_string(value).map_err(|e| format!("Failed serialize: {}", e))?;
+    let tmp_path = path.with_extension("json.tmp");
+    fs::write(&tmp_path, serialized.as_bytes())
+        .map_err(|e| format!("Failed write {:?}: {}", tmp_path.file_name(), e))?;
+    fs::rename(&tmp_path, path)
+        .map_err(|e| format!("Failed write {:?}: {}", path.file_name(), e))
+}
+
+// Rebuilt from the session files if index.json is missing or unreadable
+fn rebuild_index(dir: &Path) -> Result<Map<String, Value>, String> {
+    println!("Rebuilding session index in {:?}", dir);
+    let mut index = Map::new();
+    let entries =
+        fs::read_dir(dir).map_err(|e| format!("Failed to read sessions directory: {}", e))?;
+    for entry in entries.flatten() {
+        let path = entry.path();
+        if path.extension().and_then(|e| e.to_str()) != Some("json")
+            || path.file_name().and_then(|n| n.to_str()) == Some(INDEX_FILE)
+        {
+            continue;
+        }
+        match read_json(&path) {
+            Ok(Some(session)) => match session_id(&session) {
+                Ok(id) => {
+                    index.insert(id, summary_of(&session));
+                }
+                Err(e) => eprintln!("WARN: Skipping {:?}: {}", path.file_name(), e),
+            },
+            Ok(None) => {}
+            Err(e) => eprintln!("WARN: Skipping {}", e),
+        }
+    }
+    write_json(&dir.join(INDEX_FILE), &Value::Object(index.clone()))?;
+    Ok(index)
+}
+
+fn read_index(dir: &Path) -> Result<Map<String, Value>, String> {
+    match read_json(&dir.join(INDEX_FILE)) {
+        Ok(Some(Value::Object(index))) => Ok(index),
+        Ok(_) => rebuild_index(dir),
+        Err(e) => {
+            eprintln!("WARN: {}", e);
+            rebuild_index(dir)
+        }
+    }
+}
+
+fn modified_time(path: &Path) -> Option<SystemTime> {
+    fs::metadata(path).and_then(|m| m.modified()).ok()
+}
+
+// Reads index.json and refreshes the entries of session files written since, whose
+// volatile fields the index doesn't have yet
+fn load_index(dir: &Path) -> Result<Map<String, Value>, String> {
+    let index_path = dir.join(INDEX_FILE);
+    let mut index = read_index(dir)?;
+    let Some(index_time) = modified_time(&index_path) else {
+        return Ok(index);
+    };
+    let mut refreshed = false;
+    for (id, summary) in index.iter_mut() {
+        let path = session_path(dir, id);
+        if !modified_time(&path).is_some_and(|time| time >= index_time) {
+            continue;
+        }
+        match read_json(&path) {
+            Ok(Some(session)) => {
+                *summary = summary_of(&session);
+                refreshed = true;
+            }
+            Ok(None) => {}
+            Err(e) => eprintln!("WARN: Not refreshing index entry of {}: {}", id, e),
+        }
+    }
+    if refreshed {
+        write_json(&index_path, &Value::Object(index.clone()))?;
+    }
+    Ok(index)
+}
+
+// The cached index, loaded on first use
+fn cached_index<'a>(
+    cache: &'a mut StoreCache,
+    dir: &Path,
+) -> Result<&'a mut Map<String, Value>, String> {
+    if cache.index.is_none() {
+        cache.index = Some(load_index(dir)?);
+    }
+    Ok(cache.index.as_mut().expect("index was just loaded"))
+}
+
+fn write_index(dir: &Path, index: &Map<String, Value>) -> Result<(), String> {
+    write_json(&dir.join(INDEX_FILE), &Value::Object(index.clone()))
+}
+
+// Whether two summaries differ in more than their volatile fields
+fn listing_changed(old: &Value, new: &Value) -> bool {
+    let without_volatile = |summary: &Value| {
+        let mut summary = summary.clone();
+        if let Some(obj) = summary.as_object_mut() {
+            VOLATILE_FIELDS.iter().for_each(|field| {
+                obj.remove(*field);
+            });
+        }
+        summary
+    };
+    without_volatile(old) != without_volatile(new)
+}
+
+// Writes a session file and its index entry. A session sent without `messages` is a
+// metadata-only update (e.g. a rename of a chat that was never opened) and keeps the
+// messages already on disk, along with the schema version they were written with.
+// Returns the session as written, and whether index.json needs writing for it.
+fn store_session(
+    dir: &Path,
+    index: &mut Map<String, Value>,
+    mut session: Value,
+) -> Result<(Value, bool), String> {
+    let id = session_id(&session)?;
+    let path = session_path(dir, &id);
+    let obj = session.as_object_mut().ok_or("Session must be an object")?;
+    if !obj.contains_key("messages") {
+        let mut stored = read_json(&path)?.unwrap_or(Value::Null);
+        let messages = stored
+            .get_mut("messages")
+            .map(Value::take)
+            .unwrap_or_else(|| Value::Array(Vec::new()));
+        obj.insert("messages".to_string(), messages);
+        match stored.get_mut("schemaVersion").map(Value::take) {
+            Some(version) => obj.insert("schemaVersion".to_string(), version),
+            None => obj.remove("schemaVersion"),
+        };
+    }
+    write_json(&path, &session)?;
+    let summary = summary_of(&session);
+    let index_changed = index
+        .get(&id)
+        .map_or(true, |old| listing_changed(old, &summary));
+    index.insert(id, summary);
+    Ok((session, index_changed))
+}
+
+// Copies every session file into `dest` (used for backups). Returns how many were copied.
+pub async fn backup_sessions(
+    app_handle: &AppHandle,
+    state: &SessionStoreState,
+    dest: &Path,
+) -> Result<usize, String> {
+    let cache = state.cache.lock().await;
+    let dir = get_sessions_dir(app_handle)?;
+    if let Some(index) = &cache.index {
+        write_index(&dir, index)?; // Bring the volatile fields up to date in the copy
+    }
+    fs::create_dir_all(dest).map_err(|e| format!("Failed to create backup directory: {}", e))?;
+    let mut copied = 0;
+    let entries =
+        fs::read_dir(&dir).map_err(|e| format!("Failed to read sessions directory: {}", e))?;
+    for entry in entries.flatten() {
+        let path = entry.path();
+        if path.extension().and_then(|e| e.to_str()) != Some("json") {
+            continue; // Skips leftover .json.tmp files
+        }
+        fs::copy(&path, dest.join(entry.file_name()))
+            .map_err(|e| format!("Failed to back up {:?}: {}", path.file_name(), e))?;
+        if path.file_name().and_then(|n| n.to_str()) != Some(INDEX_FILE) {
+            copied += 1;
+        }
+    }
+    Ok(copied)
+}
+
+// Deletes every stored session, then copies in the files from `source` if given (restoring
+// a backup). The search index is dropped and rebuilt from disk on the next search.
+pub async fn replace_all_sessions(
+    app_handle: &AppHandle,
+    state: &SessionStoreState,
+    source: Option<&Path>,
+) -> Result<(), String> {
+    let mut cache = state.cache.lock().await;
+    let dir = get_sessions_dir(app_handle)?;
+    fs::remove_dir_all(&dir).map_err(|e| format!("Failed to delete sessions: {}", e))?;
+    let dir = get_sessions_dir(app_handle)?; // Recreated empty
+    if let Some(source) = source {
+        let entries =
+            fs::read_dir(source).map_err(|e| format!("Failed to read backup: {}", e))?;
+        for entry in entries.flatten() {
+            fs::copy(entry.path(), dir.join(entry.file_name()))
+                .map_err(|e| format!("Failed to restore {:?}: {}", entry.file_name(), e))?;
+        }
+    }
+    *cache = StoreCache::default();
+    Ok(())
+}
+
+// All sessions without their messages
+#[tauri::command]
+pub async fn list_sessions(
+    app_handle: AppHandle,
+    state: State<'_, SessionStoreState>,
+) -> Result<Vec<Value>, String> {
+    let mut cache = state.cache.lock().await;
+    let dir = get_sessions_dir(&app_handle)?;
+    Ok(cached_index(&mut cache, &dir)?.values().cloned().collect())
+}
+
+#[tauri::command]
+pub async fn load_session(
+    app_handle: AppHandle,
+    state: State<'_, SessionStoreState>,
+    id: String,
+) -> Result<Value, String> {
+    validate_id(&id)?;
+    let _guard = state.cache.lock().await;
+    let dir = get_sessions_dir(&app_handle)?;
+    read_json(&session_path(&dir, &id))?.ok_or_else(|| format!("Session {} not found", id))
+}
+
+#[tauri::command]
+pub async fn save_session(
+    app_handle: AppHandle,
+    state: State<'_, SessionStoreState>,
+    session: Value,
+) -> Result<(), String> {
+    let mut cache = state.cache.lock().await;
+    let dir = get_sessions_dir(&app_handle)?;
+    let index = cached_index(&mut cache, &dir)?;
+    let (stored, index_changed) = store_session(&dir, index, session)?;
+    if index_changed {
+        write_index(&dir, index)?;
+    }
+    if let Some(search_index) = cache.search_index.as_mut() {
+        search_index.update(&stored);
+    }
+    Ok(())
+}
+
+#[tauri::command]
+pub async fn delete_session(
+    app_handle: AppHandle,
+    state: State<'_, SessionStoreState>,
+    id: String,
+) -> Result<(), String> {
+    validate_id(&id)?;
+    let mut cache = state.cache.lock().await;
+    let dir = get_sessions_dir(&app_handle)?;
+    let path = session_path(&dir, &id);
+    if path.exists() {
+        fs::remove_file(&path).map_err(|e| format!("Failed to delete session: {}", e))?;
+    }
+    let index = cached_index(&mut cache, &dir)?;
+    if index.remove(&id).is_some() {
+        write_index(&dir, index)?;
+    }
+    if let Some(search_index) = cache.search_index.as_mut() {
+        search_index.remove(&id);
+    }
+    Ok(())
+}
+
+// Saves many sessions with a single index write (used for the localStorage migration).
+// Returns how many were stored.
+#[tauri::command]
+pub async fn import_sessions(
+    app_handle: AppHandle,
+    state: State<'_, SessionStoreState>,
+    sessions: Vec<Value>,
+) -> Result<usize, String> {
+    let mut cache = state.cache.lock().await;
+    let dir = get_sessions_dir(&app_handle)?;
+    let StoreCache {
+        index,
+        search_index,
+    } = &mut *cache;
+    if index.is_none() {
+        *index = Some(load_index(&dir)?);
+    }
+    let index = index.as_mut().expect("index was just loaded");
+    let mut stored = 0;
+    for session in sessions {
+        match store_session(&dir, index, session) {
+            Ok((session, _)) => {
+                stored += 1;
+                if let Some(search_index) = search_index.as_mut() {
+                    search_index.update(&session);
+                }
+            }
+            Err(e) => eprintln!("WARN: Skipping session during import: {}", e),
+        }
+    }
+    write_index(&dir, index)?;
+    Ok(stored)
+}
+
+// Full-text search over every stored message
+#[tauri::command]
+pub async fn search_messages(
+    app_handle: AppHandle,
+    state: State<'_, SessionStoreState>,
+    query: String,
+    filters: Option<SearchFilters>,
+) -> Result<Vec<SearchHit>, String> {
+    let mut cache = state.cache.lock().await;
+    if cache.search_index.is_none() {
+        let dir = get_sessions_dir(&app_handle)?;
+        let ids: Vec<String> = cached_index(&mut cache, &dir)?.keys().cloned().collect();
+        println!("Building message search index for {} sessions", ids.len());
+        let sessions = ids.into_iter().filter_map(|id| match read_json(&session_path(&dir, &id)) {
+            Ok(session) => session,
+            Err(e) => {
+                eprintln!("WARN: Not indexing session {}: {}", id, e);
+                None
+            }
+        });
+        cache.search_index = Some(SearchIndex::build(sessions));
+    }
+    Ok(cache
+        .search_index
+        .as_ref()
+        .map(|index| index.search(&query, &filters.unwrap_or_default()))
+        .unwrap_or_default())
+}
@@ -1,8 +1,11 @@
 use crate::crypto;
 use serde::{Deserialize, Serialize};
+use serde_json::{Map, Value};
+use std::collections::HashMap;
 use std::fs;
-use std::path::PathBuf;
-use tauri::{AppHandle, Manager};
+use std::path::{Path, PathBuf};
+use std::sync::Mutex;
+use tauri::{AppHandle, Manager, State};
 
 #[derive(Serialize, Deserialize, Debug, Clone)]
 #[serde(rename_all = "camelCase")]
@@ -15,25 +18,93 @@ pub struct ChatSettings {
     max_tokens: Option<u32>,
     #[serde(skip_serializing_if = "Option::is_none")]
     top_p: Option<f32>,
+    #[serde(skip_serializing_if = "Option::is_none")]
+    provider_config_id: Option<String>,
+    // Fields this build doesn't know about, kept so saving never drops them
+    #[serde(flatten)]
+    extra: Map<String, Value>,
 }
 
 #[derive(Serialize, Deserialize, Debug, Clone)]
 #[serde(rename_all = "camelCase")]
 pub struct ApiProviderConfig {
-    id: String,
-    provider_id: String,
+    pub id: String,
+    pub provider_id: String,
     name: String,
+    // Encrypted on disk. The frontend only ever sends a key when the user types a new one
+    // and never gets one back; empty means "keep the stored key".
+    #[serde(default)]
     api_key: String,
+    // Last 4 characters of the stored key, so the UI can tell keys apart
+    #[serde(default, skip_serializing_if = "Option::is_none")]
+    api_key_hint: Option<String>,
     #[serde(skip_serializing_if = "Option::is_none")]
-    base_url: Option<String>,
+    pub base_url: Option<String>,
+    // Frontend-only fields (status, lastTested, lastTestError, ...)
+    #[serde(flatten)]
+    extra: Map<String, Value>,
 }
 
 #[derive(Serialize, Deserialize, Debug, Clone)]
 #[serde(rename_all = "camelCase")]
 pub struct AppSettings {
+    #[serde(default)]
+    schema_version: u32,
     default_chat_settings: ChatSettings,
     api_providers: Vec<ApiProviderConfig>,
     send_with_enter: bool,
+    // Frontend-only fields (uiDensity, chatFolders, sidebarViewMode, ...)
+    #[serde(flatten)]
+    extra: Map<String, Value>,
+}
+
+pub const SETTINGS_SCHEMA_VERSION: u32 = 1;
+
+// MIGRATIONS[n] upgrades a settings file from version n to n + 1.
+// Append new steps at the end and bump SETTINGS_SCHEMA_VERSION; never edit old ones.
+const MIGRATIONS: [fn(&mut Map<String, Value>); SETTINGS_SCHEMA_VERSION as usize] = [migrate_v0_to_v1];
+
+// v0: files written before schemaVersion existed, which may lack fields added since
+fn migrate_v0_to_v1(settings: &mut Map<String, Value>) {
+    settings
+        .entry("apiProviders")
+        .or_insert_with(|| Value::Array(Vec::new()));
+    settings
+        .entry("sendWithEnter")
+        .or_insert(Value::Bool(true));
+    if !settings.contains_key("defaultChatSettings") {
+        if let Ok(defaults) = serde_json::to_value(default_chat_settings()) {
+            settings.insert("defaultChatSettings".to_string(), defaults);
+        }
+    }
+}
+
+// Brings stored settings up to SETTINGS_SCHEMA_VERSION. Files from a newer build are left
+// as they are; unknown fields are kept by `extra`, so loading them is still safe.
+fn migrate_settings(value: &mut Value) -> Result<(), String> {
+    let settings = value
+        .as_object_mut()
+        .ok_or("Settings file is not a JSON object")?;
+    let version = settings
+        .get("schemaVersion")
+        .and_then(Value::as_u64)
+        .unwrap_or(0) as usize;
+    if version > MIGRATIONS.len() {
+        eprintln!(
+            "WARN: settings.json has schema version {}, newer than this build ({})",
+            version, SETTINGS_SCHEMA_VERSION
+        );
+        return Ok(());
+    }
+    for (from, migration) in MIGRATIONS.iter().enumerate().skip(version) {
+        println!("Migrating settings from v{} to v{}", from, from + 1);
+        migration(settings);
+    }
+    settings.insert(
+        "schemaVersion".to_string(),
+        Value::from(SETTINGS_SCHEMA_VERSION),
+    );
+    Ok(())
 }
 
 fn default_chat_settings() -> ChatSettings {
@@ -43,18 +114,63 @@ fn default_chat_settings() -> ChatSettings {
         system_prompt: None,
         max_tokens: None,
         top_p: None,
+        provider_config_id: None,
+        extra: Map::new(),
     }
 }
 
 fn default_app_settings() -> AppSettings {
     AppSettings {
+        schema_version: SETTINGS_SCHEMA_VERSION,
         default_chat_settings: default_chat_settings(),
         api_providers: Vec::new(),
         send_with_enter: true,
+        extra: Map::new(),
     }
 }
 
-fn get_settings_path(app_handle: &AppHandle) -> Result<PathBuf, String> {
+// What provider requests need from a saved configuration, with its key decrypted
+#[derive(Clone)]
+pub struct ProviderCredentials {
+    pub provider_id: String,
+    pub base_url: Option<String>,
+    // Err if the stored key can't be decrypted (e.g. key.salt was replaced)
+    pub api_key: Result<Option<String>, String>,
+}
+
+// Credentials of the saved configurations by id, so requests don't re-read settings.json and
+// re-derive the key every time. Filled on first use; cleared whenever settings, keys or key.salt
+// change on disk.
+#[derive(Default)]
+pub struct CredentialCache(Mutex<CachedCredentials>);
+
+#[derive(Default)]
+struct CachedCredentials {
+    // Bumped by every clear, so a load that read the old file can't store what it read
+    generation: u64,
+    credentials: Option<HashMap<String, ProviderCredentials>>,
+}
+
+impl CredentialCache {
+    pub fn clear(&self) {
+        let mut cached = self.0.lock().unwrap();
+        cached.generation += 1;
+        cached.credentials = None;
+    }
+
+    fn generation(&self) -> u64 {
+        self.0.lock().unwrap().generation
+    }
+
+    fn store(&self, generation: u64, credentials: HashMap<String, ProviderCredentials>) {
+        let mut cached = self.0.lock().unwrap();
+        if cached.generation == generation {
+            cached.credentials = Some(credentials);
+        }
+    }
+}
+
+pub fn get_settings_path(app_handle: &AppHandle) -> Result<PathBuf, String> {
     app_handle
         .path()
         .app_data_dir()
@@ -62,45 +178,153 @@ fn get_settings_path(app_handle: &AppHandle) -> Result<PathBuf, String> {
         .map_err(|_| "Could not resolve app data directory".to_string())
 }
 
-#[tauri::command]
-pub async fn load_app_settings(app_handle: AppHandle) -> Result<AppSettings, String> {
-    let path = get_settings_path(&app_handle)?;
-    println!("Attempting to load settings from: {:?}", path);
+fn key_hint(key: &str) -> String {
+    let chars: Vec<char> = key.chars().collect();
+    chars[chars.len().saturating_sub(4)..].iter().collect()
+}
 
+// Reads settings.json as stored on disk (API keys still encrypted), migrated to the current
+// schema. None if there is no file yet.
+fn read_stored_settings(path: &Path) -> Result<Option<AppSettings>, String> {
     if !path.exists() {
-        println!("Settings file not found at specified path, returning defaults.");
-        return Ok(default_app_settings());
+        return Ok(None);
     }
 
     let contents =
-        fs::read_to_string(&path).map_err(|e| format!("Failed to read settings file: {}", e))?;
+        fs::read_to_string(path).map_err(|e| format!("Failed to read settings file: {}", e))?;
 
     if contents.trim().is_empty() {
-        return Ok(default_app_settings());
+        return Ok(None);
     }
 
-    let mut settings: AppSettings =
-        serde_json::from_str(&contents).map_err(|e| format!("Parse: {}", e))?;
+    let mut value: Value = serde_json::from_str(&contents).map_err(|e| format!("Parse: {}", e))?;
+    migrate_settings(&mut value)?;
+    serde_json::from_value(value)
+        .map(Some)
+        .map_err(|e| format!("Parse: {}", e))
+}
 
-    println!("Deserialized. Decrypting keys...");
+fn write_stored_settings(path: &Path, settings: &AppSettings) -> Result<(), String> {
+    let serialized_settings =
+        serde_json::to_string_pretty(settings).map_err(|e| format!("Failed serialize: {}", e))?;
+    fs::write(path, serialized_settings.as_bytes())
+        .map_err(|e| format!("Failed write settings file: {}", e))
+}
 
+// Removes every stored API key but keeps the provider configurations (used by the data wipe).
+pub fn clear_stored_api_keys(
+    app_handle: &AppHandle,
+    cache: &CredentialCache,
+) -> Result<(), String> {
+    let path = get_settings_path(app_handle)?;
+    let Some(mut settings) = read_stored_settings(&path)? else {
+        return Ok(());
+    };
     for provider in &mut settings.api_providers {
-        if !provider.api_key.is_empty() {
-            match crypto::decrypt_base64(&app_handle, &provider.api_key).await {
-                Ok(decrypted_key) => provider.api_key = decrypted_key,
-                Err(e) => {
-                    eprintln!("WARN: Failed to decrypt key for '{}': {}", provider.name, e);
-                    provider.api_key = String::new();
-                }
+        provider.api_key.clear();
+        // A connection test result no longer applies
+        provider.extra.insert("status".to_string(), Value::String("unknown".to_string()));
+    }
+    write_stored_settings(&path, &settings)?;
+    cache.clear();
+    println!("Cleared stored API keys in {:?}", path);
+    Ok(())
+}
+
+// Decrypts every stored key, deriving the decryption key only once
+async fn decrypt_credentials(
+    app_handle: &AppHandle,
+    settings: &AppSettings,
+) -> HashMap<String, ProviderCredentials> {
+    let needs_key = settings.api_providers.iter().any(|p| !p.api_key.is_empty());
+    let key = if needs_key {
+        Some(crypto::get_key(app_handle).await.map_err(|e| e.to_string()))
+    } else {
+        None
+    };
+    settings
+        .api_providers
+        .iter()
+        .map(|provider| {
+            let api_key = match &key {
+                _ if provider.api_key.is_empty() => Ok(None),
+                Some(Ok(key)) => crypto::decrypt_base64(key, &provider.api_key)
+                    .map(Some)
+                    .map_err(|e| e.to_string()),
+                Some(Err(e)) => Err(e.clone()),
+                None => Ok(None),
             }
+            .map_err(|e| format!("Failed to decrypt key for '{}': {}", provider.name, e));
+            let credentials = ProviderCredentials {
+                provider_id: provider.provider_id.clone(),
+                base_url: provider.base_url.clone(),
+                api_key,
+            };
+            (provider.id.clone(), credentials)
+        })
+        .collect()
+}
+
+// Credentials of a saved provider configuration, for backend-side requests only.
+// None if no configuration with that id has been saved.
+pub async fn load_provider_credentials(
+    app_handle: &AppHandle,
+    cache: &CredentialCache,
+    provider_config_id: &str,
+) -> Result<Option<ProviderCredentials>, String> {
+    if let Some(credentials) = &cache.0.lock().unwrap().credentials {
+        return Ok(credentials.get(provider_config_id).cloned());
+    }
+    let generation = cache.generation();
+    let path = get_settings_path(app_handle)?;
+    let credentials = match read_stored_settings(&path)? {
+        Some(settings) => decrypt_credentials(app_handle, &settings).await,
+        None => HashMap::new(),
+    };
+    let found = credentials.get(provider_config_id).cloned();
+    cache.store(generation, credentials);
+    Ok(found)
+}
+
+#[tauri::command]
+pub async fn load_app_settings(
+    app_handle: AppHandle,
+    cache: State<'_, CredentialCache>,
+) -> Result<AppSettings, String> {
+    let path = get_settings_path(&app_handle)?;
+    println!("Attempting to load settings from: {:?}", path);
+
+    let generation = cache.generation();
+    let Some(mut settings) = read_stored_settings(&path)? else {
+        println!("Settings file not found or empty, returning defaults.");
+        return Ok(default_app_settings());
+    };
+
+    println!("Deserialized. Preparing key hints...");
+
+    // Keys never leave the backend; the frontend only gets a hint of each one
+    let credentials = decrypt_credentials(&app_handle, &settings).await;
+    for provider in &mut settings.api_providers {
+        provider.api_key.clear();
+        provider.api_key_hint = None;
+        match credentials.get(&provider.id).map(|c| &c.api_key) {
+            Some(Ok(Some(key))) => provider.api_key_hint = Some(key_hint(key)),
+            Some(Err(e)) => eprintln!("WARN: {}", e),
+            _ => {}
         }
     }
+    cache.store(generation, credentials);
     println!("Settings loaded.");
     Ok(settings)
 }
 
+// Returns the saved settings with keys stripped, so the frontend can drop any plaintext key it held.
 #[tauri::command]
-pub async fn save_app_settings(app_handle: AppHandle, settings: AppSettings) -> Result<(), String> {
+pub async fn save_app_settings(
+    app_handle: AppHandle,
+    cache: State<'_, CredentialCache>,
+    settings: AppSettings,
+) -> Result<AppSettings, String> {
     let path = get_settings_path(&app_handle)?;
     println!("Saving settings to: {:?}", path);
 
@@ -117,25 +341,176 @@ pub async fn save_app_settings(app_handle: AppHandle, settings: AppSettings) ->
         return Err("Invalid settings file path (no parent directory).".to_string());
     }
 
+    let stored = read_stored_settings(&path)?;
+    // A file from a newer build keeps its version so that build doesn't re-run its migrations
+    let stored_version = stored.as_ref().map_or(0, |s| s.schema_version);
+    // Encrypted keys currently on disk, by provider config id
+    let stored_keys: HashMap<String, String> = stored
+        .map(|stored| {
+            stored
+                .api_providers
+                .into_iter()
+                .map(|p| (p.id, p.api_key))
+                .collect()
+        })
+        .unwrap_or_default();
+
     let mut settings_to_save = settings.clone();
+    settings_to_save.schema_version = SETTINGS_SCHEMA_VERSION.max(stored_version);
 
     for provider in &mut settings_to_save.api_providers {
-        if !provider.api_key.is_empty() {
-            match crypto::encrypt_to_base64(&app_handle, &provider.api_key).await {
-                Ok(encrypted_key_b64) => provider.api_key = encrypted_key_b64,
-                Err(e) => {
-                    return Err(format!("Failed encrypt key for {}: {}", provider.name, e));
-                }
+        provider.api_key_hint = None;
+        if provider.api_key.is_empty() {
+            // No new key entered, keep the one already stored
+            if let Some(existing) = stored_keys.get(&provider.id) {
+                provider.api_key = existing.clone();
+            }
+            continue;
+        }
+        match crypto::encrypt_to_base64(&app_handle, &provider.api_key).await {
+            Ok(encrypted_key_b64) => provider.api_key = encrypted_key_b64,
+            Err(e) => {
+                return Err(format!("Failed encrypt key for {}: {}", provider.name, e));
             }
         }
     }
 
-    let serialized_settings = serde_json::to_string_pretty(&settings_to_save)
-        .map_err(|e| format!("Failed serialize: {}", e))?;
+    write_stored_settings(&path, &settings_to_save)?;
+    cache.clear();
 
-    fs::write(&path, serialized_settings.as_bytes()) // Use the full path
-        .map_err(|e| format!("Failed write settings file: {}", e))?;
+    println!("Settings saved successfully to {:?}", path);
 
-        println!("Settings saved successfully to {:?}", path);
-        Ok(())
+    let mut sanitized = settings;
+    sanitized.schema_version = settings_to_save.schema_version;
+    for provider in &mut sanitized.api_providers {
+        let plaintext_key = std::mem::take(&mut provider.api_key);
+        if !plaintext_key.is_empty() {
+            provider.api_key_hint = Some(key_hint(&plaintext_key));
+        }
+    }
+    Ok(sanitized)
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+    use serde_json::json;
+
+    // A settings.json in a fresh temporary directory, removed again by the caller
+    fn temp_settings_path(name: &str) -> PathBuf {
+        let dir =
+            std::env::temp_dir().join(format!("chatalia-settings-{}-{}", name, std::process::id()));
+        fs::create_dir_all(&dir).unwrap();
+        dir.join("settings.json")
+    }
+
+    #[test]
+    fn migrates_an_unversioned_file_step_by_step() {
+        let mut value = json!({
+            "apiProviders": [{ "id": "config-1", "providerId": "openai", "name": "OpenAI" }],
+            "uiDensity": "compact"
+        });
+
+        migrate_settings(&mut value).unwrap();
+
+        assert_eq!(value["schemaVersion"], json!(SETTINGS_SCHEMA_VERSION));
+        assert_eq!(value["sendWithEnter"], json!(true));
+        assert_eq!(value["defaultChatSettings"]["model"], json!("gpt-4o-mini"));
+        assert_eq!(value["apiProviders"][0]["id"], json!("config-1"));
+        assert_eq!(value["uiDensity"], json!("compact"));
+        let settings: AppSettings = serde_json::from_value(value).unwrap();
+        assert_eq!(settings.api_providers.len(), 1);
+    }
+
+    #[test]
+    fn keeps_what_a_file_already_has() {
+        let mut value = json!({ "sendWithEnter": false, "apiProviders": [] });
+
+        migrate_settings(&mut value).unwrap();
+
+        assert_eq!(value["sendWithEnter"], json!(false));
+    }
+
+    #[test]
+    fn leaves_files_from_a_newer_build_alone() {
+        let original = json!({ "schemaVersion": SETTINGS_SCHEMA_VERSION + 1, "futureField": 1 });
+        let mut value = original.clone();
+
+        migrate_settings(&mut value).unwrap();
+
+        assert_eq!(value, original);
+    }
+
+    #[test]
+    fn rejects_a_file_that_is_not_an_object() {
+        assert!(migrate_settings(&mut json!([])).is_err());
+    }
+
+    #[test]
+    fn keeps_unknown_fields_through_a_load_and_save() {
+        let path = temp_settings_path("unknown-fields");
+        let file = json!({
+            "defaultChatSettings": { "model": "gpt-4o", "temperature": 0.5, "reasoningEffort": "high" },
+            "apiProviders": [{
+                "id": "config-1",
+                "providerId": "openai",
+                "name": "OpenAI",
+                "apiKey": "ZW5jcnlwdGVk",
+                "status": "connected"
+            }],
+            "sendWithEnter": false,
+            "chatFolders": [{ "id": "folder-1", "name": "Work" }]
+        });
+        fs::write(&path, file.to_string()).unwrap();
+
+        let settings = read_stored_settings(&path).unwrap().unwrap();
+        write_stored_settings(&path, &settings).unwrap();
+
+        let saved: Value = serde_json::from_str(&fs::read_to_string(&path).unwrap()).unwrap();
+        fs::remove_dir_all(path.parent().unwrap()).unwrap();
+        assert_eq!(saved["schemaVersion"], json!(SETTINGS_SCHEMA_VERSION));
+        assert_eq!(saved["chatFolders"], file["chatFolders"]);
+        assert_eq!(
+            saved["defaultChatSettings"]["reasoningEffort"],
+            json!("high")
+        );
+        assert_eq!(saved["apiProviders"][0]["status"], json!("connected"));
+        assert_eq!(saved["apiProviders"][0]["apiKey"], json!("ZW5jcnlwdGVk"));
+        assert_eq!(saved["sendWithEnter"], json!(false));
+    }
+
+    #[test]
+    fn keeps_the_version_of_a_file_from_a_newer_build() {
+        let path = temp_settings_path("newer-version");
+        let version = SETTINGS_SCHEMA_VERSION + 1;
+        fs::write(
+            &path,
+            json!({
+                "schemaVersion": version,
+                "defaultChatSettings": { "model": "gpt-4o", "temperature": 0.5 },
+                "apiProviders": [],
+                "sendWithEnter": true,
+                "futureField": { "nested": true }
+            })
+            .to_string(),
+        )
+        .unwrap();
+
+        let settings = read_stored_settings(&path).unwrap().unwrap();
+        write_stored_settings(&path, &settings).unwrap();
+
+        let saved: Value = serde_json::from_str(&fs::read_to_string(&path).unwrap()).unwrap();
+        fs::remove_dir_all(path.parent().unwrap()).unwrap();
+        assert_eq!(saved["schemaVersion"], json!(version));
+        assert_eq!(saved["futureField"], json!({ "nested": true }));
+    }
+
+    #[test]
+    fn treats_a_missing_or_empty_file_as_no_settings() {
+        let path = temp_settings_path("empty");
+        assert!(read_stored_settings(&path).unwrap().is_none());
+        fs::write(&path, "  ").unwrap();
+        assert!(read_stored_settings(&path).unwrap().is_none());
+        fs::remove_dir_all(path.parent().unwrap()).unwrap();
+    }
 }
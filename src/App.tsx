@@ -1,5 +1,5 @@
 // src/App.tsx
-import React, { useState, useEffect, useRef, useCallback } from "react";
+import React, { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { invoke } from "@tauri-apps/api/core";
 import { motion, AnimatePresence } from "framer-motion";
 import { v4 as uuidv4 } from "uuid";
@@ -12,6 +12,8 @@ import {
     Paperclip,
     ChevronDown,
     SlidersHorizontal,
+    ArchiveRestore,
+    AlertTriangle,
 } from "lucide-react";
 import toast from "react-hot-toast";
 import clsx from "clsx";
@@ -25,77 +27,64 @@ import ChatSettingsModal from "./components/ChatSettingsModal";
 import WelcomePage from "./components/WelcomePage";
 import SetupPage from "./components/SetupPage";
 import ConfirmModal from "./components/ConfirmModal";
+import ExportMenu from "./components/ExportMenu";
+import ImportModal from "./components/ImportModal";
+import TagEditor from "./components/TagEditor";
+import AttachmentList from "./components/AttachmentList";
+import ContextCutoffMarker from "./components/ContextCutoffMarker";
 
 // Type and Config Imports (Ensure these paths are correct)
 import {
     ChatSession,
+    ChatAttachment,
     ChatMessage as Message,
     AppSettings,
     ChatSettings,
     ApiProviderConfig,
+    SidebarViewMode,
+    TokenUsage,
 } from "./types/chat";
 import {
     DEFAULT_APP_SETTINGS,
     APP_SETTINGS_KEY,
-    findModelById,
-    getProviderIdFromModel,
-    DEFAULT_CHAT_SETTINGS,
+    MODEL_CACHE_KEY,
     ONBOARDING_COMPLETE_KEY,
+    USAGE_LEDGER_KEY,
 } from "./config";
+import { ChatRequest, getChatClient, inlineSystemPrompt, listProviderModels } from "./services/ai";
+import { appendMessage, getActivePath, getSiblings, removeMessage, restoreMessages, selectBranch } from "./services/messageTree";
+import { ExportFormat, exportSessions } from "./services/chatExport";
+import { generateChatTitle } from "./services/chatTitle";
+import { attachmentAccept, isImageFile, readAttachment } from "./services/attachments";
+import { estimateConversationTokens, estimateMessageTokens, estimateTokens, estimateUsage, formatTokenCount, loadTokenizer, sumUsage } from "./services/tokens";
+import { findContextSummary, selectContext, summarizeMessages, withContextSummary } from "./services/contextWindow";
+import { WipeOptions, restoreBackup, wipeAppData } from "./services/dataControls";
+import {
+    LEGACY_SESSIONS_KEY,
+    importSessions,
+    listSessions,
+    loadSession,
+    migrateLocalStorageSessions,
+    syncSessions,
+    MessageSearchHit,
+} from "./services/sessionStore";
+import { ModelCache, capMaxTokens, findCatalogModel, getModelCapabilities, getModelPricing, getSettingsProviderId, loadModelCache, resolveProviderConfig, saveModelCache } from "./services/modelCatalog";
+import { UsageLedger, computeCost, formatCost, getBudgetStatus, loadUsageLedger, recordUsage, saveUsageLedger } from "./services/usage";
+import { useUndoStack } from "./hooks/useUndoStack";
 
 // Storage Keys
-const SESSIONS_KEY = "ai_chat_sessions_v4_dark";
-const ACTIVE_SESSION_KEY = `${SESSIONS_KEY}_active`;
-
-// --- Helper Functions ---
-
-// Simulation (Replace with actual API call)
-const simulateAIResponse = async (
-    prompt: string,
-    settings: ChatSettings,
-    apiKey: string | undefined,
-    baseUrl: string | undefined,
-    signal?: AbortSignal
-): Promise<string> => {
-    console.log("Simulating AI call:", {
-        settings,
-        apiKeyProvided: !!apiKey,
-        baseUrl,
-    });
-    if (!apiKey) {
-        const modelInfo = findModelById(settings.model);
-        const providerName = modelInfo?.provider || "provider";
-        throw new Error(`API Key/Config for ${providerName} not set.`);
-    }
-    const delay = 800 + Math.random() * 700;
-    await new Promise((resolve, reject) => {
-        const timeoutId = setTimeout(resolve, delay);
-        signal?.addEventListener("abort", () => {
-            clearTimeout(timeoutId);
-            reject(new DOMException("Aborted", "AbortError"));
-        });
-    });
-    if (signal?.aborted) throw new DOMException("Aborted", "AbortError");
-    const variation =
-        Math.random() > 0.7
-            ? `(Using ${settings.model} at temp ${settings.temperature}) `
-            : "";
-    const sysPromptInfo = settings.systemPrompt
-        ? `\nSysPrompt: "${settings.systemPrompt.substring(0, 50)}..."`
-        : "";
-    const baseUrlInfo = baseUrl ? `\nBaseURL: ${baseUrl}` : "";
-    return `${variation}Simulated response: "${prompt}".${sysPromptInfo}${baseUrlInfo}\n\n\`\`\`python\n# Example\nprint("Simulated")\n\`\`\``;
-};
-// Safe date parsing
-const parseDate = (dateStr: string | Date | undefined): Date => {
-    if (!dateStr) return new Date();
-    try {
-        const date = new Date(dateStr);
-        return isNaN(date.getTime()) ? new Date() : date;
-    } catch {
-        return new Date();
-    }
-};
+const ACTIVE_SESSION_KEY = `${LEGACY_SESSIONS_KEY}_active`; // Sessions themselves are stored by the backend
+const SESSION_SAVE_DELAY_MS = 500;
+
+// A session listed without messages, completed with the ones loaded from disk.
+// Metadata changed in the meantime (e.g. a rename) is kept.
+const withLoadedMessages = (session: ChatSession, loaded: ChatSession): ChatSession => ({
+    ...session,
+    messages: loaded.messages,
+    activeLeafId: loaded.activeLeafId,
+    schemaVersion: loaded.schemaVersion,
+    messagesLoaded: true,
+});
 
 // Onboarding State Type
 type OnboardingStep = "loading" | "welcome" | "setup" | "done";
@@ -104,6 +93,10 @@ type OnboardingStep = "loading" | "welcome" | "setup" | "done";
 function App() {
     // --- State ---
     const [input, setInput] = useState<string>("");
+    const [pendingAttachments, setPendingAttachments] = useState<ChatAttachment[]>([]); // Attached in the composer, sent with the next message
+    const [isReadingAttachments, setIsReadingAttachments] = useState<boolean>(false);
+    const [isDraggingFiles, setIsDraggingFiles] = useState<boolean>(false);
+    const [isTokenizerReady, setIsTokenizerReady] = useState<boolean>(false); // Token counts are rougher until it has loaded
     const [sessions, setSessions] = useState<ChatSession[]>([]);
     const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState<boolean>(false); // AI response loading
@@ -111,12 +104,19 @@ function App() {
         useState<boolean>(false);
     const [isChatSettingsModalOpen, setIsChatSettingsModalOpen] =
         useState<boolean>(false);
+    const [isImportModalOpen, setIsImportModalOpen] = useState<boolean>(false);
+    const [bulkSettingsChatIds, setBulkSettingsChatIds] = useState<string[] | null>(null); // Chats the chat settings modal applies to, when several are selected
     const [initialLoadComplete, setInitialLoadComplete] =
         useState<boolean>(false); // Tracks if initial data load finished
     const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+    const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null); // Assistant message currently receiving deltas
     const [sidebarSearchTerm, setSidebarSearchTerm] = useState<string>("");
+    const [scrollTargetMessageId, setScrollTargetMessageId] = useState<string | null>(null); // Search hit to reveal once its chat is loaded
+    const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
     const [appSettings, setAppSettings] =
         useState<AppSettings>(DEFAULT_APP_SETTINGS);
+    const [modelCache, setModelCache] = useState<ModelCache>(loadModelCache); // Models discovered per provider config
+    const [usageLedger, setUsageLedger] = useState<UsageLedger>(loadUsageLedger); // Spending per day, provider config and model
     const [onboardingStep, setOnboardingStep] =
         useState<OnboardingStep>("loading");
     const [isConfirmModalOpen, setIsConfirmModalOpen] = useState<boolean>(false);
@@ -132,20 +132,72 @@ function App() {
     // --- Refs ---
     const chatContainerRef = useRef<HTMLDivElement>(null);
     const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
     const abortControllerRef = useRef<AbortController | null>(null);
+    const persistedSessionsRef = useRef<Map<string, ChatSession>>(new Map()); // Session objects last written to disk, by id
+    const sessionSyncRef = useRef<Promise<void>>(Promise.resolve());
+    const settingsSaveRef = useRef<Promise<unknown>>(Promise.resolve()); // Settings writes run one at a time, so an older one can't land last
+    const isReplacingDataRef = useRef(false); // Set while data is wiped or restored; stops writes of the old state
+    const loadingSessionIdsRef = useRef<Set<string>>(new Set());
+    const modelDiscoveryAttemptedRef = useRef<Set<string>>(new Set()); // Config ids already auto-fetched this run
+
+    // Deleted chats and messages, and overwritten edits, can be undone (also with Ctrl+Z)
+    const { pushUndo } = useUndoStack();
 
     // --- Derived State ---
     const activeSession = sessions.find((s) => s.id === activeSessionId);
+    const activePath = useMemo(() => (activeSession ? getActivePath(activeSession) : []), [activeSession]); // Branch shown and sent
     const effectiveChatSettings =
         activeSession?.settings ?? appSettings.defaultChatSettings;
     const isUsingDefaultSettings = !activeSession?.settings;
-    const effectiveModelInfo = findModelById(effectiveChatSettings.model);
+    const effectiveModelInfo = findCatalogModel(effectiveChatSettings.model, appSettings.apiProviders, modelCache);
+    const effectiveProviderConfig = resolveProviderConfig(effectiveChatSettings, appSettings.apiProviders, modelCache);
+    const effectiveCapabilities = useMemo(
+        () => getModelCapabilities(effectiveChatSettings.model, appSettings.apiProviders, modelCache, appSettings.modelCapabilityOverrides),
+        [effectiveChatSettings.model, appSettings.apiProviders, modelCache, appSettings.modelCapabilityOverrides]
+    );
+    // Part of the active branch the chat's context strategy sends, for the transcript's cutoff marker
+    const contextSelection = useMemo(
+        () => selectContext(activePath, effectiveChatSettings, effectiveCapabilities),
+        [activePath, effectiveChatSettings, effectiveCapabilities]
+    );
+    const contextSummary = findContextSummary(contextSelection.omitted).summary;
+    // Prompt size of what would be sent, for the context window warning; the draft is added on render
+    const activePathTokens = useMemo(
+        () => estimateConversationTokens(contextSelection.messages, effectiveChatSettings.systemPrompt, !!effectiveCapabilities.vision)
+            + (contextSummary ? estimateTokens(contextSummary) : 0),
+        [contextSelection, contextSummary, effectiveChatSettings.systemPrompt, effectiveCapabilities.vision, isTokenizerReady]
+    );
+    // Tokens the message being written adds, shown under the composer
+    const draftTokens = useMemo(
+        () => input.trim() || pendingAttachments.length > 0
+            ? estimateMessageTokens({ id: "draft", role: "user", content: input, timestamp: new Date(), attachments: pendingAttachments }, !!effectiveCapabilities.vision)
+            : 0,
+        [input, pendingAttachments, effectiveCapabilities.vision, isTokenizerReady]
+    );
+    const estimatedPromptTokens = activePathTokens + draftTokens;
+    const chatUsage = useMemo(() => (activeSession ? sumUsage(activeSession.messages) : null), [activeSession]);
+    const exceedsContextWindow = !!effectiveCapabilities.contextWindow && estimatedPromptTokens > effectiveCapabilities.contextWindow;
+    const bulkSettingsSource = bulkSettingsChatIds ? sessions.find((s) => s.id === bulkSettingsChatIds[0]) : undefined; // Its settings are shown as the starting point
+    const sessionIds = useMemo(() => new Set(sessions.map((s) => s.id)), [sessions]);
+    const allTags = useMemo(() => [...new Set(sessions.flatMap((s) => s.tags ?? []))].sort((a, b) => a.localeCompare(b)), [sessions]);
     const filteredSessions = sessions.filter((s) =>
         s.title.toLowerCase().includes(sidebarSearchTerm.toLowerCase())
     );
+    // Models chats actually use, offered by the sidebar's search filter
+    const searchModelOptions = useMemo(() => {
+        const ids = new Set([appSettings.defaultChatSettings.model, ...sessions.map((s) => s.settings?.model).filter((m): m is string => !!m)]);
+        return [...ids].map((id) => ({ id, name: findCatalogModel(id, appSettings.apiProviders, modelCache)?.name ?? id }));
+    }, [sessions, appSettings.defaultChatSettings.model, appSettings.apiProviders, modelCache]);
 
     // --- Effects ---
 
+    useEffect(() => {
+        loadTokenizer()
+            .then(() => setIsTokenizerReady(true))
+            .catch((error) => console.warn("Tokenizer unavailable, token counts stay rough estimates:", error));
+    }, []);
+
     // Load Global Settings, Sessions, AND Check Onboarding Status
     useEffect(() => {
         const loadInitialData = async () => {
@@ -193,65 +245,28 @@ function App() {
                 if (onboardingWasComplete) {
                     console.log("Loading sessions...");
                     try {
-                        const storedSessions = localStorage.getItem(SESSIONS_KEY);
-                        if (storedSessions) {
-                            const loadedSessions: ChatSession[] = JSON.parse(
-                                storedSessions
-                            ).map(
-                                (s: any): ChatSession => ({
-                                    id: s.id || uuidv4(),
-                                    title: s.title || "Untitled Chat",
-                                    messages: (s.messages || []).map(
-                                        (m: any): Message => ({
-                                            id: m.id || uuidv4(),
-                                            role: m.role === "user" ? "user" : "assistant",
-                                            content: m.content || "",
-                                            timestamp: parseDate(m.timestamp),
-                                            isError: m.isError || false,
-                                        })
-                                    ),
-                                    createdAt: parseDate(s.createdAt),
-                                    lastModified: parseDate(s.lastModified),
-                                    settings: s.settings
-                                        ? {
-                                            model: s.settings.model || DEFAULT_CHAT_SETTINGS.model,
-                                            temperature:
-                                                typeof s.settings.temperature === "number"
-                                                    ? s.settings.temperature
-                                                    : DEFAULT_CHAT_SETTINGS.temperature,
-                                            systemPrompt:
-                                                s.settings.systemPrompt ??
-                                                DEFAULT_CHAT_SETTINGS.systemPrompt,
-                                            maxTokens: s.settings.maxTokens,
-                                            topP: s.settings.topP,
-                                        }
-                                        : undefined,
-                                })
+                        const migrated = await migrateLocalStorageSessions();
+                        if (migrated > 0) console.log(`Migrated ${migrated} sessions from localStorage.`);
+                        const loadedSessions = await listSessions(); // Summaries only, messages load on open
+                        loadedSessions.forEach((s) => persistedSessionsRef.current.set(s.id, s));
+                        setSessions(loadedSessions);
+                        const lastActiveId = localStorage.getItem(ACTIVE_SESSION_KEY);
+                        if (
+                            lastActiveId &&
+                            loadedSessions.some((s) => s.id === lastActiveId)
+                        )
+                            setActiveSessionId(lastActiveId);
+                        else if (loadedSessions.length > 0) {
+                            const sorted = [...loadedSessions].sort(
+                                (a, b) => b.lastModified.getTime() - a.lastModified.getTime()
                             );
-                            setSessions(loadedSessions);
-                            const lastActiveId = localStorage.getItem(ACTIVE_SESSION_KEY);
-                            if (
-                                lastActiveId &&
-                                loadedSessions.some((s) => s.id === lastActiveId)
-                            )
-                                setActiveSessionId(lastActiveId);
-                            else if (loadedSessions.length > 0) {
-                                const sorted = [...loadedSessions].sort(
-                                    (a, b) => b.lastModified.getTime() - a.lastModified.getTime()
-                                );
-                                setActiveSessionId(sorted[0].id);
-                            }
-                            console.log("Sessions loaded from localStorage.");
-                        } else {
-                            console.log("No sessions found in localStorage.");
+                            setActiveSessionId(sorted[0].id);
                         }
+                        console.log(`Loaded ${loadedSessions.length} sessions from backend.`);
                     } catch (error) {
-                        console.error(
-                            "Failed to parse sessions from local storage:",
-                            error
-                        );
-                        localStorage.removeItem(SESSIONS_KEY);
-                        localStorage.removeItem(ACTIVE_SESSION_KEY);
+                        console.error("Failed to load sessions from backend:", error);
+                        toast.error(`Error loading chats: ${error}`);
+                        loadedSuccessfully = false;
                     }
                 } else {
                     console.log("Skipping session load as onboarding is not complete.");
@@ -275,13 +290,19 @@ function App() {
         loadInitialData();
     }, []); // Run only on mount
 
+    const saveSettingsToBackend = useCallback((settings: AppSettings) => {
+        const save = settingsSaveRef.current.catch(() => { }).then(() => invoke<AppSettings>("save_app_settings", { settings }));
+        settingsSaveRef.current = save;
+        return save;
+    }, []);
+
     // Save Global Settings (Only save AFTER initial load)
     useEffect(() => {
         if (!initialLoadComplete) return; // Don't save during initial load
         const saveSettings = async () => {
             console.log("Saving App Settings state via backend...");
             try {
-                await invoke("save_app_settings", { settings: appSettings });
+                await saveSettingsToBackend(appSettings);
                 console.log("App settings saved.");
             } catch (error) {
                 console.error("Failed to save app settings:", error);
@@ -290,27 +311,112 @@ function App() {
         };
         // Consider debouncing this if settings change rapidly, but for modal save it's ok
         saveSettings();
-    }, [appSettings, initialLoadComplete]);
+    }, [appSettings, initialLoadComplete, saveSettingsToBackend]);
+
+    // Saves a provider configuration along with a newly entered API key, straight away rather than with the rest of
+    // the settings form: the backend encrypts the key, and requests only ever name the configuration afterwards.
+    // Resolves to the configuration as kept in state, without the key but with its hint.
+    const saveProviderConfig = useCallback(
+        async (config: ApiProviderConfig) => {
+            const upsert = (providers: ApiProviderConfig[], provider: ApiProviderConfig) =>
+                providers.some((p) => p.id === provider.id) ? providers.map((p) => (p.id === provider.id ? provider : p)) : [...providers, provider];
+            const saved = await saveSettingsToBackend({ ...appSettings, apiProviders: upsert(appSettings.apiProviders, config) });
+            const stored = { ...config, apiKey: "", apiKeyHint: saved.apiProviders.find((p) => p.id === config.id)?.apiKeyHint };
+            setAppSettings((prev) => ({ ...prev, apiProviders: upsert(prev.apiProviders, stored) }));
+            return stored;
+        },
+        [appSettings, saveSettingsToBackend]
+    );
+
+    // Persist discovered model lists
+    useEffect(() => {
+        saveModelCache(modelCache);
+    }, [modelCache]);
 
-    // Save Sessions (Only save AFTER initial load)
+    // Persist recorded usage
     useEffect(() => {
-        if (initialLoadComplete) {
-            // Check flag
+        saveUsageLedger(usageLedger);
+    }, [usageLedger]);
+
+    // Fetch model lists from the given provider configs and merge them into the cache
+    const refreshModels = useCallback(async (providers: ApiProviderConfig[], options?: { silent?: boolean }) => {
+        const results = await Promise.all(providers.map(async (provider) => {
             try {
-                if (sessions.length > 0)
-                    localStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions));
-                else localStorage.removeItem(SESSIONS_KEY);
-                if (activeSessionId)
-                    localStorage.setItem(ACTIVE_SESSION_KEY, activeSessionId);
-                else localStorage.removeItem(ACTIVE_SESSION_KEY);
-            } catch (e) {
-                console.error("Save Session LS Error", e);
+                const models = await listProviderModels(provider);
+                return [provider.id, { models, fetchedAt: new Date().toISOString() }] as const;
+            } catch (error) {
+                console.error(`Failed to list models for ${provider.name}:`, error);
+                if (!options?.silent) toast.error(`Couldn't load models from ${provider.name}: ${error instanceof Error ? error.message : error}`);
+                return null;
             }
-        }
-    }, [sessions, activeSessionId, initialLoadComplete]); // Depend on flag
+        }));
+        const fetched = results.filter((r) => r !== null);
+        if (fetched.length === 0) return;
+        setModelCache((prev) => ({ ...prev, ...Object.fromEntries(fetched) }));
+        if (!options?.silent) toast.success(`Loaded ${fetched.reduce((n, [, entry]) => n + entry.models.length, 0)} models.`);
+    }, []);
+
+    // Discover models once for configs that have never been fetched; later updates come from the refresh buttons
+    useEffect(() => {
+        if (!initialLoadComplete || onboardingStep !== "done") return;
+        const pending = appSettings.apiProviders.filter(
+            (p) => !modelCache[p.id] && !modelDiscoveryAttemptedRef.current.has(p.id)
+        );
+        if (pending.length === 0) return;
+        pending.forEach((p) => modelDiscoveryAttemptedRef.current.add(p.id));
+        refreshModels(pending, { silent: true });
+    }, [appSettings.apiProviders, modelCache, initialLoadComplete, onboardingStep, refreshModels]);
+
+    // Save Sessions (Only save AFTER initial load). Debounced so a streaming reply is written once it settles.
+    useEffect(() => {
+        if (!initialLoadComplete) return;
+        const timer = setTimeout(() => {
+            if (isReplacingDataRef.current) return;
+            // Chained so two syncs never write the same session out of order
+            sessionSyncRef.current = sessionSyncRef.current
+                .then(() => syncSessions(sessions, persistedSessionsRef.current))
+                .catch((e) => {
+                    console.error("Save Session Error", e);
+                    toast.error(`Error saving chats: ${e}`, { id: "session-save-error" });
+                });
+        }, SESSION_SAVE_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [sessions, initialLoadComplete]);
+
+    // Remember the active session
+    useEffect(() => {
+        if (!initialLoadComplete) return;
+        if (activeSessionId) localStorage.setItem(ACTIVE_SESSION_KEY, activeSessionId);
+        else localStorage.removeItem(ACTIVE_SESSION_KEY);
+    }, [activeSessionId, initialLoadComplete]);
+
+    // Load the active session's messages the first time it is opened
+    useEffect(() => {
+        if (!activeSessionId) return;
+        const session = sessions.find((s) => s.id === activeSessionId);
+        if (!session || session.messagesLoaded !== false || loadingSessionIdsRef.current.has(session.id)) return;
+        loadingSessionIdsRef.current.add(session.id);
+        loadSession(session.id)
+            .then((loaded) => {
+                setSessions((prev) =>
+                    prev.map((s) => {
+                        if (s.id !== loaded.id || s.messagesLoaded !== false) return s;
+                        const merged = withLoadedMessages(s, loaded);
+                        persistedSessionsRef.current.set(s.id, merged); // Already on disk, no need to re-save
+                        return merged;
+                    })
+                );
+            })
+            .catch((e) => {
+                console.error("Failed to load session:", e);
+                toast.error(`Error loading chat: ${e}`);
+            })
+            .finally(() => loadingSessionIdsRef.current.delete(session.id));
+    }, [activeSessionId, sessions]);
 
     // Scroll to Bottom
     useEffect(() => {
+        if (scrollTargetMessageId) return; // A search hit is about to be revealed instead
         if (chatContainerRef.current) {
             setTimeout(() => {
                 if (chatContainerRef.current)
@@ -321,6 +427,34 @@ function App() {
             }, 100);
         }
     }, [sessions, activeSessionId, isLoading]);
+    // Reveal a search hit once its chat's messages are rendered
+    useEffect(() => {
+        if (!scrollTargetMessageId || !activeSession || activeSession.messagesLoaded === false) return;
+        if (!activeSession.messages.some((m) => m.id === scrollTargetMessageId)) {
+            setScrollTargetMessageId(null); // Message no longer exists
+            return;
+        }
+        if (!activePath.some((m) => m.id === scrollTargetMessageId)) {
+            // The hit is on another branch, show that branch first
+            const sessionId = activeSession.id;
+            setSessions((prev) => prev.map((s) => (s.id === sessionId ? selectBranch(s, scrollTargetMessageId) : s)));
+            return;
+        }
+        const timer = setTimeout(() => {
+            document.getElementById(`message-${scrollTargetMessageId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+            setHighlightedMessageId(scrollTargetMessageId);
+            setScrollTargetMessageId(null);
+        }, 150); // Let the chat's enter animation start first
+        return () => clearTimeout(timer);
+    }, [scrollTargetMessageId, activeSession, activePath]);
+
+    // Fade the search hit highlight after a moment
+    useEffect(() => {
+        if (!highlightedMessageId) return;
+        const timer = setTimeout(() => setHighlightedMessageId(null), 2000);
+        return () => clearTimeout(timer);
+    }, [highlightedMessageId]);
+
     // Focus Textarea
     useEffect(() => {
         if (
@@ -367,12 +501,24 @@ function App() {
     const addMessageToActiveSession = useCallback(
         (message: Message, sessionId: string) => {
             if (!sessionId) return;
+            setSessions((prev) =>
+                prev.map((s) =>
+                    s.id === sessionId
+                        ? { ...appendMessage(s, message), lastModified: new Date() } // Below message.parentId, or the active leaf
+                        : s
+                )
+            );
+        },
+        []
+    );
+    const updateMessageInSession = useCallback(
+        (sessionId: string, messageId: string, changes: Partial<Message>) => {
             setSessions((prev) =>
                 prev.map((s) =>
                     s.id === sessionId
                         ? {
                             ...s,
-                            messages: [...s.messages, message],
+                            messages: s.messages.map((m) => (m.id === messageId ? { ...m, ...changes } : m)),
                             lastModified: new Date(),
                         }
                         : s
@@ -402,50 +548,183 @@ function App() {
         []
     );
 
-    const performAICall = useCallback(async (prompt: string, sessionForCall: ChatSession) => {
+    // Prices a request's usage and adds it to the usage ledger; returns the usage with its cost
+    const recordRequestUsage = useCallback(
+        (provider: ApiProviderConfig, model: string, usage: TokenUsage): TokenUsage => {
+            const cost = computeCost(usage, getModelPricing(model, provider.providerId, appSettings.modelPricing));
+            const priced = { ...usage, cost };
+            setUsageLedger((prev) => recordUsage(prev, provider, model, priced));
+            return priced;
+        },
+        [appSettings.modelPricing]
+    );
+    // Settings and configuration for background requests such as titles and summaries: the utility model, or the chat's own model if none is set
+    const resolveUtilityModel = useCallback(
+        (chatSettings: ChatSettings) => {
+            const settings = appSettings.utilityModel
+                ? { ...chatSettings, model: appSettings.utilityModel, providerConfigId: undefined } // The chat's configuration may not serve it
+                : chatSettings;
+            const provider = resolveProviderConfig(settings, appSettings.apiProviders, modelCache);
+            if (!provider) throw new Error(`No API configuration for ${settings.model}`);
+            if (provider.budgetAction === "block" && getBudgetStatus(provider, usageLedger)?.exceeded) {
+                throw new Error(`${provider.name} has reached its monthly budget`);
+            }
+            const capabilities = getModelCapabilities(settings.model, appSettings.apiProviders, modelCache, appSettings.modelCapabilityOverrides);
+            return { settings, provider, capabilities };
+        },
+        [appSettings.utilityModel, appSettings.apiProviders, appSettings.modelCapabilityOverrides, modelCache, usageLedger]
+    );
+    // Asks for a title summing up `messages`
+    const requestChatTitle = useCallback(
+        async (messages: Message[], chatSettings: ChatSettings) => {
+            const { settings, provider, capabilities } = resolveUtilityModel(chatSettings);
+            const { title, usage } = await generateChatTitle(messages, settings, provider, capabilities);
+            if (usage) recordRequestUsage(provider, settings.model, usage);
+            return title;
+        },
+        [resolveUtilityModel, recordRequestUsage]
+    );
+    // Replaces the placeholder title of a new chat, unless the user renamed it in the meantime
+    const autoTitleChat = useCallback(
+        (sessionId: string, exchange: Message[], chatSettings: ChatSettings) => {
+            requestChatTitle(exchange, chatSettings)
+                .then((title) => {
+                    if (!title) return;
+                    setSessions((prev) => prev.map((s) => (s.id === sessionId && !s.titleEditedByUser ? { ...s, title } : s)));
+                })
+                .catch((error) => console.warn("Could not generate a chat title:", error)); // The placeholder stays
+        },
+        [requestChatTitle]
+    );
+    // Summary of the messages a 'summarize' chat leaves out: the stored one if it covers them all, otherwise extended with
+    // the rest and stored on the newest omitted message. If summarizing fails the older summary (if any) is used.
+    const updateContextSummary = useCallback(
+        async (sessionId: string, omitted: Message[], chatSettings: ChatSettings, signal: AbortSignal) => {
+            const { summary, uncovered } = findContextSummary(omitted);
+            if (uncovered.length === 0) return summary;
+            try {
+                const { settings, provider, capabilities } = resolveUtilityModel(chatSettings);
+                const { summary: updated, usage } = await summarizeMessages(summary, uncovered, settings, provider, capabilities, signal);
+                if (usage) recordRequestUsage(provider, settings.model, usage);
+                updateMessageInSession(sessionId, omitted[omitted.length - 1].id, { contextSummary: updated });
+                return updated;
+            } catch (error: any) {
+                if (error.name === "AbortError") throw error;
+                console.warn("Could not summarize earlier messages:", error);
+                toast.error(`Could not summarize earlier messages, they are left out: ${error.message}`);
+                return summary;
+            }
+        },
+        [resolveUtilityModel, updateMessageInSession, recordRequestUsage]
+    );
+    // Whether a request may go to `provider`. A used-up budget blocks it or, by default, only warns.
+    const checkBudget = useCallback(
+        (provider: ApiProviderConfig) => {
+            const status = getBudgetStatus(provider, usageLedger);
+            if (!status?.exceeded) return true;
+            const message = `${provider.name} has spent ${formatCost(status.spent)} of its ${formatCost(status.budget)} monthly budget.`;
+            if (provider.budgetAction === "block") {
+                toast.error(`${message} Raise the budget in Settings > Usage & Costs to keep using it this month.`, { id: `budget-${provider.id}`, duration: 6000 });
+                return false;
+            }
+            toast(message, { id: `budget-${provider.id}`, icon: "⚠️" });
+            return true;
+        },
+        [usageLedger]
+    );
+    // Streams a reply to `history` into the session; resolves to the reply, or null if there was none
+    const performAICall = useCallback(async (history: Message[], sessionForCall: ChatSession): Promise<string | null> => {
         console.log("Performing AI Call for session:", sessionForCall.id);
         // ** Use the passed session object directly **
         const settingsToUse = sessionForCall.settings ?? appSettings.defaultChatSettings;
-        const providerId = getProviderIdFromModel(settingsToUse.model);
-        const apiProviderConfig = appSettings.apiProviders.find(p => p.providerId === providerId);
-        const apiKey = apiProviderConfig?.apiKey;
-        const baseUrl = apiProviderConfig?.baseUrl;
+        // The chat's bound configuration, or the first one for the model's provider if it was never set or has been deleted
+        const apiProviderConfig = resolveProviderConfig(settingsToUse, appSettings.apiProviders, modelCache);
+
+        if (!apiProviderConfig) {
+            const providerId = getSettingsProviderId(settingsToUse, appSettings.apiProviders, modelCache);
+            toast.error(`API Config for '${providerId || 'unknown'}' not found.`); return null;
+        }
+        const client = getChatClient(apiProviderConfig.providerId);
+        if (!client) { toast.error(`Provider '${apiProviderConfig.providerId}' is not supported yet.`); return null; }
+        if (!checkBudget(apiProviderConfig)) return null;
 
-        if (!apiKey) { toast.error(`API Config for '${providerId || 'unknown'}' not found or key missing.`); return; }
+        const controller = new AbortController();
+        setIsLoading(true); abortControllerRef.current = controller; const signal = controller.signal;
+
+        // Create the assistant message up front and grow it as deltas arrive
+        const assistantMessageId = uuidv4();
+        const parentId = history[history.length - 1]?.id ?? null; // Replies to the prompt, so regenerating adds a sibling
+        addMessageToActiveSession({ id: assistantMessageId, role: "assistant", content: "", timestamp: new Date(), parentId }, sessionForCall.id);
+        setStreamingMessageId(assistantMessageId);
+
+        // Deltas are buffered and flushed on a short timer so we don't re-render (and persist) on every token
+        let received = "";
+        let flushTimer: ReturnType<typeof setTimeout> | null = null;
+        const flush = () => { flushTimer = null; updateMessageInSession(sessionForCall.id, assistantMessageId, { content: received }); };
+        const onDelta = (delta: string) => { received += delta; if (!flushTimer) flushTimer = setTimeout(flush, 50); };
+        // Counted locally when the provider doesn't report usage (or the reply was cut short), then priced and recorded
+        let request: ChatRequest | null = null;
+        const settleUsage = (reply: string, reported?: TokenUsage) => {
+            const usage = reported ?? (request ? estimateUsage(request.messages, request.settings.systemPrompt, !!request.supportsImages, reply) : undefined);
+            return usage && recordRequestUsage(apiProviderConfig, settingsToUse.model, usage);
+        };
 
-        setIsLoading(true); abortControllerRef.current = new AbortController(); const signal = abortControllerRef.current.signal;
         try {
-            // Prepare message history from the passed session object
-            // You might want to format this according to the specific API requirements
-            // const historyForAPI = sessionForCall.messages.map(m => ({ role: m.role, content: m.content }));
-
-            // Pass settings & key/url
-            const aiResponseContent = await simulateAIResponse(prompt, settingsToUse, apiKey, baseUrl, signal);
-            if (signal.aborted) return;
-            const assistantMessage: Message = { id: uuidv4(), role: "assistant", content: aiResponseContent, timestamp: new Date() };
-            // Add message using the ID from the passed session
-            addMessageToActiveSession(assistantMessage, sessionForCall.id);
+            // Send the history (ending with the prompt) as far as the chat's context strategy allows, along with the
+            // chat settings, adapted to what the model supports
+            const capabilities = getModelCapabilities(settingsToUse.model, appSettings.apiProviders, modelCache, appSettings.modelCapabilityOverrides);
+            const { messages: context, omitted } = selectContext(history, settingsToUse, capabilities);
+            let systemPrompt = settingsToUse.systemPrompt?.trim();
+            if (settingsToUse.contextStrategy === "summarize" && omitted.length > 0) {
+                const summary = await updateContextSummary(sessionForCall.id, omitted, settingsToUse, signal);
+                if (summary) systemPrompt = withContextSummary(systemPrompt, summary);
+            }
+            const inlinePrompt = capabilities.systemPrompt === false && !!systemPrompt;
+            request = {
+                messages: inlinePrompt ? inlineSystemPrompt(context, systemPrompt!) : context,
+                settings: { ...settingsToUse, maxTokens: capMaxTokens(settingsToUse.maxTokens, capabilities), systemPrompt: inlinePrompt ? undefined : systemPrompt },
+                provider: apiProviderConfig,
+                signal,
+                supportsImages: !!capabilities.vision,
+                reasoning: !!capabilities.reasoning,
+            };
+            const { content, usage } = capabilities.streaming === false ? await client.sendChat(request) : await client.streamChat(request, onDelta);
+            received = content;
+            updateMessageInSession(sessionForCall.id, assistantMessageId, { content, timestamp: new Date(), usage: settleUsage(content, usage) });
+            return content;
         } catch (error: any) {
-            if (error.name === 'AbortError') { /* Stop Msg */ addMessageToActiveSession({ id: uuidv4(), role: 'assistant', content: 'Generation stopped.', timestamp: new Date(), isError: true }, sessionForCall.id); }
-            else { /* Error Msg + Toast */ console.error("AI Error:", error); addMessageToActiveSession({ id: uuidv4(), role: "assistant", content: `Error: ${error.message}`, timestamp: new Date(), isError: true }, sessionForCall.id); toast.error(`AI Error: ${error.message}`, { duration: 5000 }); }
-        } finally { if (!signal?.aborted) setIsLoading(false); abortControllerRef.current = null; }
-        // Note: No 'sessions' dependency needed here anymore if using sessionForCall
-    }, [addMessageToActiveSession, appSettings]);
+            const isAbort = error.name === 'AbortError';
+            if (received) {
+                // Keep whatever was streamed so far
+                updateMessageInSession(sessionForCall.id, assistantMessageId, { content: received, usage: settleUsage(received) });
+                if (!isAbort) addMessageToActiveSession({ id: uuidv4(), role: "assistant", content: `Error: ${error.message}`, timestamp: new Date(), isError: true, parentId: assistantMessageId }, sessionForCall.id);
+            } else if (isAbort) {
+                updateMessageInSession(sessionForCall.id, assistantMessageId, { content: 'Generation stopped.', isError: true });
+            } else {
+                updateMessageInSession(sessionForCall.id, assistantMessageId, { content: `Error: ${error.message}`, isError: true });
+            }
+            if (!isAbort) { console.error("AI Error:", error); toast.error(`AI Error: ${error.message}`, { duration: 5000 }); }
+            return null;
+        } finally {
+            if (flushTimer) clearTimeout(flushTimer);
+            setStreamingMessageId((current) => (current === assistantMessageId ? null : current));
+            // Only reset loading if no newer call has taken over
+            if (abortControllerRef.current === controller) { setIsLoading(false); abortControllerRef.current = null; }
+        }
+    }, [addMessageToActiveSession, updateMessageInSession, updateContextSummary, recordRequestUsage, checkBudget, appSettings, modelCache]);
 
     const handleRegenerate = useCallback(async () => {
         if (!activeSessionId || isLoading) return;
         const session = sessions.find(s => s.id === activeSessionId); // Find current session from state
         if (!session) { toast.error("Cannot regenerate: Active session not found."); return; }
-        const lastUserMessage = [...session.messages].reverse().find(m => m.role === 'user');
-        if (!lastUserMessage) { toast.error("Cannot regenerate: No previous user message found."); return; }
-
-        const indicator: Message = { id: uuidv4(), role: 'assistant', content: 'Regenerating response...', timestamp: new Date(), isError: true };
-        addMessageToActiveSession(indicator, activeSessionId); // Add indicator using ID
+        const path = getActivePath(session);
+        const lastUserIndex = path.map(m => m.role).lastIndexOf('user');
+        if (lastUserIndex === -1) { toast.error("Cannot regenerate: No previous user message found."); return; }
 
-        // Pass the *current* session object to performAICall
-        await performAICall(lastUserMessage.content, session);
+        // The new reply becomes a sibling of the current one, which stays reachable via the branch arrows
+        await performAICall(path.slice(0, lastUserIndex + 1), session);
 
-    }, [activeSessionId, isLoading, sessions, addMessageToActiveSession, performAICall]);
+    }, [activeSessionId, isLoading, sessions, performAICall]);
 
     const handleStopGenerating = useCallback(() => {
         if (isLoading && abortControllerRef.current)
@@ -453,7 +732,7 @@ function App() {
     }, [isLoading]);
 
     const handleNewChat = useCallback(() => {
-        if(activeSession?.messages.length === 0) return;
+        if(activeSession?.messagesLoaded !== false && activeSession?.messages.length === 0) return;
          
         console.log("handleNewChat triggered");
         if (isLoading && abortControllerRef.current) {
@@ -479,7 +758,8 @@ function App() {
         if (typeof e !== 'string') e?.preventDefault();
         const textToSend = typeof e === 'string' ? e : input;
         const trimmedInput = String(textToSend || "").trim(); // Defensive string conversion
-        if (!trimmedInput || isLoading) return;
+        if ((!trimmedInput && pendingAttachments.length === 0) || isLoading || isReadingAttachments) return;
+        if (sessions.find(s => s.id === activeSessionId)?.messagesLoaded === false) { toast("Chat is still loading..."); return; }
 
         let sessionToUse: ChatSession | null = null;
         let currentSessionId: string | null = activeSessionId;
@@ -509,15 +789,46 @@ function App() {
         // Guard against session not being found/created correctly
         if (!sessionToUse || !currentSessionId) { toast.error("Failed to find/create chat session."); return; }
 
-        const userMessage: Message = { id: uuidv4(), role: "user", content: trimmedInput, timestamp: new Date() };
+        const userMessage: Message = {
+            id: uuidv4(), role: "user", content: trimmedInput, timestamp: new Date(),
+            ...(pendingAttachments.length > 0 ? { attachments: pendingAttachments } : {}),
+        };
         addMessageToActiveSession(userMessage, currentSessionId); // Add message state update
-        if (isFirstMessageInSession) updateSessionTitleIfNeeded(currentSessionId, trimmedInput); // Title update state update
+        if (isFirstMessageInSession) updateSessionTitleIfNeeded(currentSessionId, trimmedInput || pendingAttachments[0].name); // Placeholder until a generated title arrives
         setInput(""); // Input clear state update
+        setPendingAttachments([]);
 
         // ** Pass the correct session object to performAICall **
-        await performAICall(trimmedInput, sessionToUse);
+        const reply = await performAICall([...getActivePath(sessionToUse), userMessage], sessionToUse);
+        if (isFirstMessageInSession && reply && appSettings.autoTitleChats !== false) {
+            const exchange: Message[] = [userMessage, { id: uuidv4(), role: "assistant", content: reply, timestamp: new Date() }];
+            autoTitleChat(currentSessionId, exchange, sessionToUse.settings ?? appSettings.defaultChatSettings);
+        }
 
-    }, [input, activeSessionId, isLoading, sessions, addMessageToActiveSession, performAICall, updateSessionTitleIfNeeded, setSessions, appSettings.sendWithEnter]);
+    }, [input, pendingAttachments, isReadingAttachments, activeSessionId, isLoading, sessions, addMessageToActiveSession, performAICall, updateSessionTitleIfNeeded, autoTitleChat, setSessions, appSettings.sendWithEnter, appSettings.autoTitleChats, appSettings.defaultChatSettings]);
+
+    // Reads picked or dropped files into the composer; files that can't be attached are reported and skipped
+    const handleAttachFiles = useCallback(
+        async (files: File[]) => {
+            const modelName = effectiveModelInfo?.name ?? effectiveChatSettings.model;
+            const readable = effectiveCapabilities.vision ? files : files.filter((file) => !isImageFile(file));
+            if (readable.length < files.length) toast.error(`${modelName} doesn't accept images.`);
+            if (readable.length === 0) return;
+            setIsReadingAttachments(true);
+            try {
+                const results = await Promise.allSettled(readable.map(readAttachment));
+                const attached = results.flatMap((r) => (r.status === "fulfilled" ? [r.value] : []));
+                results.forEach((r) => {
+                    if (r.status === "rejected") toast.error(r.reason instanceof Error ? r.reason.message : String(r.reason));
+                });
+                setPendingAttachments((prev) => [...prev, ...attached]);
+            } finally {
+                setIsReadingAttachments(false);
+            }
+            textareaRef.current?.focus();
+        },
+        [effectiveChatSettings.model, effectiveModelInfo, effectiveCapabilities.vision]
+    );
 
     const handleSendPrompt = useCallback((prompt: string) => {
         if (!prompt || isLoading) return;
@@ -537,25 +848,48 @@ function App() {
         },
         [isLoading]
     );
+    const handleSelectSearchHit = useCallback(
+        (hit: MessageSearchHit) => {
+            if (hit.sessionId !== activeSessionId) handleSelectChat(hit.sessionId);
+            setScrollTargetMessageId(hit.messageId);
+        },
+        [activeSessionId, handleSelectChat]
+    );
+    // Removes chats, keeping them in memory (with their messages) so the deletion can be undone
+    const deleteChats = useCallback(
+        async (toDelete: ChatSession[]) => {
+            let deleted: ChatSession[];
+            try {
+                deleted = await Promise.all(
+                    toDelete.map(async (s) => (s.messagesLoaded === false ? withLoadedMessages(s, await loadSession(s.id)) : s))
+                );
+            } catch (error) {
+                console.error("Failed to load chats before deleting:", error);
+                toast.error(`Chats were not deleted: ${error instanceof Error ? error.message : String(error)}`);
+                return;
+            }
+            const idSet = new Set(deleted.map((s) => s.id));
+            setSessions((prev) => prev.filter((s) => !idSet.has(s.id)));
+            if (activeSessionId && idSet.has(activeSessionId)) {
+                setActiveSessionId(null);
+                if (isLoading && abortControllerRef.current) {
+                    abortControllerRef.current.abort();
+                    setIsLoading(false);
+                }
+            }
+            pushUndo(deleted.length === 1 ? `Chat "${deleted[0].title}" deleted` : `${deleted.length} chats deleted`, () =>
+                setSessions((prev) => [...deleted.filter((d) => !prev.some((s) => s.id === d.id)), ...prev])
+            );
+        },
+        [activeSessionId, isLoading, pushUndo]
+    );
     const handleDeleteChat = useCallback(
         (id: string) => {
-            const chatTitle = sessions.find((s) => s.id === id)?.title || "this chat";
+            const session = sessions.find((s) => s.id === id);
+            if (!session) return;
             openConfirmation(
-                `Are you sure you want to permanently delete "${chatTitle}"? This action cannot be undone.`,
-                () => {
-                    setSessions((prev) => {
-                        const updated = prev.filter((s) => s.id !== id);
-                        if (activeSessionId === id) {
-                            setActiveSessionId(null);
-                            if (isLoading && abortControllerRef.current) {
-                                abortControllerRef.current.abort();
-                                setIsLoading(false);
-                            }
-                        }
-                        return updated;
-                    });
-                    toast.success(`Chat "${chatTitle}" deleted.`);
-                },
+                `Are you sure you want to delete "${session.title}"? You can undo this right afterwards.`,
+                () => deleteChats([session]),
                 {
                     title: "Delete Chat?",
                     confirmText: "Delete",
@@ -563,8 +897,151 @@ function App() {
                 } // Options
             );
         },
-        [activeSessionId, isLoading]
+        [sessions, deleteChats]
+    );
+    // Deletes several chats after a single confirmation
+    const handleDeleteChats = useCallback(
+        (ids: string[]) => {
+            const idSet = new Set(ids);
+            const toDelete = sessions.filter((s) => idSet.has(s.id));
+            if (toDelete.length === 0) return;
+            openConfirmation(
+                `Are you sure you want to delete ${toDelete.length} ${toDelete.length === 1 ? "chat" : "chats"}? You can undo this right afterwards.`,
+                () => deleteChats(toDelete),
+                {
+                    title: "Delete Chats?",
+                    confirmText: "Delete",
+                    confirmVariant: "danger",
+                }
+            );
+        },
+        [sessions, deleteChats]
+    );
+    // Writes the given chats to a file the user picks
+    const handleExportSessions = useCallback(
+        async (toExport: ChatSession[], exportFormat: ExportFormat) => {
+            if (toExport.length === 0) {
+                toast.error("There are no chats to export.");
+                return;
+            }
+            try {
+                const path = await exportSessions(toExport, exportFormat, appSettings.defaultChatSettings);
+                if (path) toast.success(toExport.length === 1 ? "Chat exported" : `${toExport.length} chats exported`);
+            } catch (error) {
+                console.error("Export failed:", error);
+                toast.error(`Export failed: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        },
+        [appSettings.defaultChatSettings]
+    );
+    // Stores imported chats in one backend write, then shows them
+    const handleImportSessions = useCallback(
+        async (imported: ChatSession[]) => {
+            const newSessions = imported.filter((s) => !sessionIds.has(s.id)); // Re-imports are skipped
+            if (newSessions.length === 0) return;
+            try {
+                const stored = await importSessions(newSessions);
+                newSessions.forEach((s) => persistedSessionsRef.current.set(s.id, s)); // Already on disk
+                setSessions((prev) => [...newSessions, ...prev]);
+                toast.success(`Imported ${stored} ${stored === 1 ? "chat" : "chats"}`);
+            } catch (error) {
+                console.error("Import failed:", error);
+                toast.error(`Import failed: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        },
+        [sessionIds]
     );
+    // Wipes or restores app data in the backend, then restarts the app from what is on disk.
+    // Pending chat writes are finished first and later ones skipped, so the old state isn't written back.
+    const replaceAppData = useCallback(async (replace: () => Promise<void>) => {
+        abortControllerRef.current?.abort();
+        isReplacingDataRef.current = true;
+        try {
+            await sessionSyncRef.current;
+            await replace();
+            window.location.reload();
+        } catch (error) {
+            isReplacingDataRef.current = false;
+            console.error("Failed to replace app data:", error);
+            toast.error(`Failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }, []);
+    const handleWipeData = useCallback(
+        (options: WipeOptions) =>
+            replaceAppData(async () => {
+                await wipeAppData(options);
+                if (options.sessions) localStorage.removeItem(ACTIVE_SESSION_KEY);
+                if (options.settings) {
+                    // Start again from the setup page, as on first launch
+                    localStorage.removeItem(ONBOARDING_COMPLETE_KEY);
+                    localStorage.removeItem(MODEL_CACHE_KEY);
+                    localStorage.removeItem(USAGE_LEDGER_KEY);
+                }
+            }),
+        [replaceAppData]
+    );
+    const handleRestoreBackup = useCallback(
+        (id: string) => replaceAppData(() => restoreBackup(id)),
+        [replaceAppData]
+    );
+    // Organization changes (pin, folder, tags) keep lastModified, so the chat doesn't jump to the top
+    const updateSessionMeta = useCallback((id: string, changes: Partial<ChatSession>) => {
+        setSessions((prev) => prev.map((s) => (s.id === id ? { ...s, ...changes } : s)));
+    }, []);
+    const handleTogglePinChat = useCallback(
+        (id: string) => updateSessionMeta(id, { pinned: !sessions.find((s) => s.id === id)?.pinned }),
+        [sessions, updateSessionMeta]
+    );
+    const handleArchiveChat = useCallback(
+        (id: string, archived: boolean) => {
+            updateSessionMeta(id, { archivedAt: archived ? new Date() : undefined });
+            toast.success(archived ? "Chat archived" : "Chat restored from archive");
+        },
+        [updateSessionMeta]
+    );
+    // Archives every unpinned chat not modified in the last `days` days; returns how many
+    const handleArchiveChatsOlderThan = useCallback(
+        (days: number) => {
+            const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
+            const isStale = (s: ChatSession) => !s.archivedAt && !s.pinned && s.lastModified.getTime() < cutoff;
+            const count = sessions.filter(isStale).length;
+            if (count > 0) {
+                const archivedAt = new Date();
+                setSessions((prev) => prev.map((s) => (isStale(s) ? { ...s, archivedAt } : s)));
+            }
+            return count;
+        },
+        [sessions]
+    );
+    const handleAddTagToChats = useCallback((ids: string[], tag: string) => {
+        const idSet = new Set(ids);
+        const hasTag = (s: ChatSession) => (s.tags ?? []).some((t) => t.toLowerCase() === tag.toLowerCase());
+        setSessions((prev) => prev.map((s) => (idSet.has(s.id) && !hasTag(s) ? { ...s, tags: [...(s.tags ?? []), tag] } : s)));
+        toast.success(`Tagged ${ids.length} ${ids.length === 1 ? "chat" : "chats"} "${tag}"`);
+    }, []);
+    const handleMoveChatToFolder = useCallback(
+        (sessionId: string, folderId: string | null) => updateSessionMeta(sessionId, { folderId: folderId ?? undefined }),
+        [updateSessionMeta]
+    );
+    const handleCreateFolder = useCallback(() => {
+        const id = uuidv4();
+        setAppSettings((prev) => ({ ...prev, chatFolders: [...(prev.chatFolders ?? []), { id, name: "New Folder" }] }));
+        return id;
+    }, []);
+    const handleRenameFolder = useCallback((id: string, name: string) => {
+        setAppSettings((prev) => ({
+            ...prev,
+            chatFolders: (prev.chatFolders ?? []).map((f) => (f.id === id ? { ...f, name } : f)),
+        }));
+    }, []);
+    // Chats in the folder are kept and become unfiled
+    const handleDeleteFolder = useCallback((id: string) => {
+        setAppSettings((prev) => ({ ...prev, chatFolders: (prev.chatFolders ?? []).filter((f) => f.id !== id) }));
+        setSessions((prev) => prev.map((s) => (s.folderId === id ? { ...s, folderId: undefined } : s)));
+    }, []);
+    const handleSidebarViewModeChange = useCallback((mode: SidebarViewMode) => {
+        setAppSettings((prev) => ({ ...prev, sidebarViewMode: mode }));
+    }, []);
     const handleRenameChat = useCallback(
         (id: string, newTitle: string) => {
             const oldTitle = sessions.find((s) => s.id === id)?.title;
@@ -574,6 +1051,7 @@ function App() {
                         ? {
                             ...s,
                             title: newTitle.trim() || "Untitled Chat",
+                            titleEditedByUser: true,
                             lastModified: new Date(),
                         }
                         : s
@@ -585,22 +1063,56 @@ function App() {
         },
         [sessions]
     );
+    // Explicitly asked for, so it also replaces a title the user typed
+    const handleRegenerateTitle = useCallback(
+        async (id: string) => {
+            const session = sessions.find((s) => s.id === id);
+            if (!session) return;
+            const toastId = toast.loading("Generating title...");
+            try {
+                const full = session.messagesLoaded === false ? withLoadedMessages(session, await loadSession(id)) : session;
+                const path = getActivePath(full);
+                if (path.length === 0) throw new Error("the chat has no messages yet");
+                const title = await requestChatTitle(path, full.settings ?? appSettings.defaultChatSettings);
+                if (!title) throw new Error("the model returned an empty title");
+                updateSessionMeta(id, { title, titleEditedByUser: false });
+                toast.success("Title updated", { id: toastId });
+            } catch (error) {
+                console.error("Title generation failed:", error);
+                toast.error(`Could not generate a title: ${error instanceof Error ? error.message : String(error)}`, { id: toastId });
+            }
+        },
+        [sessions, requestChatTitle, appSettings.defaultChatSettings, updateSessionMeta]
+    );
     const handleDeleteMessage = useCallback(
         (messageId: string) => {
-            if (!activeSessionId) return;
+            const before = sessions.find((s) => s.id === activeSessionId);
+            if (!before) return;
+            const sessionId = before.id;
             setSessions((prev) =>
                 prev.map((s) =>
-                    s.id === activeSessionId
-                        ? {
-                            ...s,
-                            messages: s.messages.filter((m) => m.id !== messageId),
-                            lastModified: new Date(),
-                        }
+                    s.id === sessionId
+                        ? { ...removeMessage(s, messageId), lastModified: new Date() } // Replies below it go too
                         : s
                 )
             );
+            pushUndo("Message deleted", () =>
+                setSessions((prev) => prev.map((s) => (s.id === sessionId ? { ...restoreMessages(s, before), lastModified: new Date() } : s)))
+            );
+        },
+        [activeSessionId, sessions, pushUndo]
+    );
+    const handleSwitchBranch = useCallback(
+        (messageId: string, offset: -1 | 1) => {
+            if (!activeSession || isLoading) return;
+            const message = activeSession.messages.find((m) => m.id === messageId);
+            if (!message) return;
+            const siblings = getSiblings(activeSession.messages, message);
+            const target = siblings[siblings.findIndex((m) => m.id === messageId) + offset];
+            if (!target) return;
+            setSessions((prev) => prev.map((s) => (s.id === activeSession.id ? selectBranch(s, target.id) : s)));
         },
-        [activeSessionId]
+        [activeSession, isLoading]
     );
     const handleEditMessage = useCallback((messageId: string) => {
         setEditingMessageId(messageId);
@@ -610,29 +1122,31 @@ function App() {
     }, []);
     const handleSaveEdit = useCallback((messageId: string, newContent: string) => {
         if (!activeSessionId) return; const trimmedContent = newContent.trim();
-        if (!trimmedContent) { /* ... delete logic ... */ return; }
-        let requiresRegeneration = false; let userPromptForRegen = ""; let sessionAfterUpdate: ChatSession | null = null; // To store the updated session state
-        setSessions(prev => {
-            const newSessions = prev.map(s => {
-                if (s.id === activeSessionId) {
-                    const msgIdx = s.messages.findIndex(m => m.id === messageId); if (msgIdx === -1) return s; const originalMsg = s.messages[msgIdx];
-                    if (originalMsg.content !== trimmedContent && originalMsg.role === 'user') { if (msgIdx < s.messages.length - 1) requiresRegeneration = true; userPromptForRegen = trimmedContent; }
-                    let updatedMessages = s.messages.map(m => m.id === messageId ? { ...m, content: trimmedContent, timestamp: new Date() } : m);
-                    if (requiresRegeneration) updatedMessages.length = msgIdx + 1;
-                    const updatedSession = { ...s, messages: updatedMessages, lastModified: new Date() };
-                    sessionAfterUpdate = updatedSession; // Store the updated session
-                    return updatedSession;
-                } return s;
-            });
-            return newSessions;
-        });
-        setEditingMessageId(null); toast.success("Message updated");
-        // ** Pass the session object from *after* the state update **
-        if (requiresRegeneration && sessionAfterUpdate) {
-            console.log("Regenerating after edit...");
-            performAICall(userPromptForRegen, sessionAfterUpdate);
+        if (!trimmedContent) { toast.error("A message cannot be empty. Use Delete to remove it."); return; } // Stays in edit mode
+        const session = sessions.find(s => s.id === activeSessionId); if (!session) return;
+        const originalMsg = session.messages.find(m => m.id === messageId); if (!originalMsg) return;
+        setEditingMessageId(null);
+        if (originalMsg.content === trimmedContent) return;
+
+        const hasReplies = session.messages.some(m => m.parentId === messageId);
+        if (originalMsg.role !== 'user' || !hasReplies) {
+            // Nothing to branch from, update in place
+            const sessionId = activeSessionId;
+            updateMessageInSession(sessionId, messageId, { content: trimmedContent, timestamp: new Date() });
+            pushUndo("Message updated", () =>
+                updateMessageInSession(sessionId, messageId, { content: originalMsg.content, timestamp: originalMsg.timestamp })
+            );
+            return;
         }
-    }, [activeSessionId, handleDeleteMessage, performAICall]);
+
+        // Edited prompts become a new branch next to the original, which keeps its replies
+        const editedMessage: Message = { id: uuidv4(), role: 'user', content: trimmedContent, timestamp: new Date(), parentId: originalMsg.parentId ?? null, attachments: originalMsg.attachments };
+        const updatedSession: ChatSession = { ...appendMessage(session, editedMessage), lastModified: new Date() };
+        setSessions(prev => prev.map(s => s.id === activeSessionId ? updatedSession : s));
+        toast.success("Message updated");
+        console.log("Regenerating after edit...");
+        performAICall(getActivePath(updatedSession), updatedSession);
+    }, [activeSessionId, sessions, updateMessageInSession, performAICall, pushUndo]);
 
     const handleSaveChatSettings = useCallback(
         (chatId: string, newSettings: ChatSettings) => {
@@ -659,6 +1173,18 @@ function App() {
         );
         toast.success("Chat settings reset to defaults");
     }, []);
+    // Gives every chat in `ids` the same settings override, or removes their overrides when null
+    const handleApplyChatSettings = useCallback((ids: string[], newSettings: ChatSettings | null) => {
+        const idSet = new Set(ids);
+        setSessions((prev) =>
+            prev.map((s) => {
+                if (!idSet.has(s.id)) return s;
+                const { settings, ...rest } = s;
+                return newSettings ? { ...rest, settings: newSettings, lastModified: new Date() } : { ...rest, lastModified: new Date() };
+            })
+        );
+        if (newSettings) toast.success(`Settings applied to ${ids.length} ${ids.length === 1 ? "chat" : "chats"}`);
+    }, []);
     const handleAppSettingsChange = (newSettings: AppSettings) => {
         setAppSettings(newSettings);
     };
@@ -687,6 +1213,7 @@ function App() {
                         key="setup"
                         appSettings={appSettings}
                         onSaveSettings={handleAppSettingsChange}
+                        onSaveProvider={saveProviderConfig}
                         onComplete={handleSetupComplete}
                     />
                 )}
@@ -699,41 +1226,112 @@ function App() {
         <div className="flex h-screen bg-neutral-950 text-neutral-100">
             <Sidebar
                 sessions={filteredSessions}
+                allSessions={sessions}
                 activeSessionId={activeSessionId}
                 onNewChat={handleNewChat}
                 onSelectChat={handleSelectChat}
+                onSelectSearchHit={handleSelectSearchHit}
+                searchModelOptions={searchModelOptions}
+                defaultModel={appSettings.defaultChatSettings.model}
                 onDeleteChat={handleDeleteChat}
                 onRenameChat={handleRenameChat}
                 onOpenSettings={() => setIsSettingsModalOpen(true)}
                 searchTerm={sidebarSearchTerm}
                 onSearchTermChange={setSidebarSearchTerm}
+                onTogglePinChat={handleTogglePinChat}
+                onArchiveChat={handleArchiveChat}
+                onMoveChatToFolder={handleMoveChatToFolder}
+                folders={appSettings.chatFolders ?? []}
+                viewMode={appSettings.sidebarViewMode ?? "date"}
+                onViewModeChange={handleSidebarViewModeChange}
+                onCreateFolder={handleCreateFolder}
+                onRenameFolder={handleRenameFolder}
+                onDeleteFolder={handleDeleteFolder}
+                onRegenerateTitle={handleRegenerateTitle}
+                onDeleteChats={handleDeleteChats}
+                onExportChats={(ids, exportFormat) => handleExportSessions(sessions.filter((s) => ids.includes(s.id)), exportFormat)}
+                onAddTagToChats={handleAddTagToChats}
+                onApplyChatSettings={setBulkSettingsChatIds}
             />
-            <main className="flex flex-1 flex-col overflow-hidden relative bg-neutral-900">
+            <main
+                className="flex flex-1 flex-col overflow-hidden relative bg-neutral-900"
+                onDragOver={(e) => {
+                    if (!e.dataTransfer.types.includes("Files")) return;
+                    e.preventDefault();
+                    setIsDraggingFiles(true);
+                }}
+                onDragLeave={(e) => {
+                    if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingFiles(false);
+                }}
+                onDrop={(e) => {
+                    if (e.dataTransfer.files.length === 0) return;
+                    e.preventDefault();
+                    setIsDraggingFiles(false);
+                    handleAttachFiles(Array.from(e.dataTransfer.files));
+                }}
+            >
+                {isDraggingFiles && (
+                    <div className="absolute inset-2 z-30 flex items-center justify-center rounded-xl border-2 border-dashed border-sky-600 bg-neutral-900/85 text-sm text-neutral-200 pointer-events-none">
+                        <Paperclip size={16} className="mr-2" /> Drop files to attach
+                    </div>
+                )}
                 {/* Chat Header */}
                 {activeSession && (
                     <div className="flex-shrink-0 border-b border-neutral-800 px-4 py-2 flex items-center justify-between min-h-[49px] bg-neutral-900 group">
-                        <h2
-                            className="text-sm font-medium truncate pr-4"
-                            title={activeSession.title}
-                        >
-                            {" "}
-                            {activeSession.title}{" "}
-                        </h2>
-                        <button
-                            onClick={() => setIsChatSettingsModalOpen(true)}
-                            className="flex items-center space-x-1.5 text-xs text-neutral-400 hover:text-neutral-100 hover:bg-neutral-700/50 px-2 py-1 rounded-md transition-colors focus:outline-none focus:ring-1 focus:ring-neutral-600"
-                            title={`Configure Chat (Model: ${effectiveModelInfo?.name || "Default"
-                                })`}
-                        >
-                            {!isUsingDefaultSettings && (
-                                <SlidersHorizontal size={14} className="text-sky-400" />
+                        <div className="flex items-center min-w-0 pr-4 space-x-3">
+                            <h2
+                                className="text-sm font-medium truncate"
+                                title={activeSession.title}
+                            >
+                                {" "}
+                                {activeSession.title}{" "}
+                            </h2>
+                            {activeSession.archivedAt && (
+                                <button
+                                    onClick={() => handleArchiveChat(activeSession.id, false)}
+                                    className="flex-shrink-0 flex items-center space-x-1 px-1.5 py-0.5 rounded bg-amber-900/40 text-[11px] text-amber-300 hover:bg-amber-900/70"
+                                    title="Restore from archive"
+                                >
+                                    <ArchiveRestore size={12} />
+                                    <span>Archived</span>
+                                </button>
+                            )}
+                            <TagEditor
+                                tags={activeSession.tags ?? []}
+                                onChange={(tags) => updateSessionMeta(activeSession.id, { tags })}
+                                suggestions={allTags}
+                            />
+                        </div>
+                        <div className="flex items-center space-x-1">
+                            <ExportMenu
+                                onExport={(exportFormat) => handleExportSessions([activeSession], exportFormat)}
+                                disabled={activeSession.messagesLoaded === false}
+                            />
+                            {chatUsage && chatUsage.promptTokens + chatUsage.completionTokens > 0 && (
+                                <span
+                                    className="px-1.5 text-xs text-neutral-500 tabular-nums select-none"
+                                    title={`Tokens used by this chat: ${chatUsage.promptTokens.toLocaleString()} prompt, ${chatUsage.completionTokens.toLocaleString()} completion${chatUsage.estimated ? " (partly estimated)" : ""}${chatUsage.cost !== undefined ? `\nCost: ${formatCost(chatUsage.cost)} (replies with unknown prices not included)` : ""}`}
+                                >
+                                    {chatUsage.estimated ? "~" : ""}{formatTokenCount(chatUsage.promptTokens + chatUsage.completionTokens)} tokens
+                                    {chatUsage.cost !== undefined && ` · ${formatCost(chatUsage.cost)}`}
+                                </span>
                             )}
-                            <span>{effectiveModelInfo?.name || "Default Model"}</span>{" "}
-                            <span className="text-neutral-600">
-                                ({effectiveChatSettings.temperature.toFixed(1)})
-                            </span>{" "}
-                            <ChevronDown size={14} />
-                        </button>
+                            <button
+                                onClick={() => setIsChatSettingsModalOpen(true)}
+                                className="flex items-center space-x-1.5 text-xs text-neutral-400 hover:text-neutral-100 hover:bg-neutral-700/50 px-2 py-1 rounded-md transition-colors focus:outline-none focus:ring-1 focus:ring-neutral-600"
+                                title={`Configure Chat (Model: ${effectiveModelInfo?.name || "Default"
+                                    }${effectiveProviderConfig ? ` via ${effectiveProviderConfig.name}` : ""})`}
+                            >
+                                {!isUsingDefaultSettings && (
+                                    <SlidersHorizontal size={14} className="text-sky-400" />
+                                )}
+                                <span>{effectiveModelInfo?.name || "Default Model"}</span>{" "}
+                                <span className="text-neutral-600">
+                                    ({effectiveChatSettings.temperature.toFixed(1)})
+                                </span>{" "}
+                                <ChevronDown size={14} />
+                            </button>
+                        </div>
                     </div>
                 )}
                 {/* Messages Area */}
@@ -744,8 +1342,18 @@ function App() {
                     <div className="max-w-3xl mx-auto w-full">
                         {/* Messages OR Empty State */}
                         <AnimatePresence mode="wait">
-                            {!activeSession ||
-                                (activeSession.messages.length === 0 && !isLoading) ? (
+                            {activeSession?.messagesLoaded === false ? (
+                                <motion.div
+                                    key="session-loading"
+                                    initial={{ opacity: 0 }}
+                                    animate={{ opacity: 1 }}
+                                    exit={{ opacity: 0 }}
+                                    className="flex justify-center py-16 text-neutral-500"
+                                >
+                                    <Loader2 size={20} className="animate-spin" />
+                                </motion.div>
+                            ) : !activeSession ||
+                                (activePath.length === 0 && !isLoading) ? (
                                 <motion.div
                                     key="empty-state-main"
                                     initial={{ opacity: 0 }}
@@ -765,15 +1373,29 @@ function App() {
                                     exit={{ opacity: 0 }}
                                     transition={{ duration: 0.2 }}
                                 >
-                                    {activeSession?.messages.map((msg, index) => (
+                                    {activePath.map((msg, index) => {
+                                        const siblings = getSiblings(activeSession.messages, msg);
+                                        return (
                                         <motion.div
                                             key={msg.id}
+                                            id={`message-${msg.id}`}
+                                            className={clsx(
+                                                "rounded-lg transition-shadow duration-700",
+                                                msg.id === highlightedMessageId && "ring-2 ring-sky-500/60"
+                                            )}
                                             layout
                                             initial={{ opacity: 0, y: 10 }}
                                             animate={{ opacity: 1, y: 0 }}
                                             exit={{ opacity: 0 }}
                                             transition={{ duration: 0.25, ease: "easeOut" }}
                                         >
+                                            {contextSelection.omitted.length > 0 && msg.id === contextSelection.messages[0]?.id && (
+                                                <ContextCutoffMarker
+                                                    omittedCount={contextSelection.omitted.filter((m) => !m.isError).length}
+                                                    summary={contextSummary}
+                                                    onOpenSettings={() => setIsChatSettingsModalOpen(true)}
+                                                />
+                                            )}
                                             {" "}
                                             <ChatMessage
                                                 message={msg}
@@ -782,16 +1404,21 @@ function App() {
                                                 showRegenerate={
                                                     msg.role === "assistant" &&
                                                     !msg.isError &&
-                                                    index === activeSession.messages.length - 1 &&
+                                                    index === activePath.length - 1 &&
                                                     !isLoading
                                                 }
+                                                branchIndex={siblings.indexOf(msg)}
+                                                branchCount={siblings.length}
+                                                onSwitchBranch={handleSwitchBranch}
+                                                isStreaming={streamingMessageId === msg.id}
                                                 isEditing={editingMessageId === msg.id}
                                                 onEdit={handleEditMessage}
                                                 onSaveEdit={handleSaveEdit}
                                                 onCancelEdit={handleCancelEdit}
                                             />{" "}
                                         </motion.div>
-                                    ))}
+                                        );
+                                    })}
                                 </motion.div>
                             )}
                         </AnimatePresence>
@@ -815,7 +1442,23 @@ function App() {
                                 </button>{" "}
                             </div>
                         )}
+                        {exceedsContextWindow && (
+                            <div className="mb-2 flex items-start gap-2 rounded-md border border-amber-700/50 bg-amber-900/20 px-3 py-2 text-xs text-amber-300">
+                                <AlertTriangle size={14} className="mt-0.5 flex-shrink-0" />
+                                <span>
+                                    This chat is about {estimatedPromptTokens.toLocaleString()} tokens, more than the {effectiveCapabilities.contextWindow!.toLocaleString()}-token
+                                    context window of {effectiveModelInfo?.name ?? effectiveChatSettings.model}. The provider may reject it; trim or summarize older messages in the chat settings, or switch to a model with a larger context window.
+                                </span>
+                            </div>
+                        )}
                         {/* Input Form */}
+                        {!editingMessageId && pendingAttachments.length > 0 && (
+                            <AttachmentList
+                                attachments={pendingAttachments}
+                                onRemove={(id) => setPendingAttachments((prev) => prev.filter((a) => a.id !== id))}
+                                className="mb-2"
+                            />
+                        )}
                         {!editingMessageId && (
                             <form
                                 onSubmit={(e) => {
@@ -827,14 +1470,27 @@ function App() {
                                     `focus-within:border-neutral-600 focus-within:shadow-md focus-within:bg-neutral-700/50`
                                 )}
                             >
+                                <input
+                                    ref={fileInputRef}
+                                    type="file"
+                                    multiple
+                                    hidden
+                                    accept={attachmentAccept(!!effectiveCapabilities.vision)}
+                                    onChange={(e) => {
+                                        handleAttachFiles(Array.from(e.target.files ?? []));
+                                        e.target.value = ""; // Lets the same file be picked again
+                                    }}
+                                />
                                 <button
                                     type="button"
-                                    className="p-2 text-neutral-500 hover:text-neutral-300 transition-colors mb-1 self-end focus:outline-none focus:ring-1 focus:ring-sky-500 rounded-md"
-                                    title="Attach file (coming soon)"
-                                    onClick={() => toast("File attachment coming soon!")}
+                                    className="p-2 text-neutral-500 hover:text-neutral-300 transition-colors mb-1 self-end focus:outline-none focus:ring-1 focus:ring-sky-500 rounded-md disabled:opacity-50"
+                                    title={effectiveCapabilities.vision ? "Attach files (text, code, PDF, images)" : "Attach files (text, code, PDF)"}
+                                    aria-label="Attach files"
+                                    disabled={isReadingAttachments}
+                                    onClick={() => fileInputRef.current?.click()}
                                 >
                                     {" "}
-                                    <Paperclip size={18} />{" "}
+                                    {isReadingAttachments ? <Loader2 size={18} className="animate-spin" /> : <Paperclip size={18} />}{" "}
                                 </button>
                                 <TextareaAutosize
                                     ref={textareaRef}
@@ -848,7 +1504,7 @@ function App() {
                                             !e.shiftKey &&
                                             appSettings.sendWithEnter &&
                                             !isLoading &&
-                                            input.trim()
+                                            (input.trim() || pendingAttachments.length > 0)
                                         ) {
                                             e.preventDefault();
                                             handleSubmit();
@@ -860,10 +1516,10 @@ function App() {
                                 />
                                 <button
                                     type="submit"
-                                    disabled={isLoading || !input.trim()}
+                                    disabled={isLoading || isReadingAttachments || (!input.trim() && pendingAttachments.length === 0)}
                                     aria-label="Send message"
                                     title="Send message"
-                                    className={`absolute right-3 bottom-3 p-1.5 rounded-md transition-all duration-150 ease-in-out focus:outline-none focus:ring-2 focus:ring-offset-1 focus:ring-sky-500 focus:ring-offset-neutral-800 ${input.trim() && !isLoading
+                                    className={`absolute right-3 bottom-3 p-1.5 rounded-md transition-all duration-150 ease-in-out focus:outline-none focus:ring-2 focus:ring-offset-1 focus:ring-sky-500 focus:ring-offset-neutral-800 ${(input.trim() || pendingAttachments.length > 0) && !isLoading && !isReadingAttachments
                                         ? "bg-white text-black hover:bg-neutral-200 scale-100"
                                         : "bg-neutral-600 text-neutral-400 cursor-not-allowed scale-95"
                                         }`}
@@ -877,6 +1533,11 @@ function App() {
                         <p className="text-center text-xs text-neutral-500 mt-2 px-2 select-none">
                             {" "}
                             AI results may be inaccurate.{" "}
+                            {draftTokens > 0 && (
+                                <span className="tabular-nums" title="Estimated prompt size: this message, plus the chat history and system prompt that are sent with it">
+                                    · ~{formatTokenCount(draftTokens)} tokens (~{formatTokenCount(estimatedPromptTokens)} with context)
+                                </span>
+                            )}
                         </p>
                     </div>
                 </div>
@@ -888,6 +1549,25 @@ function App() {
                 onClose={() => setIsSettingsModalOpen(false)}
                 appSettings={appSettings}
                 onAppSettingsChange={handleAppSettingsChange}
+                onSaveProvider={saveProviderConfig}
+                modelCache={modelCache}
+                onRefreshModels={refreshModels}
+                onExportAllChats={(exportFormat) => handleExportSessions(sessions, exportFormat)}
+                onImportChats={() => {
+                    setIsSettingsModalOpen(false);
+                    setIsImportModalOpen(true);
+                }}
+                onWipeData={handleWipeData}
+                onArchiveChatsOlderThan={handleArchiveChatsOlderThan}
+                onRestoreBackup={handleRestoreBackup}
+                usageLedger={usageLedger}
+                onClearUsageHistory={() => setUsageLedger([])}
+            />
+            <ImportModal
+                isOpen={isImportModalOpen}
+                onClose={() => setIsImportModalOpen(false)}
+                existingSessionIds={sessionIds}
+                onImport={handleImportSessions}
             />
             <ChatSettingsModal
                 isOpen={isChatSettingsModalOpen}
@@ -897,6 +1577,24 @@ function App() {
                 isUsingDefaultSettings={isUsingDefaultSettings}
                 onSave={handleSaveChatSettings}
                 onResetToDefaults={handleResetChatSettings}
+                apiProviders={appSettings.apiProviders}
+                modelCache={modelCache}
+                modelCapabilityOverrides={appSettings.modelCapabilityOverrides}
+                onRefreshModels={refreshModels}
+            />
+            <ChatSettingsModal
+                isOpen={bulkSettingsChatIds !== null}
+                onClose={() => setBulkSettingsChatIds(null)}
+                chatId={bulkSettingsChatIds?.[0] ?? null}
+                currentSettings={bulkSettingsSource?.settings ?? appSettings.defaultChatSettings}
+                isUsingDefaultSettings={!bulkSettingsSource?.settings}
+                onSave={(_, newSettings) => bulkSettingsChatIds && handleApplyChatSettings(bulkSettingsChatIds, newSettings)}
+                onResetToDefaults={() => bulkSettingsChatIds && handleApplyChatSettings(bulkSettingsChatIds, null)}
+                apiProviders={appSettings.apiProviders}
+                modelCache={modelCache}
+                modelCapabilityOverrides={appSettings.modelCapabilityOverrides}
+                onRefreshModels={refreshModels}
+                title={`Chat Settings · ${bulkSettingsChatIds?.length ?? 0} chats`}
             />
             <ConfirmModal
                 isOpen={isConfirmModalOpen}
@@ -0,0 +1,36 @@
+import React from "react";
+import { FileCode, FileText, X } from "lucide-react";
+import clsx from "clsx";
+import { ChatAttachment } from "../types/chat";
+import { formatFileSize } from "../services/attachments";
+
+interface AttachmentListProps {
+  attachments: ChatAttachment[];
+  onRemove?: (id: string) => void; // Composer only; sent attachments can't be removed
+  className?: string;
+}
+
+// Attachments as chips: a thumbnail for images, an icon with name and size for files
+const AttachmentList: React.FC<AttachmentListProps> = ({ attachments, onRemove, className }) => (
+  <div className={clsx("flex flex-wrap gap-1.5", className)}>
+    {attachments.map(attachment => {
+      const Icon = attachment.kind === 'pdf' ? FileText : FileCode;
+      return (
+        <span key={attachment.id} className="flex items-center max-w-[14rem] pl-1 pr-1.5 py-1 rounded-md bg-neutral-800 border border-neutral-700 text-xs text-neutral-300" title={attachment.name}>
+          {attachment.kind === 'image' && attachment.dataUrl
+            ? <img src={attachment.dataUrl} alt={attachment.name} className="h-6 w-6 rounded object-cover flex-shrink-0" />
+            : <Icon size={14} className="mx-0.5 flex-shrink-0 text-neutral-400" />}
+          <span className="ml-1.5 truncate">{attachment.name}</span>
+          <span className="ml-1.5 flex-shrink-0 text-neutral-500">{formatFileSize(attachment.size)}</span>
+          {onRemove && (
+            <button type="button" onClick={() => onRemove(attachment.id)} className="ml-1 p-0.5 rounded text-neutral-500 hover:text-neutral-100" aria-label={`Remove ${attachment.name}`} title="Remove">
+              <X size={12} />
+            </button>
+          )}
+        </span>
+      );
+    })}
+  </div>
+);
+
+export default AttachmentList;
@@ -1,7 +1,7 @@
 // src/components/ChatMessage.tsx
 import React, { useState, useEffect, useRef } from "react";
 import { ChatMessage as Message } from "../types/chat";
-import { User, Cpu, AlertTriangle, RefreshCcw, Edit3, Copy, ThumbsUp, ThumbsDown, Trash2, Check } from "lucide-react";
+import { User, Cpu, AlertTriangle, RefreshCcw, Edit3, Copy, ThumbsUp, ThumbsDown, Trash2, Check, ChevronLeft, ChevronRight } from "lucide-react";
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm'; // Ensure GFM plugin for tables, strikethrough etc.
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
@@ -10,6 +10,9 @@ import { format } from 'date-fns';
 import TextareaAutosize from 'react-textarea-autosize';
 import toast from "react-hot-toast";
 import clsx from 'clsx';
+import AttachmentList from "./AttachmentList";
+import { formatTokenCount } from "../services/tokens";
+import { formatCost } from "../services/usage";
 
 // --- Message Actions Component (Internal Helper) ---
 interface MessageActionsProps {
@@ -72,21 +75,31 @@ const MsgActions: React.FC<MessageActionsProps> = ({
 };
 
 
+// Close a code fence that is still open mid-stream so the partial block renders as code, not prose
+const closeOpenCodeFence = (markdown: string) => {
+  const fences = markdown.split('\n').filter(line => /^\s*(```|~~~)/.test(line));
+  return fences.length % 2 === 1 ? `${markdown}\n${fences[fences.length - 1].trim().slice(0, 3)}` : markdown;
+};
+
 // --- Combined Chat Message Component (Handles Display and Edit) ---
 interface ChatMessageProps {
   message: Message;
   onDelete: (id: string) => void;
   onRegenerate: () => void;
   showRegenerate?: boolean;
+  isStreaming?: boolean; // True while deltas are still arriving for this message
   isEditing: boolean; // Prop from App.tsx to control state
   onEdit: (messageId: string) => void; // Prop to START editing
   onSaveEdit: (messageId: string, newContent: string) => void; // Prop to SAVE edit
   onCancelEdit: () => void; // Prop to CANCEL edit
+  branchIndex?: number; // Position among alternative versions of this message (edits/regenerations)
+  branchCount?: number;
+  onSwitchBranch?: (messageId: string, offset: -1 | 1) => void;
 }
 
 const ChatMessage: React.FC<ChatMessageProps> = ({
-  message, onDelete, onRegenerate, showRegenerate = false,
-  isEditing, onEdit, onSaveEdit, onCancelEdit
+  message, onDelete, onRegenerate, showRegenerate = false, isStreaming = false,
+  isEditing, onEdit, onSaveEdit, onCancelEdit, branchIndex = 0, branchCount = 1, onSwitchBranch
 }) => {
   const isUser = message.role === "user";
   const isError = message.isError ?? false;
@@ -131,6 +144,7 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
   const formattedTimestamp = format(new Date(message.timestamp), 'p'); // 'p' gives localized time like '3:15 PM'
   const isIndicator = isError && (message.content === 'Regenerating response...' || message.content === 'Generation stopped.');
   const CODE_EXPAND_THRESHOLD_LINES = 15; // Lines before "Show More" appears
+  const displayContent = isStreaming ? closeOpenCodeFence(message.content) : message.content;
 
   return (
     // Main message container div
@@ -179,9 +193,17 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
         ) : (
           // --- DISPLAY UI ---
           <>
+            {message.attachments && message.attachments.length > 0 && <AttachmentList attachments={message.attachments} className="mb-2 pt-0.5" />}
             {isIndicator ? (
               // Simple text for indicator messages
               <p className="text-sm text-neutral-400 italic pt-1">{message.content}</p>
+            ) : isStreaming && !message.content ? (
+              // Waiting for the first delta
+              <div className="flex items-center space-x-1 pt-2.5" aria-label="Generating response">
+                <span className="w-1.5 h-1.5 rounded-full bg-neutral-500 animate-bounce" />
+                <span className="w-1.5 h-1.5 rounded-full bg-neutral-500 animate-bounce [animation-delay:150ms]" />
+                <span className="w-1.5 h-1.5 rounded-full bg-neutral-500 animate-bounce [animation-delay:300ms]" />
+              </div>
             ) : (
               // Markdown rendering for normal messages
               <div className="prose prose-sm prose-invert max-w-none break-words leading-relaxed pt-0.5">
@@ -243,20 +265,41 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
                     blockquote: ({ node, ...props }) => <blockquote className="my-2 pl-3 italic border-l-2 border-neutral-700 text-neutral-400" {...props} />,
                     a: ({ node, ...props }) => <a target="_blank" rel="noopener noreferrer" className="text-sky-400 hover:underline" {...props} />,
                   }}
-                >{message.content}</ReactMarkdown>
+                >{displayContent}</ReactMarkdown>
+                {/* Streaming cursor */}
+                {isStreaming && <span className="inline-block w-1.5 h-4 ml-0.5 -mb-0.5 bg-neutral-400 animate-pulse" aria-hidden="true" />}
               </div>
             )}
             {/* Timestamp */}
-            <div className="mt-1 text-[11px] text-neutral-600 select-none">
+            <div className="mt-1 text-[11px] text-neutral-600 select-none flex items-center">
+              {branchCount > 1 && onSwitchBranch && (
+                // "< 2/3 >" switches between versions of this message
+                <span className="flex items-center mr-2 text-neutral-500">
+                  <button onClick={() => onSwitchBranch(message.id, -1)} disabled={branchIndex === 0 || isStreaming} className="p-0.5 rounded hover:text-neutral-200 hover:bg-neutral-700/50 disabled:opacity-40 disabled:pointer-events-none" title="Previous version" aria-label="Previous version">
+                    <ChevronLeft size={12} />
+                  </button>
+                  <span className="tabular-nums px-0.5">{branchIndex + 1}/{branchCount}</span>
+                  <button onClick={() => onSwitchBranch(message.id, 1)} disabled={branchIndex === branchCount - 1 || isStreaming} className="p-0.5 rounded hover:text-neutral-200 hover:bg-neutral-700/50 disabled:opacity-40 disabled:pointer-events-none" title="Next version" aria-label="Next version">
+                    <ChevronRight size={12} />
+                  </button>
+                </span>
+              )}
               {formattedTimestamp}
               {/* TODO: Add "(edited)" indicator if message has an 'editedAt' field */}
             </div>
+            {/* Token usage and cost of the request that produced this reply */}
+            {message.usage && !isStreaming && (
+              <div className="text-[11px] text-neutral-600 select-none tabular-nums" title={message.usage.estimated ? "Estimated locally, the provider didn't report usage" : "As reported by the provider"}>
+                {message.usage.estimated && '~'}{formatTokenCount(message.usage.promptTokens)} in · {message.usage.estimated && '~'}{formatTokenCount(message.usage.completionTokens)} out tokens
+                {message.usage.cost !== undefined && ` · ${formatCost(message.usage.cost)}`}
+              </div>
+            )}
           </>
         )}
       </div>
 
-      {/* Actions Area (Hover - Only show when NOT editing) */}
-      {!isEditing && (
+      {/* Actions Area (Hover - Only show when NOT editing or streaming) */}
+      {!isEditing && !isStreaming && (
         <div className="flex flex-col items-end flex-shrink-0 self-start pt-1 ml-1 sm:ml-2 space-y-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity duration-200">
           {/* Regenerate button */}
           {showRegenerate && (
@@ -1,9 +1,11 @@
 // src/components/ChatSettingsModal.tsx
 import React, { useState, useEffect, ChangeEvent, useCallback, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X as CloseIcon, SlidersHorizontal, Info, RotateCcw, Bot, Zap, ChevronDown } from 'lucide-react'; // Added Icons
-import { ChatSettings } from '../types/chat';
-import { MODEL_PROVIDERS, DEFAULT_CHAT_SETTINGS, getProviderIdFromModel } from '../config'; // Import necessary configs
+import { X as CloseIcon, SlidersHorizontal, Info, RotateCcw, Bot, Zap, ChevronDown, RefreshCw, History } from 'lucide-react'; // Added Icons
+import { ApiProviderConfig, ChatSettings, ModelCapabilities } from '../types/chat';
+import { MODEL_PROVIDERS, DEFAULT_CHAT_SETTINGS, CONTEXT_STRATEGIES, DEFAULT_CONTEXT_MESSAGE_LIMIT } from '../config'; // Import necessary configs
+import { ModelCache, describeCapabilities, findBoundProviderConfig, getModelCapabilities, getModelsForProvider, getSelectableProviders, getSettingsProviderId } from '../services/modelCatalog';
+import { getContextTokenBudget } from '../services/contextWindow';
 import clsx from 'clsx';
 import toast from 'react-hot-toast';
 
@@ -15,6 +17,11 @@ interface ChatSettingsModalProps {
    isUsingDefaultSettings: boolean; // True if currentSettings are the global defaults
    onSave: (chatId: string, newSettings: ChatSettings) => void; // Save override
    onResetToDefaults: (chatId: string) => void; // Remove override
+   apiProviders: ApiProviderConfig[];
+   modelCache: ModelCache; // Models discovered from configured endpoints
+   modelCapabilityOverrides?: Record<string, ModelCapabilities>; // AppSettings.modelCapabilityOverrides
+   onRefreshModels: (providers: ApiProviderConfig[]) => Promise<void>;
+   title?: string; // E.g. when the settings are applied to several chats
 }
 
 // --- Reusable UI Components --- (Assume these are defined/imported, same as in SettingsModal)
@@ -39,33 +46,60 @@ const SettingsField: React.FC<SettingsFieldProps> = ({ label, htmlFor, children,
 
 // --- Main Modal Component ---
 export default function ChatSettingsModal({
-   isOpen, onClose, chatId, currentSettings, isUsingDefaultSettings, onSave, onResetToDefaults
+   isOpen, onClose, chatId, currentSettings, isUsingDefaultSettings, onSave, onResetToDefaults,
+   apiProviders, modelCache, modelCapabilityOverrides, onRefreshModels, title = 'Chat Settings'
 }: ChatSettingsModalProps) {
 
    // Temp state holds the settings being edited in the modal
    const [tempSettings, setTempSettings] = useState<ChatSettings>(currentSettings);
    const [showAdvanced, setShowAdvanced] = useState(false); // State for advanced section visibility
+   const [isRefreshingModels, setIsRefreshingModels] = useState(false);
+
+   const providerIdForSettings = useCallback((settings: ChatSettings) =>
+      getSettingsProviderId(settings, apiProviders, modelCache) || Object.keys(MODEL_PROVIDERS)[0],
+      [apiProviders, modelCache]);
 
    // Local state for provider selection to filter models
-   const [selectedProviderId, setSelectedProviderId] = useState<string>(() =>
-      getProviderIdFromModel(currentSettings.model) || Object.keys(MODEL_PROVIDERS)[0]
-   );
+   const [selectedProviderId, setSelectedProviderId] = useState<string>(() => providerIdForSettings(currentSettings));
 
    // Reset temp state when modal opens or the underlying currentSettings change
    useEffect(() => {
       if (isOpen) {
          setTempSettings(currentSettings);
          // Also reset selected provider based on the current model being loaded
-         setSelectedProviderId(getProviderIdFromModel(currentSettings.model) || Object.keys(MODEL_PROVIDERS)[0]);
+         setSelectedProviderId(providerIdForSettings(currentSettings));
          // Reset advanced section visibility if desired
          // setShowAdvanced(false);
       }
-   }, [currentSettings, isOpen]);
+   }, [currentSettings, isOpen]); // Not re-run when the model cache refreshes, that would undo the provider selection
+
+   const selectableProviders = useMemo(() => getSelectableProviders(apiProviders), [apiProviders]);
 
-   // Memoize available models based on the locally selected provider
+   // Configurations of the selected provider type, and the one this chat is bound to (if it still exists)
+   const configsForProvider = apiProviders.filter(p => p.providerId === selectedProviderId);
+   const boundConfig = findBoundProviderConfig(tempSettings, apiProviders);
+   const isBoundConfigMissing = !!tempSettings.providerConfigId && !boundConfig;
+
+   // Memoize available models based on the locally selected provider (static catalog + discovered)
    const availableModels = useMemo(() => {
-      return MODEL_PROVIDERS[selectedProviderId as keyof typeof MODEL_PROVIDERS]?.models || [];
-   }, [selectedProviderId]);
+      return getModelsForProvider(selectedProviderId, apiProviders, modelCache, boundConfig?.id);
+   }, [selectedProviderId, apiProviders, modelCache, boundConfig?.id]);
+
+   const canRefreshModels = configsForProvider.length > 0;
+
+   const capabilities = useMemo(() => getModelCapabilities(tempSettings.model, apiProviders, modelCache, modelCapabilityOverrides),
+      [tempSettings.model, apiProviders, modelCache, modelCapabilityOverrides]);
+   const maxOutputTokens = capabilities.maxOutputTokens;
+   const contextStrategy = tempSettings.contextStrategy ?? 'all';
+
+   const handleRefreshModels = async () => {
+      setIsRefreshingModels(true);
+      try {
+         await onRefreshModels(boundConfig ? [boundConfig] : configsForProvider);
+      } finally {
+         setIsRefreshingModels(false);
+      }
+   };
 
    // Update temporary settings state
    const handleSettingChange = useCallback((key: keyof ChatSettings, value: any) => {
@@ -76,13 +110,20 @@ export default function ChatSettingsModal({
    const handleProviderSelect = (e: ChangeEvent<HTMLSelectElement>) => {
       const newProviderId = e.target.value;
       setSelectedProviderId(newProviderId);
-      const firstModel = MODEL_PROVIDERS[newProviderId as keyof typeof MODEL_PROVIDERS]?.models[0];
-      if (firstModel) {
-         // Update the model in temporary settings
-         handleSettingChange('model', firstModel.id);
-      } else {
-         handleSettingChange('model', ''); // Clear model if provider has none
-      }
+      const firstModel = getModelsForProvider(newProviderId, apiProviders, modelCache)[0];
+      // Update the model in temporary settings (cleared if provider has none) and drop the old provider's configuration
+      setTempSettings(prev => ({ ...prev, model: firstModel?.id ?? '', providerConfigId: undefined }));
+   };
+
+   // Handler when configuration dropdown changes ('' = automatic)
+   const handleConfigSelect = (e: ChangeEvent<HTMLSelectElement>) => {
+      const newConfigId = e.target.value || undefined;
+      const models = getModelsForProvider(selectedProviderId, apiProviders, modelCache, newConfigId);
+      setTempSettings(prev => ({
+         ...prev,
+         providerConfigId: newConfigId,
+         model: models.some(m => m.id === prev.model) ? prev.model : models[0]?.id ?? '', // Keep the model if this endpoint serves it
+      }));
    };
 
    // Save the temporary settings to the specific chat
@@ -110,7 +151,7 @@ export default function ChatSettingsModal({
       if (chatId) {
          onResetToDefaults(chatId);
          setTempSettings(DEFAULT_CHAT_SETTINGS); // Update temp state visually
-         setSelectedProviderId(getProviderIdFromModel(DEFAULT_CHAT_SETTINGS.model) || Object.keys(MODEL_PROVIDERS)[0]); // Reset provider selection
+         setSelectedProviderId(providerIdForSettings(DEFAULT_CHAT_SETTINGS)); // Reset provider selection
          // Don't close, allow user to see defaults are now active
          toast.success("Chat reset to use global defaults.");
       }
@@ -135,7 +176,7 @@ export default function ChatSettingsModal({
                   {/* Header */}
                   <div className="flex items-center justify-between p-4 border-b border-neutral-700 flex-shrink-0 bg-neutral-800/50">
                      <h2 className="text-base font-semibold text-neutral-100 flex items-center space-x-2"> {/* Changed size */}
-                        <SlidersHorizontal size={18} /> <span>Chat Settings</span>
+                        <SlidersHorizontal size={18} /> <span>{title}</span>
                      </h2>
                      <button onClick={onClose} className="p-1.5 text-neutral-500 hover:bg-neutral-700 hover:text-neutral-100 rounded-full" aria-label="Close"> <CloseIcon size={20} /> </button>
                   </div>
@@ -160,14 +201,29 @@ export default function ChatSettingsModal({
                      <SettingsSectionCard icon={Bot} title="Model Selection">
                         <SettingsField label="Provider" htmlFor="chat-provider">
                            <select id="chat-provider" value={selectedProviderId} onChange={handleProviderSelect} className="form-select block w-full rounded-md border-0 py-1.5 bg-neutral-700 text-neutral-100 ...">
-                              {Object.entries(MODEL_PROVIDERS).map(([key, provider]) => (<option key={key} value={key}>{provider.name}</option>))}
+                              {selectableProviders.map(provider => (<option key={provider.id} value={provider.id}>{provider.name}</option>))}
                            </select>
                         </SettingsField>
-                        <SettingsField label="Model" htmlFor="chat-model">
-                           <select id="chat-model" value={tempSettings.model} onChange={(e) => handleSettingChange('model', e.target.value)} className="form-select block w-full rounded-md ..." disabled={availableModels.length === 0} >
-                              {availableModels.length === 0 && <option>No models for provider</option>}
-                              {availableModels.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
-                           </select>
+                        {(configsForProvider.length > 0 || isBoundConfigMissing) && (
+                           <SettingsField label="API Configuration" htmlFor="chat-provider-config"
+                              description={isBoundConfigMissing ? "The configuration this chat used has been deleted. Requests fall back to the first matching configuration." : "The key and endpoint this chat's requests are sent with."}>
+                              <select id="chat-provider-config" value={boundConfig?.id ?? ''} onChange={handleConfigSelect} className="form-select block w-full rounded-md border-0 py-1.5 bg-neutral-700 text-neutral-100 ...">
+                                 <option value="">Automatic (first matching configuration)</option>
+                                 {configsForProvider.map(config => (<option key={config.id} value={config.id}>{config.name}</option>))}
+                              </select>
+                           </SettingsField>
+                        )}
+                        <SettingsField label="Model" htmlFor="chat-model" description={canRefreshModels ? describeCapabilities(capabilities) : "Add an API configuration for this provider to list the models it serves."}>
+                           <div className="flex items-center space-x-2">
+                              <select id="chat-model" value={tempSettings.model} onChange={(e) => handleSettingChange('model', e.target.value)} className="form-select block w-full rounded-md ..." disabled={availableModels.length === 0} >
+                                 {availableModels.length === 0 && <option>No models for provider</option>}
+                                 {availableModels.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                              </select>
+                              <button type="button" onClick={handleRefreshModels} disabled={!canRefreshModels || isRefreshingModels} title="Refresh models from provider"
+                                 className="p-2 rounded-md text-neutral-400 hover:text-neutral-100 hover:bg-neutral-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed flex-shrink-0">
+                                 <RefreshCw size={15} className={clsx(isRefreshingModels && "animate-spin")} />
+                              </button>
+                           </div>
                         </SettingsField>
                      </SettingsSectionCard>
 
@@ -179,12 +235,33 @@ export default function ChatSettingsModal({
                            <p className="mt-1.5 text-xs text-neutral-500">Lower = focused, Higher = creative.</p>
                         </SettingsField>
                         {/* System Prompt */}
-                        <SettingsField label="System Prompt" htmlFor="chat-system-prompt">
+                        <SettingsField label="System Prompt" htmlFor="chat-system-prompt"
+                           description={capabilities.systemPrompt === false ? "This model has no system role, so the prompt is sent at the start of the first message." : undefined}>
                            <textarea id="chat-system-prompt" rows={5} value={tempSettings.systemPrompt || ''} onChange={(e) => handleSettingChange('systemPrompt', e.target.value)}
                               placeholder="Overrides default system prompt..." className="form-textarea block w-full ..." />
                         </SettingsField>
                      </SettingsSectionCard>
 
+                     {/* Context Card */}
+                     <SettingsSectionCard icon={History} title="Conversation Context">
+                        <SettingsField label="Context Strategy" htmlFor="chat-context-strategy" description={CONTEXT_STRATEGIES.find(c => c.id === contextStrategy)?.description}>
+                           <select id="chat-context-strategy" value={contextStrategy} onChange={(e) => handleSettingChange('contextStrategy', e.target.value)} className="form-select block w-full rounded-md border-0 py-1.5 bg-neutral-700 text-neutral-100 ...">
+                              {CONTEXT_STRATEGIES.map(c => (<option key={c.id} value={c.id}>{c.name}</option>))}
+                           </select>
+                        </SettingsField>
+                        {contextStrategy === 'lastMessages' && (
+                           <SettingsField label="Messages to Send" htmlFor="chat-context-messages" description="Counting both your messages and replies, including the one being sent.">
+                              <input id="chat-context-messages" type="number" min="1" step="1" value={tempSettings.contextMessageLimit || ''} onChange={(e) => handleSettingChange('contextMessageLimit', e.target.value ? Math.max(1, parseInt(e.target.value)) : undefined)} placeholder={String(DEFAULT_CONTEXT_MESSAGE_LIMIT)} className="form-input block w-full max-w-xs ..." />
+                           </SettingsField>
+                        )}
+                        {(contextStrategy === 'tokenBudget' || contextStrategy === 'summarize') && (
+                           <SettingsField label="Token Budget" htmlFor="chat-context-budget" description={`Estimated prompt tokens per request, system prompt included.${contextStrategy === 'summarize' ? ' Summaries are written by the utility model.' : ''}`}>
+                              <input id="chat-context-budget" type="number" min="1" step="1" value={tempSettings.contextTokenBudget || ''} onChange={(e) => handleSettingChange('contextTokenBudget', e.target.value ? Math.max(1, parseInt(e.target.value)) : undefined)}
+                                 placeholder={`${getContextTokenBudget({ ...tempSettings, contextTokenBudget: undefined }, capabilities).toLocaleString()} (fits the model)`} className="form-input block w-full max-w-xs ..." />
+                           </SettingsField>
+                        )}
+                     </SettingsSectionCard>
+
                      {/* Advanced Parameters Card (Collapsible) */}
                      <SettingsSectionCard icon={SlidersHorizontal} title="Advanced Parameters">
                         <button onClick={() => setShowAdvanced(!showAdvanced)} className="flex items-center justify-between w-full text-sm font-medium text-neutral-300 hover:text-neutral-100 mb-2">
@@ -194,8 +271,11 @@ export default function ChatSettingsModal({
                         <AnimatePresence>
                            {showAdvanced && (
                               <motion.div initial="collapsed" animate="open" exit="collapsed" variants={{ open: { opacity: 1, height: 'auto' }, collapsed: { opacity: 0, height: 0 } }} transition={{ duration: 0.3, ease: [0.04, 0.62, 0.23, 0.98] }} className="overflow-hidden space-y-6 pt-4 border-t border-neutral-700/60" >
-                                 <SettingsField label={`Max Tokens`} htmlFor="chat-max-tokens" description="Max tokens per response. Default depends on model.">
-                                    <input id="chat-max-tokens" type="number" min="1" step="1" value={tempSettings.maxTokens || ''} onChange={(e) => handleSettingChange('maxTokens', e.target.value ? parseInt(e.target.value) : undefined)} placeholder="Model Default" className="form-input block w-full max-w-xs ..." />
+                                 <SettingsField label={`Max Tokens`} htmlFor="chat-max-tokens" description={maxOutputTokens ? `Max tokens per response, up to ${maxOutputTokens.toLocaleString()} for this model.` : "Max tokens per response. Default depends on model."}>
+                                    <input id="chat-max-tokens" type="number" min="1" max={maxOutputTokens} step="1" value={tempSettings.maxTokens || ''} onChange={(e) => handleSettingChange('maxTokens', e.target.value ? Math.min(parseInt(e.target.value), maxOutputTokens ?? Infinity) : undefined)} placeholder="Model Default" className="form-input block w-full max-w-xs ..." />
+                                    {!!maxOutputTokens && (tempSettings.maxTokens ?? 0) > maxOutputTokens && (
+                                       <p className="mt-1.5 text-xs text-amber-400">More than this model can produce; requests are capped at {maxOutputTokens.toLocaleString()}.</p>
+                                    )}
                                  </SettingsField>
                                  <SettingsField label={`Top P (${tempSettings.topP?.toFixed(2) ?? 'Default'})`} htmlFor="chat-top-p" description="Nucleus sampling (0.0-1.0).">
                                     <input id="chat-top-p" type="range" min="0" max="1" step="0.05" value={tempSettings.topP ?? 1.0} onChange={(e) => handleSettingChange('topP', parseFloat(e.target.value))} className="form-range w-full h-2 ..." />
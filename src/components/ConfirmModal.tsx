@@ -11,6 +11,8 @@ interface ConfirmModalProps {
    confirmText?: string;
    cancelText?: string;
    confirmVariant?: "primary" | "danger";
+   confirmDisabled?: boolean;
+   children?: React.ReactNode; // Extra controls (e.g. options) shown below the message
 };
 
 const ConfirmModal: React.FC<ConfirmModalProps> = ({
@@ -22,6 +24,8 @@ const ConfirmModal: React.FC<ConfirmModalProps> = ({
    confirmText = "Confirm",
    cancelText = "Cancel",
    confirmVariant = "primary",
+   confirmDisabled = false,
+   children,
 }) => {
 
    const handleConfirmClick = () => {
@@ -73,16 +77,18 @@ const ConfirmModal: React.FC<ConfirmModalProps> = ({
                            </p>
                         </div>
                      </div>
+                     {children && <div className="mt-4 text-left">{children}</div>}
                   </div>
 
                   <div className="flex flex-col sm:flex-row-reverse gap-2 px-4 py-3 sm:px-6 bg-neutral-800/80 border-t border-neutral-700/60">
                      <button
                         type="button"
                         className={clsx(
-                           "inline-flex w-full justify-center rounded-md px-4 py-2 text-sm font-semibold text-white shadow-sm transition-colors sm:w-auto focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-neutral-800",
+                           "inline-flex w-full justify-center rounded-md px-4 py-2 text-sm font-semibold text-white shadow-sm transition-colors sm:w-auto focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-neutral-800 disabled:opacity-50 disabled:pointer-events-none",
                            confirmButtonStyles[confirmVariant]
                         )}
                         onClick={handleConfirmClick}
+                        disabled={confirmDisabled}
                      >
                         {confirmText}
                      </button>
@@ -0,0 +1,39 @@
+import React, { useState } from "react";
+import { ChevronDown, Scissors } from "lucide-react";
+import clsx from "clsx";
+
+interface ContextCutoffMarkerProps {
+  omittedCount: number; // Messages above the marker that are not sent
+  summary?: string; // Rolling summary sent in their place, if the chat summarizes
+  onOpenSettings: () => void; // The context strategy is changed in the chat settings
+}
+
+// Divider shown in the transcript above the oldest message still sent to the model
+const ContextCutoffMarker: React.FC<ContextCutoffMarkerProps> = ({ omittedCount, summary, onOpenSettings }) => {
+  const [showSummary, setShowSummary] = useState(false);
+  const label = `${omittedCount} earlier message${omittedCount === 1 ? '' : 's'} ${summary ? 'sent as a summary' : 'not sent to the model'}`;
+
+  return (
+    <div className="my-4 text-xs text-neutral-500">
+      <div className="flex items-center gap-3">
+        <div className="flex-1 border-t border-dashed border-neutral-700" />
+        <Scissors size={12} className="flex-shrink-0" />
+        <button type="button" onClick={onOpenSettings} className="hover:text-neutral-300 transition-colors" title="Change the context strategy in chat settings">
+          {label}
+        </button>
+        {summary && (
+          <button type="button" onClick={() => setShowSummary(!showSummary)} className="flex items-center hover:text-neutral-300 transition-colors" aria-expanded={showSummary}>
+            {showSummary ? 'Hide' : 'Show'} summary
+            <ChevronDown size={12} className={clsx("ml-0.5 transition-transform", showSummary && "rotate-180")} />
+          </button>
+        )}
+        <div className="flex-1 border-t border-dashed border-neutral-700" />
+      </div>
+      {summary && showSummary && (
+        <p className="mt-2 mx-auto max-w-2xl whitespace-pre-wrap rounded-md border border-neutral-700/70 bg-neutral-800/50 px-3 py-2 text-neutral-400">{summary}</p>
+      )}
+    </div>
+  );
+};
+
+export default ContextCutoffMarker;
@@ -0,0 +1,68 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import { EXPORT_FORMATS, ExportFormat } from "../services/chatExport";
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => Promise<void>;
+  disabled?: boolean;
+  title?: string;
+}
+
+// Button that exports chats in a chosen format (the open chat in the header, the selection in the sidebar)
+const ExportMenu: React.FC<ExportMenuProps> = ({ onExport, disabled = false, title = 'Export chat' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleSelect = async (format: ExportFormat) => {
+    setIsOpen(false);
+    setIsExporting(true);
+    try {
+      await onExport(format);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={disabled || isExporting}
+        className="p-1.5 text-neutral-400 hover:text-neutral-100 hover:bg-neutral-700/50 rounded-md transition-colors focus:outline-none focus:ring-1 focus:ring-neutral-600 disabled:opacity-50 disabled:pointer-events-none"
+        title={title}
+        aria-label={title}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        {isExporting ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />}
+      </button>
+      {isOpen && (
+        <div role="menu" className="absolute right-0 mt-1 w-36 py-1 bg-neutral-800 border border-neutral-700 rounded-md shadow-lg z-20">
+          {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+            <button
+              key={format}
+              role="menuitem"
+              onClick={() => handleSelect(format)}
+              className="w-full text-left px-3 py-1.5 text-xs text-neutral-300 hover:bg-neutral-700 hover:text-neutral-100"
+            >
+              {EXPORT_FORMATS[format].label} (.{EXPORT_FORMATS[format].extension})
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
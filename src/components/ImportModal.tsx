@@ -0,0 +1,155 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import { FileUp, Loader2, X as CloseIcon } from "lucide-react";
+import { format } from "date-fns";
+import toast from "react-hot-toast";
+import clsx from "clsx";
+import { ChatSession } from "../types/chat";
+import { IMPORT_SOURCE_LABELS, ParsedImport, pickImportFile } from "../services/chatImport";
+
+interface ImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  existingSessionIds: Set<string>; // Chats already in the store are shown but can't be imported again
+  onImport: (sessions: ChatSession[]) => Promise<void>;
+}
+
+// Pick an export file, review the conversations found in it, then import the selected ones
+const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose, existingSessionIds, onImport }) => {
+  const [parsed, setParsed] = useState<ParsedImport | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isReading, setIsReading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Start over each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setParsed(null);
+      setSelectedIds(new Set());
+    }
+  }, [isOpen]);
+
+  const importable = useMemo(
+    () => parsed?.sessions.filter(s => !existingSessionIds.has(s.id)) ?? [],
+    [parsed, existingSessionIds]
+  );
+
+  const handleChooseFile = async () => {
+    setIsReading(true);
+    try {
+      const result = await pickImportFile();
+      if (!result) return;
+      if (result.sessions.length === 0) {
+        toast.error("No conversations found in this file.");
+        return;
+      }
+      setParsed(result);
+      setSelectedIds(new Set(result.sessions.filter(s => !existingSessionIds.has(s.id)).map(s => s.id)));
+    } catch (error) {
+      console.error("Failed to read import file:", error);
+      toast.error(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const allSelected = importable.length > 0 && importable.every(s => selectedIds.has(s.id));
+  const toggleAll = () => setSelectedIds(allSelected ? new Set() : new Set(importable.map(s => s.id)));
+
+  const handleImport = async () => {
+    if (!parsed) return;
+    setIsImporting(true);
+    try {
+      await onImport(parsed.sessions.filter(s => selectedIds.has(s.id)));
+      onClose();
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div /* Backdrop */
+          initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} transition={{ duration: 0.2 }}
+          className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 p-4 backdrop-blur-sm" onClick={() => !isImporting && onClose()}>
+          <motion.div /* Panel */
+            initial={{ opacity: 0, scale: 0.95, y: 10 }} animate={{ opacity: 1, scale: 1, y: 0 }} exit={{ opacity: 0, scale: 0.95, y: 5 }} transition={{ duration: 0.15, ease: 'easeOut' }}
+            className="relative w-full max-w-2xl max-h-[80vh] bg-neutral-800 rounded-lg shadow-xl overflow-hidden flex flex-col border border-neutral-700"
+            onClick={(e) => e.stopPropagation()}>
+            {/* Header */}
+            <div className="flex items-center justify-between p-4 border-b border-neutral-700 flex-shrink-0">
+              <h3 className="text-base font-medium text-neutral-200">Import Chats</h3>
+              <button onClick={onClose} disabled={isImporting} className="p-1.5 text-neutral-500 hover:bg-neutral-700 hover:text-neutral-100 rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-sky-500" aria-label="Close" title="Close">
+                <CloseIcon size={20} />
+              </button>
+            </div>
+
+            {/* Content */}
+            <div className="flex-1 overflow-y-auto custom-scrollbar p-4">
+              {!parsed ? (
+                <div className="flex flex-col items-center text-center py-8 space-y-4">
+                  <p className="text-sm text-neutral-400 max-w-md">
+                    Choose <span className="font-mono text-xs bg-neutral-700 px-1 py-0.5 rounded">conversations.json</span> from a ChatGPT or Claude data export, or a JSON file exported from Chatalia. You can review the chats before anything is imported.
+                  </p>
+                  <button onClick={handleChooseFile} disabled={isReading} className="flex items-center space-x-2 px-3 py-1.5 text-sm rounded bg-sky-600 hover:bg-sky-700 text-white transition-colors disabled:opacity-50">
+                    {isReading ? <Loader2 size={16} className="animate-spin" /> : <FileUp size={16} />}
+                    <span>{isReading ? 'Reading...' : 'Choose File'}</span>
+                  </button>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between text-xs text-neutral-400">
+                    <span>{parsed.sessions.length} conversations from {IMPORT_SOURCE_LABELS[parsed.source]}{parsed.sessions.length > importable.length && ` · ${parsed.sessions.length - importable.length} already imported`}</span>
+                    <button onClick={toggleAll} disabled={importable.length === 0} className="text-sky-400 hover:underline disabled:opacity-50">{allSelected ? 'Select none' : 'Select all'}</button>
+                  </div>
+                  <ul className="divide-y divide-neutral-700/60 border border-neutral-700 rounded-md">
+                    {parsed.sessions.map(session => {
+                      const isExisting = existingSessionIds.has(session.id);
+                      return (
+                        <li key={session.id}>
+                          <label className={clsx("flex items-center space-x-3 px-3 py-2 text-sm", isExisting ? 'opacity-50' : 'cursor-pointer hover:bg-neutral-700/40')}>
+                            <input type="checkbox" checked={!isExisting && selectedIds.has(session.id)} disabled={isExisting} onChange={() => toggleSelected(session.id)}
+                              className="form-checkbox rounded border-neutral-600 bg-neutral-700 text-sky-600 focus:ring-sky-500" />
+                            <span className="flex-1 min-w-0 truncate text-neutral-200" title={session.title}>{session.title}</span>
+                            <span className="flex-shrink-0 text-xs text-neutral-500">
+                              {isExisting ? 'Already imported' : `${session.messages.length} messages · ${format(session.createdAt, 'PP')}`}
+                            </span>
+                          </label>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              )}
+            </div>
+
+            {/* Footer */}
+            <div className="flex justify-between items-center p-4 border-t border-neutral-700 flex-shrink-0">
+              {parsed ? (
+                <button onClick={handleChooseFile} disabled={isReading || isImporting} className="text-xs text-neutral-400 hover:text-neutral-100 disabled:opacity-50">Choose another file</button>
+              ) : <span />}
+              <div className="flex space-x-2">
+                <button onClick={onClose} disabled={isImporting} className="px-3 py-1.5 text-sm rounded bg-neutral-600 hover:bg-neutral-500 text-neutral-200 transition-colors disabled:opacity-50">Cancel</button>
+                <button onClick={handleImport} disabled={!parsed || selectedIds.size === 0 || isImporting} className="flex items-center space-x-2 px-3 py-1.5 text-sm rounded bg-sky-600 hover:bg-sky-700 text-white transition-colors disabled:opacity-50">
+                  {isImporting && <Loader2 size={14} className="animate-spin" />}
+                  <span>Import {selectedIds.size > 0 ? selectedIds.size : ''} {selectedIds.size === 1 ? 'Chat' : 'Chats'}</span>
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default ImportModal;
@@ -1,11 +1,19 @@
 import React, { useState, useEffect, useCallback, ChangeEvent, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X as CloseIcon, KeyRound, SlidersHorizontal, Info, Database, HelpCircle, Plus, Trash2, CheckCircle, AlertCircle, RotateCw, Eye, EyeOff, ChevronDown } from 'lucide-react'; // Added icons
-import { AppSettings, ChatSettings, ApiProviderConfig, ApiProviderStatus } from '../types/chat'; // Import types
-import { MODEL_PROVIDERS, DEFAULT_CHAT_SETTINGS, getProviderIdFromModel } from '../config';
+import { X as CloseIcon, KeyRound, SlidersHorizontal, Info, Database, HelpCircle, Plus, Trash2, CheckCircle, AlertCircle, RotateCw, Eye, EyeOff, ChevronDown, RefreshCw, BarChart3 } from 'lucide-react'; // Added icons
+import { AppSettings, ChatSettings, ApiProviderConfig, ApiProviderStatus, BudgetAction, ModelCapabilities, ModelPricing } from '../types/chat'; // Import types
+import { MODEL_PROVIDERS, DEFAULT_CHAT_SETTINGS, API_PROVIDER_PRESETS, CONTEXT_STRATEGIES, DEFAULT_CONTEXT_MESSAGE_LIMIT } from '../config';
+import { getContextTokenBudget } from '../services/contextWindow';
+import { ModelCache, describeCapabilities, findBoundProviderConfig, getModelCapabilities, getModelPricing, getModelsForProvider, getSelectableProviders, getSettingsProviderId, modelPricingKey } from '../services/modelCatalog';
+import { UsageLedger, UsageTotals, formatCost, groupUsage, usageSince, usageThisMonth } from '../services/usage';
+import { formatTokenCount } from '../services/tokens';
 import { v4 as uuidv4 } from 'uuid';
 import toast from 'react-hot-toast';
 import clsx from 'clsx';
+import { useConnectionTest } from '../hooks/useConnectionTest';
+import { EXPORT_FORMATS, ExportFormat } from '../services/chatExport';
+import { BackupInfo, WipeOptions, deleteBackup, listBackups } from '../services/dataControls';
+import ConfirmModal from './ConfirmModal';
 
 // Props (Updated - no more direct theme props needed)
 interface SettingsModalProps {
@@ -13,6 +21,16 @@ interface SettingsModalProps {
   onClose: () => void;
   appSettings: AppSettings;
   onAppSettingsChange: (newSettings: AppSettings) => void;
+  onSaveProvider: (config: ApiProviderConfig) => Promise<ApiProviderConfig>; // Saves a config with a new API key right away
+  modelCache: ModelCache; // Models discovered from configured endpoints
+  onRefreshModels: (providers: ApiProviderConfig[]) => Promise<void>;
+  onExportAllChats: (format: ExportFormat) => Promise<void>;
+  onImportChats: () => void; // Opens the import dialog
+  onWipeData: (options: WipeOptions) => Promise<void>;
+  onRestoreBackup: (id: string) => Promise<void>;
+  onArchiveChatsOlderThan: (days: number) => number; // Returns how many chats were archived
+  usageLedger: UsageLedger;
+  onClearUsageHistory: () => void;
 }
 
 // --- Reusable UI Components ---
@@ -65,25 +83,44 @@ const ToggleSwitch: React.FC<ToggleSwitchProps> = ({ id, checked, onChange, labe
 const DefaultsAndBehaviorTabContent: React.FC<{
   settings: AppSettings; // Pass full appSettings
   onChange: (keyPath: string, value: any) => void; // Use generic handler
-}> = ({ settings, onChange }) => {
+  modelCache: ModelCache;
+  onRefreshModels: (providers: ApiProviderConfig[]) => Promise<void>;
+}> = ({ settings, onChange, modelCache, onRefreshModels }) => {
 
   // Local state to track selected provider for filtering models
   const [selectedProviderId, setSelectedProviderId] = useState<string>(() => {
-      // Initialize with the provider of the current default model
-      return getProviderIdFromModel(settings.defaultChatSettings.model) || Object.keys(MODEL_PROVIDERS)[0]; // Fallback to first provider
+      // Initialize with the provider of the default configuration or model
+      return getSettingsProviderId(settings.defaultChatSettings, settings.apiProviders, modelCache) || Object.keys(MODEL_PROVIDERS)[0]; // Fallback to first provider
   });
+  const [isRefreshingModels, setIsRefreshingModels] = useState(false);
 
-  // Memoize available models for the selected provider
+  const selectableProviders = useMemo(() => getSelectableProviders(settings.apiProviders), [settings.apiProviders]);
+
+  const configsForProvider = settings.apiProviders.filter(p => p.providerId === selectedProviderId);
+  const boundConfig = findBoundProviderConfig(settings.defaultChatSettings, settings.apiProviders);
+  const isBoundConfigMissing = !!settings.defaultChatSettings.providerConfigId && !boundConfig;
+
+  // Memoize available models for the selected provider (static catalog + discovered)
   const availableModels = useMemo(() => {
-      return MODEL_PROVIDERS[selectedProviderId as keyof typeof MODEL_PROVIDERS]?.models || [];
-  }, [selectedProviderId]);
+      return getModelsForProvider(selectedProviderId, settings.apiProviders, modelCache, boundConfig?.id);
+  }, [selectedProviderId, settings.apiProviders, modelCache, boundConfig?.id]);
+
+  const handleRefreshModels = async () => {
+      setIsRefreshingModels(true);
+      try {
+          await onRefreshModels(boundConfig ? [boundConfig] : configsForProvider);
+      } finally {
+          setIsRefreshingModels(false);
+      }
+  };
 
   // Handler when provider dropdown changes
   const handleProviderSelect = (e: ChangeEvent<HTMLSelectElement>) => {
       const newProviderId = e.target.value;
       setSelectedProviderId(newProviderId);
       // Find the first model of the new provider
-      const firstModel = MODEL_PROVIDERS[newProviderId as keyof typeof MODEL_PROVIDERS]?.models[0];
+      const firstModel = getModelsForProvider(newProviderId, settings.apiProviders, modelCache)[0];
+      onChange('defaultChatSettings.providerConfigId', undefined); // The old provider's configuration no longer applies
       if (firstModel) {
           // Update the default model ID in the main settings state
           onChange('defaultChatSettings.model', firstModel.id);
@@ -93,6 +130,17 @@ const DefaultsAndBehaviorTabContent: React.FC<{
       }
   };
 
+  // Handler when configuration dropdown changes ('' = automatic)
+  const handleConfigSelect = (e: ChangeEvent<HTMLSelectElement>) => {
+      const newConfigId = e.target.value || undefined;
+      onChange('defaultChatSettings.providerConfigId', newConfigId);
+      const models = getModelsForProvider(selectedProviderId, settings.apiProviders, modelCache, newConfigId);
+      // Keep the model if this endpoint serves it
+      if (!models.some(m => m.id === settings.defaultChatSettings.model)) {
+          onChange('defaultChatSettings.model', models[0]?.id ?? '');
+      }
+  };
+
   // Generic handler for changing default chat settings
   const handleChatSettingChange = (key: keyof ChatSettings, value: string | number | undefined) => {
       onChange(`defaultChatSettings.${key}`, value);
@@ -100,6 +148,19 @@ const DefaultsAndBehaviorTabContent: React.FC<{
 
   const handleSendWithEnterChange = (checked: boolean) => onChange('sendWithEnter', checked);
 
+  // Models of provider types that have an API configuration, for the utility model picker
+  const configuredModelGroups = useMemo(() => selectableProviders
+      .filter(provider => settings.apiProviders.some(p => p.providerId === provider.id))
+      .map(provider => ({ provider, models: getModelsForProvider(provider.id, settings.apiProviders, modelCache) }))
+      .filter(group => group.models.length > 0),
+      [selectableProviders, settings.apiProviders, modelCache]);
+
+  const defaultCapabilities = useMemo(
+      () => getModelCapabilities(settings.defaultChatSettings.model, settings.apiProviders, modelCache, settings.modelCapabilityOverrides),
+      [settings.defaultChatSettings.model, settings.apiProviders, modelCache, settings.modelCapabilityOverrides]);
+  const maxOutputTokens = defaultCapabilities.maxOutputTokens;
+  const contextStrategy = settings.defaultChatSettings.contextStrategy ?? 'all';
+
   // State for toggling advanced section
   const [showAdvanced, setShowAdvanced] = useState(false);
 
@@ -109,20 +170,37 @@ const DefaultsAndBehaviorTabContent: React.FC<{
           <SettingsSection title="Default Model Selection" description="Choose the default AI provider and model for new chats." noBorder>
               <SettingsField label="Default Provider" htmlFor="default-provider">
                    <select id="default-provider" value={selectedProviderId} onChange={handleProviderSelect} className="form-select block w-full rounded-md border-0 py-1.5 bg-neutral-700 text-neutral-100 shadow-sm ring-1 ring-inset ring-neutral-600 focus:ring-2 focus:ring-inset focus:ring-sky-500 sm:text-sm sm:leading-6">
-                       {Object.entries(MODEL_PROVIDERS).map(([key, provider]) => (
-                          <option key={key} value={key}>{provider.name}</option>
+                       {selectableProviders.map(provider => (
+                          <option key={provider.id} value={provider.id}>{provider.name}</option>
                        ))}
-                       {/* Add option for 'any configured' later? */}
                    </select>
               </SettingsField>
-              <SettingsField label="Default Model" htmlFor="default-model">
-                   <select id="default-model" value={settings.defaultChatSettings.model} onChange={(e) => handleChatSettingChange('model', e.target.value)}
-                      className="form-select block w-full rounded-md border-0 py-1.5 bg-neutral-700 text-neutral-100 shadow-sm ring-1 ring-inset ring-neutral-600 focus:ring-2 focus:ring-inset focus:ring-sky-500 sm:text-sm sm:leading-6"
-                      disabled={availableModels.length === 0} // Disable if no models for provider
-                   >
-                      {availableModels.length === 0 && <option>No models found for provider</option>}
-                      {availableModels.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
-                   </select>
+              {(configsForProvider.length > 0 || isBoundConfigMissing) && (
+                  <SettingsField label="Default API Configuration" htmlFor="default-provider-config"
+                      description={isBoundConfigMissing ? "The selected configuration has been deleted. Requests fall back to the first matching configuration." : "The key and endpoint new chats send requests with."}>
+                       <select id="default-provider-config" value={boundConfig?.id ?? ''} onChange={handleConfigSelect} className="form-select block w-full rounded-md border-0 py-1.5 bg-neutral-700 text-neutral-100 shadow-sm ring-1 ring-inset ring-neutral-600 focus:ring-2 focus:ring-inset focus:ring-sky-500 sm:text-sm sm:leading-6">
+                           <option value="">Automatic (first matching configuration)</option>
+                           {configsForProvider.map(config => (
+                              <option key={config.id} value={config.id}>{config.name}</option>
+                           ))}
+                       </select>
+                  </SettingsField>
+              )}
+              <SettingsField label="Default Model" htmlFor="default-model"
+                  description={configsForProvider.length > 0 ? `Includes the models reported by your configured endpoints. ${describeCapabilities(defaultCapabilities)}` : "Add an API configuration for this provider to list the models it serves."}>
+                   <div className="flex items-center space-x-2">
+                       <select id="default-model" value={settings.defaultChatSettings.model} onChange={(e) => handleChatSettingChange('model', e.target.value)}
+                          className="form-select block w-full rounded-md border-0 py-1.5 bg-neutral-700 text-neutral-100 shadow-sm ring-1 ring-inset ring-neutral-600 focus:ring-2 focus:ring-inset focus:ring-sky-500 sm:text-sm sm:leading-6"
+                          disabled={availableModels.length === 0} // Disable if no models for provider
+                       >
+                          {availableModels.length === 0 && <option>No models found for provider</option>}
+                          {availableModels.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                       </select>
+                       <button type="button" onClick={handleRefreshModels} disabled={configsForProvider.length === 0 || isRefreshingModels} title="Refresh models from provider"
+                          className="p-2 rounded-md text-neutral-400 hover:text-neutral-100 hover:bg-neutral-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed flex-shrink-0">
+                          <RefreshCw size={16} className={clsx(isRefreshingModels && "animate-spin")} />
+                       </button>
+                   </div>
               </SettingsField>
           </SettingsSection>
 
@@ -137,6 +215,29 @@ const DefaultsAndBehaviorTabContent: React.FC<{
                </SettingsField>
           </SettingsSection>
 
+          {/* Conversation Context */}
+          <SettingsSection title="Conversation Context" description="How much of a long chat is sent with each message. Chats can override this.">
+               <SettingsField label="Default Context Strategy" htmlFor="default-context-strategy" description={CONTEXT_STRATEGIES.find(c => c.id === contextStrategy)?.description}>
+                   <select id="default-context-strategy" value={contextStrategy} onChange={(e) => handleChatSettingChange('contextStrategy', e.target.value)}
+                      className="form-select block w-full rounded-md border-0 py-1.5 bg-neutral-700 text-neutral-100 shadow-sm ring-1 ring-inset ring-neutral-600 focus:ring-2 focus:ring-inset focus:ring-sky-500 sm:text-sm sm:leading-6">
+                      {CONTEXT_STRATEGIES.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                   </select>
+               </SettingsField>
+               {contextStrategy === 'lastMessages' && (
+                   <SettingsField label="Messages to Send" htmlFor="default-context-messages" description="Counting both your messages and replies, including the one being sent.">
+                       <input id="default-context-messages" type="number" min="1" step="1" value={settings.defaultChatSettings.contextMessageLimit || ''} onChange={(e) => handleChatSettingChange('contextMessageLimit', e.target.value ? Math.max(1, parseInt(e.target.value)) : undefined)} placeholder={String(DEFAULT_CONTEXT_MESSAGE_LIMIT)}
+                          className="form-input block w-full max-w-xs rounded-md border-0 py-1.5 bg-neutral-700 text-neutral-100 shadow-sm ring-1 ring-inset ring-neutral-600 focus:ring-2 focus:ring-inset focus:ring-sky-500 sm:text-sm sm:leading-6" />
+                   </SettingsField>
+               )}
+               {(contextStrategy === 'tokenBudget' || contextStrategy === 'summarize') && (
+                   <SettingsField label="Token Budget" htmlFor="default-context-budget" description={`Estimated prompt tokens per request, system prompt included.${contextStrategy === 'summarize' ? ' Summaries are written by the utility model.' : ''}`}>
+                       <input id="default-context-budget" type="number" min="1" step="1" value={settings.defaultChatSettings.contextTokenBudget || ''} onChange={(e) => handleChatSettingChange('contextTokenBudget', e.target.value ? Math.max(1, parseInt(e.target.value)) : undefined)}
+                          placeholder={`${getContextTokenBudget({ ...settings.defaultChatSettings, contextTokenBudget: undefined }, defaultCapabilities).toLocaleString()} (fits the model)`}
+                          className="form-input block w-full max-w-xs rounded-md border-0 py-1.5 bg-neutral-700 text-neutral-100 shadow-sm ring-1 ring-inset ring-neutral-600 placeholder:text-neutral-500 focus:ring-2 focus:ring-inset focus:ring-sky-500 sm:text-sm sm:leading-6" />
+                   </SettingsField>
+               )}
+          </SettingsSection>
+
            {/* Advanced Parameters (Collapsible) */}
           <SettingsSection title="Advanced Parameters" description="Fine-tune model behavior (optional).">
                <button onClick={() => setShowAdvanced(!showAdvanced)} className="flex items-center justify-between w-full text-sm font-medium text-neutral-300 hover:text-neutral-100 mb-4">
@@ -152,8 +253,9 @@ const DefaultsAndBehaviorTabContent: React.FC<{
                           transition={{ duration: 0.2 }}
                           className="overflow-hidden space-y-6"
                       >
-                           <SettingsField label={`Max Tokens (Optional)`} htmlFor="default-max-tokens" description="Maximum number of tokens to generate. Leave blank to use model's default.">
-                              <input id="default-max-tokens" type="number" min="1" step="1" value={settings.defaultChatSettings.maxTokens || ''} onChange={(e) => handleChatSettingChange('maxTokens', e.target.value ? parseInt(e.target.value) : undefined)} placeholder="e.g., 2048"
+                           <SettingsField label={`Max Tokens (Optional)`} htmlFor="default-max-tokens"
+                              description={`Maximum number of tokens to generate${maxOutputTokens ? `, up to ${maxOutputTokens.toLocaleString()} for the default model` : ''}. Leave blank to use model's default.`}>
+                              <input id="default-max-tokens" type="number" min="1" max={maxOutputTokens} step="1" value={settings.defaultChatSettings.maxTokens || ''} onChange={(e) => handleChatSettingChange('maxTokens', e.target.value ? Math.min(parseInt(e.target.value), maxOutputTokens ?? Infinity) : undefined)} placeholder="e.g., 2048"
                                   className="form-input block w-full max-w-xs rounded-md border-0 py-1.5 bg-neutral-700 text-neutral-100 shadow-sm ring-1 ring-inset ring-neutral-600 focus:ring-2 focus:ring-inset focus:ring-sky-500 sm:text-sm sm:leading-6 [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none" // Hide number spinners
                               />
                           </SettingsField>
@@ -170,6 +272,28 @@ const DefaultsAndBehaviorTabContent: React.FC<{
                </AnimatePresence>
           </SettingsSection>
 
+          {/* Model Capabilities */}
+          <ModelCapabilitiesSection settings={settings} onChange={onChange} modelCache={modelCache} />
+
+          {/* Chat Titles */}
+          <SettingsSection title="Chat Titles" description="Name new chats after their first exchange.">
+               <ToggleSwitch
+                  id="auto-title-chats" checked={settings.autoTitleChats ?? true} onChange={(checked) => onChange('autoTitleChats', checked)}
+                  label="Generate titles with AI" description="Chats you have renamed keep their name. Titles can also be regenerated from the sidebar."
+               />
+               <SettingsField label="Utility Model" htmlFor="utility-model" description="Used for titles and for summaries of long chats. A small, cheap model is enough.">
+                   <select id="utility-model" value={settings.utilityModel ?? ''} onChange={(e) => onChange('utilityModel', e.target.value)}
+                      className="form-select block w-full rounded-md border-0 py-1.5 bg-neutral-700 text-neutral-100 shadow-sm ring-1 ring-inset ring-neutral-600 focus:ring-2 focus:ring-inset focus:ring-sky-500 sm:text-sm sm:leading-6">
+                      <option value="">Same as the chat</option>
+                      {configuredModelGroups.map(({ provider, models }) => (
+                         <optgroup key={provider.id} label={provider.name}>
+                            {models.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                         </optgroup>
+                      ))}
+                   </select>
+               </SettingsField>
+          </SettingsSection>
+
           {/* Chat Behavior */}
           <SettingsSection title="Chat Interface" description="Customize interaction preferences.">
                <ToggleSwitch
@@ -181,7 +305,90 @@ const DefaultsAndBehaviorTabContent: React.FC<{
   );
 };
 
-const ApiProvidersTabContent: React.FC<{ providers: ApiProviderConfig[]; onChange: (providers: ApiProviderConfig[]) => void }> = ({ providers, onChange }) => {
+const CAPABILITY_FLAGS: Array<{ key: 'vision' | 'tools' | 'streaming' | 'systemPrompt' | 'reasoning'; label: string }> = [
+  { key: 'vision', label: 'Image Input' },
+  { key: 'tools', label: 'Tool Calling' },
+  { key: 'streaming', label: 'Streaming' },
+  { key: 'systemPrompt', label: 'System Prompt' },
+  { key: 'reasoning', label: 'Reasoning' },
+];
+
+// Corrects what the catalog knows about a model, e.g. for discovered or local models it has no data on.
+// Overrides are kept per field, so clearing one falls back to the catalog again.
+const ModelCapabilitiesSection: React.FC<{
+  settings: AppSettings;
+  onChange: (keyPath: string, value: any) => void;
+  modelCache: ModelCache;
+}> = ({ settings, onChange, modelCache }) => {
+  const [modelId, setModelId] = useState(settings.defaultChatSettings.model);
+  const overrides = settings.modelCapabilityOverrides ?? {};
+  const override = overrides[modelId] ?? {};
+
+  const modelGroups = useMemo(() => getSelectableProviders(settings.apiProviders)
+      .map(provider => ({ provider, models: getModelsForProvider(provider.id, settings.apiProviders, modelCache) }))
+      .filter(group => group.models.length > 0),
+      [settings.apiProviders, modelCache]);
+  const catalog = useMemo(() => getModelCapabilities(modelId, settings.apiProviders, modelCache), [modelId, settings.apiProviders, modelCache]);
+
+  // onChange splits its key path on dots, and model ids contain dots, so the whole map is replaced
+  const setOverride = <K extends keyof ModelCapabilities>(key: K, value: ModelCapabilities[K] | undefined) => {
+      const { [key]: _, ...rest } = override;
+      const next: ModelCapabilities = value === undefined ? rest : { ...rest, [key]: value };
+      const { [modelId]: __, ...others } = overrides;
+      onChange('modelCapabilityOverrides', Object.keys(next).length > 0 ? { ...others, [modelId]: next } : others);
+  };
+  const parseLimit = (value: string) => (value ? Math.max(1, parseInt(value)) : undefined);
+
+  const inputClass = "form-input block w-full rounded-md border-0 py-1.5 bg-neutral-700 text-neutral-100 shadow-sm ring-1 ring-inset ring-neutral-600 placeholder:text-neutral-500 focus:ring-2 focus:ring-inset focus:ring-sky-500 sm:text-sm sm:leading-6 [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none";
+  const selectClass = "form-select block w-full rounded-md border-0 py-1.5 bg-neutral-700 text-neutral-100 shadow-sm ring-1 ring-inset ring-neutral-600 focus:ring-2 focus:ring-inset focus:ring-sky-500 sm:text-sm sm:leading-6";
+
+  return (
+      <SettingsSection title="Model Capabilities" description="Limits and features the app assumes for each model. Correct them for models the catalog doesn't know.">
+          <SettingsField label="Model" htmlFor="capabilities-model" description={`Catalog: ${describeCapabilities(catalog)}`}>
+              <select id="capabilities-model" value={modelId} onChange={(e) => setModelId(e.target.value)} className={selectClass}>
+                  {modelGroups.map(({ provider, models }) => (
+                     <optgroup key={provider.id} label={provider.name}>
+                        {models.map(m => <option key={m.id} value={m.id}>{overrides[m.id] ? `${m.name} (overridden)` : m.name}</option>)}
+                     </optgroup>
+                  ))}
+              </select>
+          </SettingsField>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <SettingsField label="Context Window (tokens)" htmlFor="capabilities-context-window">
+                  <input id="capabilities-context-window" type="number" min="1" step="1" value={override.contextWindow ?? ''} onChange={(e) => setOverride('contextWindow', parseLimit(e.target.value))}
+                      placeholder={catalog.contextWindow ? `${catalog.contextWindow.toLocaleString()} (catalog)` : 'Unknown'} className={inputClass} />
+              </SettingsField>
+              <SettingsField label="Max Output Tokens" htmlFor="capabilities-max-output">
+                  <input id="capabilities-max-output" type="number" min="1" step="1" value={override.maxOutputTokens ?? ''} onChange={(e) => setOverride('maxOutputTokens', parseLimit(e.target.value))}
+                      placeholder={catalog.maxOutputTokens ? `${catalog.maxOutputTokens.toLocaleString()} (catalog)` : 'Unknown'} className={inputClass} />
+              </SettingsField>
+              {CAPABILITY_FLAGS.map(({ key, label }) => (
+                  <SettingsField key={key} label={label} htmlFor={`capabilities-${key}`}>
+                      <select id={`capabilities-${key}`} value={override[key] === undefined ? '' : String(override[key])}
+                          onChange={(e) => setOverride(key, e.target.value ? e.target.value === 'true' : undefined)} className={selectClass}>
+                          <option value="">Catalog ({catalog[key] ? 'Yes' : 'No'})</option>
+                          <option value="true">Yes</option>
+                          <option value="false">No</option>
+                      </select>
+                  </SettingsField>
+              ))}
+          </div>
+          {overrides[modelId] && (
+              <button type="button" onClick={() => { const { [modelId]: _, ...others } = overrides; onChange('modelCapabilityOverrides', others); }}
+                  className="flex items-center space-x-1.5 px-3 py-1.5 text-xs rounded bg-neutral-700 hover:bg-neutral-600 text-neutral-300 transition-colors">
+                  <RotateCw size={13} /> <span>Reset to Catalog</span>
+              </button>
+          )}
+      </SettingsSection>
+  );
+};
+
+const ApiProvidersTabContent: React.FC<{
+  providers: ApiProviderConfig[];
+  onChange: (providers: ApiProviderConfig[]) => void;
+  onUpdateProvider: (id: string, changes: Partial<ApiProviderConfig>) => void; // Patch one provider (used by async connection tests)
+  onSaveProvider: (config: ApiProviderConfig) => Promise<void>; // Add or replace a provider whose API key was entered
+}> = ({ providers, onChange, onUpdateProvider, onSaveProvider }) => {
 
   // State for managing edits within the list and the add form
   const [editingProviderId, setEditingProviderId] = useState<string | null>(null); // ID of provider being edited inline
@@ -192,16 +399,7 @@ const ApiProvidersTabContent: React.FC<{ providers: ApiProviderConfig[]; onChang
   const [showPassword, setShowPassword] = useState<Record<string, boolean>>({}); // Track visibility per key input
 
   // Predefined common providers for selection presets
-  const commonProviders = [
-    { id: 'openai', name: 'OpenAI', defaultBaseUrl: undefined },
-    { id: 'anthropic', name: 'Anthropic', defaultBaseUrl: undefined },
-    { id: 'groq', name: 'Groq', defaultBaseUrl: undefined },
-    { id: 'google', name: 'Google (Gemini)', defaultBaseUrl: undefined },
-    { id: 'cohere', name: 'Cohere', defaultBaseUrl: undefined },
-    { id: 'ollama', name: 'Ollama (Local)', defaultBaseUrl: 'http://localhost:11434/v1' }, // Suggest default URL
-    { id: 'lmstudio', name: 'LM Studio (Local)', defaultBaseUrl: 'http://localhost:1234/v1' }, // Suggest default URL
-    { id: 'custom', name: 'Custom', defaultBaseUrl: undefined },
-  ];
+  const commonProviders = API_PROVIDER_PRESETS;
 
   const handleDeleteProvider = (idToDelete: string) => {
     // Find the provider to get its name for the confirmation message
@@ -242,17 +440,20 @@ const ApiProvidersTabContent: React.FC<{ providers: ApiProviderConfig[]; onChang
     setProviderFormData(prev => ({ ...prev, [field]: value }));
   };
 
-  const handleSaveEdit = () => {
-    if (!editingProviderId || !providerFormData.name || !providerFormData.apiKey) {
-      toast.error("Name and API Key cannot be empty.");
+  const handleSaveEdit = async () => {
+    const current = providers.find(p => p.id === editingProviderId);
+    if (!current || !providerFormData.name) {
+      toast.error("Name cannot be empty.");
       return;
     }
-    const updatedProviders = providers.map(p =>
-      p.id === editingProviderId
-        ? { ...p, ...providerFormData, baseUrl: providerFormData.baseUrl?.trim() || undefined, status: 'unknown' as ApiProviderStatus, lastTested: undefined }
-        : p
-    );
-    onChange(updatedProviders);
+    const apiKey = providerFormData.apiKey?.trim() ?? '';
+    const updated: ApiProviderConfig = { ...current, ...providerFormData, apiKey, baseUrl: providerFormData.baseUrl?.trim() || undefined, status: 'unknown', lastTested: undefined };
+    if (apiKey) {
+      try { await onSaveProvider(updated); } catch (e) { toast.error(`Failed to save the API key: ${e}`); return; }
+    } else {
+      // A blank key field keeps the key the backend already stores
+      onChange(providers.map(p => p.id === current.id ? updated : p));
+    }
     toast.success(`${providerFormData.name || 'Provider'} updated`);
     cancelEditing(); // Exit edit mode
   };
@@ -274,7 +475,7 @@ const ApiProvidersTabContent: React.FC<{ providers: ApiProviderConfig[]; onChang
     resetAddForm();
   };
 
-  const handleSaveNew = () => {
+  const handleSaveNew = async () => {
     if (!providerFormData.name?.trim() || !providerFormData.apiKey?.trim() || !providerFormData.providerId) {
       toast.error("Provider Type, Name, and API Key are required.");
       return;
@@ -287,7 +488,7 @@ const ApiProvidersTabContent: React.FC<{ providers: ApiProviderConfig[]; onChang
       baseUrl: providerFormData.baseUrl?.trim() || undefined,
       status: 'unknown', // Start as unknown
     };
-    onChange([...providers, newConfig]);
+    try { await onSaveProvider(newConfig); } catch (e) { toast.error(`Failed to save the API key: ${e}`); return; }
     toast.success(`${newConfig.name} added`);
     handleCancelAdd(); // Hide form and reset
   };
@@ -307,39 +508,7 @@ const ApiProvidersTabContent: React.FC<{ providers: ApiProviderConfig[]; onChang
   };
 
   // --- Test Connection Logic ---
-  const testConnection = async (config: ApiProviderConfig) => {
-    const updateStatus = (id: string, status: ApiProviderStatus, testedDate?: Date) => {
-      onChange(providers.map(p => p.id === id ? { ...p, status, lastTested: testedDate ?? p.lastTested } : p));
-    };
-
-    updateStatus(config.id, 'testing'); // Set testing status immediately
-    toast.loading(`Testing ${config.name}...`, { id: `test-${config.id}` });
-
-    try {
-      // ** TODO: Implement Actual API Test Call **
-      // This needs a minimal request to the provider's endpoint using the key/URL.
-      // Example: Fetching models list, checking account status, etc.
-      // Adjust the endpoint and expected response based on the provider.
-      // Using a simple fetch for simulation:
-      // const testUrl = config.baseUrl ? `${config.baseUrl}/models` : `https://api.${config.providerId}.com/v1/models`; // Example endpoint guess
-      // const response = await fetch(testUrl, { headers: { 'Authorization': `Bearer ${config.apiKey}` } });
-      // if (!response.ok) throw new Error(`HTTP ${response.status}`);
-      // await response.json(); // Try parsing response
-
-      // Simulate result for now
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      if (config.apiKey.toLowerCase().includes('valid')) { // Dummy check
-        updateStatus(config.id, 'valid', new Date());
-        toast.success(`${config.name} connection OK!`, { id: `test-${config.id}` });
-      } else {
-        throw new Error("Invalid Key/URL (Simulated)");
-      }
-    } catch (error: any) {
-      updateStatus(config.id, 'invalid', new Date());
-      toast.error(`${config.name} failed: ${error.message}`, { id: `test-${config.id}`, duration: 5000 });
-      console.error(`Test failed for ${config.name}:`, error);
-    }
-  };
+  const testConnection = useConnectionTest(onUpdateProvider);
 
   // Toggle Password Visibility
   const toggleShowPassword = (id: string) => {
@@ -357,7 +526,7 @@ const ApiProvidersTabContent: React.FC<{ providers: ApiProviderConfig[]; onChang
   };
 
   return (
-    <SettingsSection title="API Providers" description="Configure access to AI models. Keys stored locally." noBorder>
+    <SettingsSection title="API Providers" description="Configure access to AI models. API keys are encrypted and saved on this device as soon as you add them." noBorder>
       
         {/* List Existing Providers */}
         {/* Use AnimatePresence for smooth adding/removing animations */}
@@ -386,7 +555,7 @@ const ApiProvidersTabContent: React.FC<{ providers: ApiProviderConfig[]; onChang
                                 </div>
                                 {/* Fields with standard styling */}
                                 <SettingsField label="Display Name *" htmlFor={`edit-name-${config.id}`}> <input type="text" id={`edit-name-${config.id}`} value={providerFormData.name || ''} onChange={(e) => handleFormChange('name', e.target.value)} className="form-input block w-full rounded-md border-0 py-1.5 bg-neutral-700 text-neutral-100 shadow-sm ring-1 ring-inset ring-neutral-600 focus:ring-2 focus:ring-inset focus:ring-sky-500 sm:text-sm sm:leading-6"/> </SettingsField>
-                                <SettingsField label="API Key *" htmlFor={`edit-apikey-${config.id}`}> <div className="relative"><input type={showPassword[config.id] ? 'text' : 'password'} id={`edit-apikey-${config.id}`} value={providerFormData.apiKey || ''} onChange={(e) => handleFormChange('apiKey', e.target.value)} className="form-input block w-full pr-10 ..."/><button type="button" onClick={()=>toggleShowPassword(config.id)} className="absolute inset-y-0 right-0 px-3 ...">{showPassword[config.id] ? <EyeOff size={16}/> : <Eye size={16}/>}</button></div> </SettingsField>
+                                <SettingsField label="API Key" htmlFor={`edit-apikey-${config.id}`}> <div className="relative"><input type={showPassword[config.id] ? 'text' : 'password'} id={`edit-apikey-${config.id}`} value={providerFormData.apiKey || ''} onChange={(e) => handleFormChange('apiKey', e.target.value)} placeholder="Leave blank to keep the current key" className="form-input block w-full pr-10 ..."/><button type="button" onClick={()=>toggleShowPassword(config.id)} className="absolute inset-y-0 right-0 px-3 ...">{showPassword[config.id] ? <EyeOff size={16}/> : <Eye size={16}/>}</button></div> </SettingsField>
                                 <SettingsField label="Base URL (Optional)" htmlFor={`edit-baseurl-${config.id}`}> <input type="text" id={`edit-baseurl-${config.id}`} value={providerFormData.baseUrl || ''} onChange={(e) => handleFormChange('baseUrl', e.target.value)} placeholder="Default or e.g., http://localhost:11434/v1" className="form-input block w-full ..."/> </SettingsField>
                                 <div className="flex justify-end space-x-2 pt-2">
                                     <button onClick={cancelEditing} className="px-3 py-1 text-xs rounded bg-neutral-600 hover:bg-neutral-500 text-neutral-200 transition-colors">Cancel</button>
@@ -399,8 +568,9 @@ const ApiProvidersTabContent: React.FC<{ providers: ApiProviderConfig[]; onChang
                                 <div className="space-y-1 flex-grow mr-4"> {/* Added margin right */}
                                     <h4 className="text-sm font-medium text-neutral-200 flex items-center space-x-2"> <StatusIcon status={config.status} /> <span>{config.name}</span> <span className="text-xs bg-neutral-700 px-1.5 py-0.5 rounded">{commonProviders.find(p=>p.id===config.providerId)?.name || config.providerId}</span> </h4>
                                     {config.baseUrl && <p className="text-xs text-neutral-500 font-mono break-all">URL: {config.baseUrl}</p>}
-                                    <p className="text-xs text-neutral-500 font-mono">Key: ••••••••{config.apiKey?.slice(-4)}</p>
+                                    <p className="text-xs text-neutral-500 font-mono">Key: ••••••••{config.apiKeyHint}</p>
                                     {config.lastTested && <p className="text-xs text-neutral-600">Tested: {new Date(config.lastTested).toLocaleTimeString()}</p>}
+                                    {config.status === 'invalid' && config.lastTestError && <p className="text-xs text-red-400">{config.lastTestError}</p>}
                                 </div>
                                 {/* Actions aligned vertically */}
                                 <div className="flex space-x-1 flex-shrink-0 self-start sm:self-center"> {/* Align self */}
@@ -457,19 +627,319 @@ const ApiProvidersTabContent: React.FC<{ providers: ApiProviderConfig[]; onChang
 );
 };
 
+const USAGE_PERIODS = [
+  { id: 'month', label: 'This month' },
+  { id: 'last30', label: 'Last 30 days' },
+  { id: 'all', label: 'All time' },
+] as const;
+type UsagePeriod = typeof USAGE_PERIODS[number]['id'];
+
+const UsageTable: React.FC<{ title: string; rows: UsageTotals[] }> = ({ title, rows }) => (
+  <div>
+    <h5 className="mb-1.5 text-xs font-medium uppercase tracking-wide text-neutral-500">{title}</h5>
+    <table className="w-full text-sm border border-neutral-700 rounded-md">
+      <thead>
+        <tr className="text-xs text-neutral-500 border-b border-neutral-700">
+          <th className="px-3 py-1.5 text-left font-normal" />
+          <th className="px-3 py-1.5 text-right font-normal">Requests</th>
+          <th className="px-3 py-1.5 text-right font-normal">Tokens</th>
+          <th className="px-3 py-1.5 text-right font-normal">Cost</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-neutral-700/60 tabular-nums">
+        {rows.map(row => (
+          <tr key={row.key} className="text-neutral-300">
+            <td className="px-3 py-1.5 truncate max-w-[14rem]" title={row.label}>{row.label}</td>
+            <td className="px-3 py-1.5 text-right">{row.requests.toLocaleString()}</td>
+            <td className="px-3 py-1.5 text-right">{formatTokenCount(row.tokens)}</td>
+            <td className="px-3 py-1.5 text-right" title={row.unpricedRequests > 0 ? `${row.unpricedRequests} requests to models without a price are not included` : undefined}>
+              {formatCost(row.cost)}{row.unpricedRequests > 0 && '*'}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+// Spending recorded in the usage ledger, monthly budgets per API configuration and the prices costs are computed with
+const UsageTabContent: React.FC<{
+  settings: AppSettings;
+  onChange: (keyPath: string, value: any) => void;
+  onUpdateProvider: (id: string, changes: Partial<ApiProviderConfig>) => void;
+  modelCache: ModelCache;
+  usageLedger: UsageLedger;
+  onClearUsageHistory: () => void;
+}> = ({ settings, onChange, onUpdateProvider, modelCache, usageLedger, onClearUsageHistory }) => {
+  const [period, setPeriod] = useState<UsagePeriod>('month');
+  const [isClearConfirmOpen, setIsClearConfirmOpen] = useState(false);
+  const [pricingKey, setPricingKey] = useState(() => modelPricingKey(
+    getSettingsProviderId(settings.defaultChatSettings, settings.apiProviders, modelCache) ?? '', settings.defaultChatSettings.model));
+
+  const entries = useMemo(
+    () => (period === 'month' ? usageThisMonth(usageLedger) : usageSince(usageLedger, period === 'last30' ? 30 : undefined)),
+    [usageLedger, period]
+  );
+  const configNames = useMemo(() => Object.fromEntries(settings.apiProviders.map(p => [p.id, p.name])), [settings.apiProviders]);
+  const totals = groupUsage(entries, 'providerConfig', configNames).reduce(
+    (sum, row) => ({ requests: sum.requests + row.requests, tokens: sum.tokens + row.tokens, cost: sum.cost + row.cost, unpricedRequests: sum.unpricedRequests + row.unpricedRequests }),
+    { requests: 0, tokens: 0, cost: 0, unpricedRequests: 0 }
+  );
+  const monthSpend = useMemo(
+    () => Object.fromEntries(groupUsage(usageThisMonth(usageLedger), 'providerConfig').map(row => [row.key, row.cost])),
+    [usageLedger]
+  );
+
+  // Prices are edited per model; the catalog's price is shown as the placeholder
+  const modelGroups = useMemo(() => getSelectableProviders(settings.apiProviders)
+    .map(provider => ({ provider, models: getModelsForProvider(provider.id, settings.apiProviders, modelCache) }))
+    .filter(group => group.models.length > 0),
+    [settings.apiProviders, modelCache]);
+  const pricingOverrides = settings.modelPricing ?? {};
+  const override = pricingOverrides[pricingKey];
+  const selectedModel = modelGroups
+    .flatMap(({ provider, models }) => models.map(model => ({ providerId: provider.id, modelId: model.id })))
+    .find(m => modelPricingKey(m.providerId, m.modelId) === pricingKey);
+  const catalogPricing = selectedModel ? getModelPricing(selectedModel.modelId, selectedModel.providerId) : undefined;
+  // onChange splits its key path on dots, and model ids contain dots, so the whole map is replaced
+  const setPrice = (key: keyof ModelPricing, value: string) => {
+    const { [pricingKey]: current, ...others } = pricingOverrides;
+    const price = value === '' ? undefined : Math.max(0, parseFloat(value) || 0);
+    const base = current ?? catalogPricing ?? { input: 0, output: 0 };
+    if (price === undefined && !current) return;
+    onChange('modelPricing', { ...others, [pricingKey]: { ...base, [key]: price ?? catalogPricing?.[key] ?? 0 } });
+  };
+
+  const inputClass = "form-input block w-full rounded-md border-0 py-1.5 bg-neutral-700 text-neutral-100 shadow-sm ring-1 ring-inset ring-neutral-600 placeholder:text-neutral-500 focus:ring-2 focus:ring-inset focus:ring-sky-500 sm:text-sm sm:leading-6 [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none";
+  const selectClass = "form-select block w-full rounded-md border-0 py-1.5 bg-neutral-700 text-neutral-100 shadow-sm ring-1 ring-inset ring-neutral-600 focus:ring-2 focus:ring-inset focus:ring-sky-500 sm:text-sm sm:leading-6";
+
+  return (
+    <div className="space-y-8">
+      <SettingsSection title="Usage" description="Tokens and cost of every request, including chat titles and summaries. Costs use the prices below at the time of the request; tokens are estimated where the provider doesn't report them." noBorder>
+        <div className="flex items-center justify-between gap-3">
+          <select value={period} onChange={(e) => setPeriod(e.target.value as UsagePeriod)} aria-label="Period" className={clsx(selectClass, 'w-40')}>
+            {USAGE_PERIODS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+          </select>
+          <span className="text-sm text-neutral-300 tabular-nums">
+            {totals.requests.toLocaleString()} requests · {formatTokenCount(totals.tokens)} tokens · <span className="font-medium text-neutral-100">{formatCost(totals.cost)}</span>
+          </span>
+        </div>
+        {entries.length === 0 ? (
+          <p className="text-sm text-neutral-500">No requests in this period.</p>
+        ) : (
+          <>
+            <UsageTable title="By API Configuration" rows={groupUsage(entries, 'providerConfig', configNames)} />
+            <UsageTable title="By Model" rows={groupUsage(entries, 'model')} />
+            <UsageTable title="By Day" rows={groupUsage(entries, 'day')} />
+            {totals.unpricedRequests > 0 && (
+              <p className="text-xs text-neutral-500">* Requests to models without a known price are counted without cost. Set a price below to include them from now on.</p>
+            )}
+          </>
+        )}
+      </SettingsSection>
+
+      <SettingsSection title="Monthly Budgets" description="Spending limit per API configuration for the calendar month. Once reached, requests either show a warning or are blocked until the next month.">
+        {settings.apiProviders.length === 0 ? (
+          <p className="text-sm text-neutral-500">No API configurations yet.</p>
+        ) : (
+          <ul className="divide-y divide-neutral-700/60 border border-neutral-700 rounded-md">
+            {settings.apiProviders.map(provider => {
+              const spent = monthSpend[provider.id] ?? 0;
+              const exceeded = !!provider.monthlyBudget && spent >= provider.monthlyBudget;
+              return (
+                <li key={provider.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                  <span className="flex-1 min-w-0">
+                    <span className="block truncate text-neutral-200">{provider.name}</span>
+                    <span className={clsx("text-xs tabular-nums", exceeded ? 'text-red-400' : 'text-neutral-500')}>
+                      {formatCost(spent)}{provider.monthlyBudget ? ` of ${formatCost(provider.monthlyBudget)}` : ''} this month
+                    </span>
+                  </span>
+                  <input type="number" min="0" step="any" value={provider.monthlyBudget ?? ''} placeholder="No budget" aria-label={`Monthly budget for ${provider.name} (USD)`}
+                    onChange={(e) => onUpdateProvider(provider.id, { monthlyBudget: e.target.value ? Math.max(0, parseFloat(e.target.value) || 0) || undefined : undefined })}
+                    className={clsx(inputClass, 'w-28')} />
+                  <select value={provider.budgetAction ?? 'warn'} disabled={!provider.monthlyBudget} aria-label={`When ${provider.name} reaches its budget`}
+                    onChange={(e) => onUpdateProvider(provider.id, { budgetAction: e.target.value as BudgetAction })} className={clsx(selectClass, 'w-28 disabled:opacity-50')}>
+                    <option value="warn">Warn</option>
+                    <option value="block">Block</option>
+                  </select>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </SettingsSection>
+
+      <SettingsSection title="Model Prices" description="USD per million tokens. Catalog prices may be out of date, and models the catalog doesn't know have none until you set them. Local models are free.">
+        <SettingsField label="Model" htmlFor="pricing-model">
+          <select id="pricing-model" value={pricingKey} onChange={(e) => setPricingKey(e.target.value)} className={selectClass}>
+            {modelGroups.map(({ provider, models }) => (
+              <optgroup key={provider.id} label={provider.name}>
+                {models.map(m => {
+                  const key = modelPricingKey(provider.id, m.id);
+                  return <option key={key} value={key}>{pricingOverrides[key] ? `${m.name} (custom price)` : m.name}</option>;
+                })}
+              </optgroup>
+            ))}
+          </select>
+        </SettingsField>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <SettingsField label="Input ($ / 1M tokens)" htmlFor="pricing-input">
+            <input id="pricing-input" type="number" min="0" step="any" value={override?.input ?? ''} onChange={(e) => setPrice('input', e.target.value)}
+              placeholder={catalogPricing ? `${catalogPricing.input} (catalog)` : 'Unknown'} className={inputClass} />
+          </SettingsField>
+          <SettingsField label="Output ($ / 1M tokens)" htmlFor="pricing-output">
+            <input id="pricing-output" type="number" min="0" step="any" value={override?.output ?? ''} onChange={(e) => setPrice('output', e.target.value)}
+              placeholder={catalogPricing ? `${catalogPricing.output} (catalog)` : 'Unknown'} className={inputClass} />
+          </SettingsField>
+        </div>
+        {override && (
+          <button type="button" onClick={() => { const { [pricingKey]: _, ...others } = pricingOverrides; onChange('modelPricing', others); }}
+            className="flex items-center space-x-1.5 px-3 py-1.5 text-xs rounded bg-neutral-700 hover:bg-neutral-600 text-neutral-300 transition-colors">
+            <RotateCw size={13} /> <span>Reset to Catalog</span>
+          </button>
+        )}
+      </SettingsSection>
+
+      <SettingsSection title="Usage History" description="Clearing the history resets the totals above and this month's budget spending. Token counts shown on messages are kept.">
+        <button onClick={() => setIsClearConfirmOpen(true)} disabled={usageLedger.length === 0} className="px-3 py-1.5 text-sm rounded bg-red-800 hover:bg-red-700 text-white transition-colors disabled:opacity-50">Clear Usage History...</button>
+      </SettingsSection>
+
+      <ConfirmModal
+        isOpen={isClearConfirmOpen}
+        onClose={() => setIsClearConfirmOpen(false)}
+        onConfirm={onClearUsageHistory}
+        title="Clear Usage History?"
+        message="All recorded usage and spending is removed from this device. This cannot be undone."
+        confirmText="Clear"
+        confirmVariant="danger"
+      />
+    </div>
+  );
+};
+
 // DataControlsTab & AboutTab (Content unchanged, use SettingsSection)
-const DataControlsTabContent: React.FC = () => {
-  const handleExport = () => toast('Exporting... (coming soon)');
-  const handleDeleteAll = () => { if (window.confirm("DELETE ALL CHATS?")) { if (window.confirm("REALLY DELETE?")) { toast.error('Deleting... (NOT IMPLEMENTED)'); } } };
+interface DataControlsTabProps {
+  onExportAllChats: (format: ExportFormat) => Promise<void>;
+  onImportChats: () => void;
+  onWipeData: (options: WipeOptions) => Promise<void>;
+  onRestoreBackup: (id: string) => Promise<void>;
+  onArchiveChatsOlderThan: (days: number) => number;
+}
+const DEFAULT_WIPE_OPTIONS: WipeOptions = { sessions: true, settings: false, apiKeys: false, keySalt: false, backup: true };
+
+const WipeOption: React.FC<{ label: string; description?: string; checked: boolean; disabled?: boolean; onChange: (checked: boolean) => void }> = ({ label, description, checked, disabled = false, onChange }) => (
+  <label className={clsx("flex items-start space-x-2 py-1 text-sm", disabled ? 'opacity-50' : 'cursor-pointer')}>
+    <input type="checkbox" checked={checked} disabled={disabled} onChange={(e) => onChange(e.target.checked)} className="form-checkbox mt-0.5 rounded border-neutral-600 bg-neutral-700 text-red-600 focus:ring-red-500" />
+    <span>
+      <span className="text-neutral-200">{label}</span>
+      {description && <span className="block text-xs text-neutral-500">{description}</span>}
+    </span>
+  </label>
+);
+
+const DataControlsTabContent: React.FC<DataControlsTabProps> = ({ onExportAllChats, onImportChats, onWipeData, onRestoreBackup, onArchiveChatsOlderThan }) => {
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('json');
+  const [isExporting, setIsExporting] = useState(false);
+  const [isWipeConfirmOpen, setIsWipeConfirmOpen] = useState(false);
+  const [wipeOptions, setWipeOptions] = useState<WipeOptions>(DEFAULT_WIPE_OPTIONS);
+  const [backups, setBackups] = useState<BackupInfo[]>([]);
+  const [backupToRestore, setBackupToRestore] = useState<BackupInfo | null>(null);
+  const [archiveAfterDays, setArchiveAfterDays] = useState(30);
+
+  const refreshBackups = useCallback(() => {
+    listBackups().then(setBackups).catch(e => console.error("Failed to list backups:", e));
+  }, []);
+  useEffect(() => { refreshBackups(); }, [refreshBackups]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try { await onExportAllChats(exportFormat); } finally { setIsExporting(false); }
+  };
+  const openWipeConfirm = () => { setWipeOptions(DEFAULT_WIPE_OPTIONS); setIsWipeConfirmOpen(true); };
+  const setWipeOption = (key: keyof WipeOptions, value: boolean) => setWipeOptions(prev => ({ ...prev, [key]: value }));
+  const keysCleared = wipeOptions.settings || wipeOptions.keySalt; // Both remove the keys anyway
+  const nothingToWipe = !wipeOptions.sessions && !wipeOptions.settings && !wipeOptions.apiKeys && !wipeOptions.keySalt;
+  const handleArchiveOld = () => {
+    const count = onArchiveChatsOlderThan(archiveAfterDays);
+    if (count === 0) toast(`No chats older than ${archiveAfterDays} days.`);
+    else toast.success(`Archived ${count} ${count === 1 ? 'chat' : 'chats'}`);
+  };
+  const handleDeleteBackup = async (id: string) => {
+    try { await deleteBackup(id); refreshBackups(); } catch (e) { toast.error(`Failed to delete backup: ${e}`); }
+  };
+
   return (
     <div className="space-y-8">
-      <SettingsSection title="Export Data" description="Download your chat history." noBorder>
-        <button onClick={handleExport} className="px-3 py-1.5 text-sm rounded bg-sky-700 ...">Export All Chats</button>
+      <SettingsSection title="Export Data" description="Save your chat history to a file. JSON keeps everything, including branches and per-chat settings; Markdown and HTML are readable transcripts." noBorder>
+        <div className="flex items-center gap-3">
+          <select value={exportFormat} onChange={(e) => setExportFormat(e.target.value as ExportFormat)} aria-label="Export format"
+            className="form-select block w-40 rounded-md border-0 py-1.5 bg-neutral-700 text-neutral-100 shadow-sm ring-1 ring-inset ring-neutral-600 focus:ring-2 focus:ring-inset focus:ring-sky-500 sm:text-sm sm:leading-6">
+            {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => <option key={format} value={format}>{EXPORT_FORMATS[format].label}</option>)}
+          </select>
+          <button onClick={handleExport} disabled={isExporting} className="px-3 py-1.5 text-sm rounded bg-sky-700 hover:bg-sky-600 text-white transition-colors disabled:opacity-50">{isExporting ? 'Exporting...' : 'Export All Chats'}</button>
+        </div>
+      </SettingsSection>
+      <SettingsSection title="Import Data" description="Bring in conversations from a ChatGPT or Claude data export, or from a Chatalia JSON export.">
+        <button onClick={onImportChats} className="px-3 py-1.5 text-sm rounded bg-neutral-700 hover:bg-neutral-600 text-neutral-100 transition-colors">Import Chats...</button>
       </SettingsSection>
-      <SettingsSection title="Delete Data" description="Permanently remove data stored in this browser.">
-        <button onClick={handleDeleteAll} className="px-3 py-1.5 text-sm rounded bg-red-800 ...">Delete All Chats</button>
+      <SettingsSection title="Archive Old Chats" description="Move chats you haven't touched in a while out of the sidebar. Archived chats stay searchable and can be restored from the Archived view; pinned chats are left alone.">
+        <div className="flex items-center gap-3 text-sm text-neutral-300">
+          <label htmlFor="archive-after-days">Not modified in</label>
+          <input id="archive-after-days" type="number" min={1} value={archiveAfterDays} onChange={(e) => setArchiveAfterDays(Math.max(1, parseInt(e.target.value, 10) || 1))}
+            className="form-input w-20 rounded-md border-0 py-1 bg-neutral-700 text-neutral-100 shadow-sm ring-1 ring-inset ring-neutral-600 focus:ring-2 focus:ring-inset focus:ring-sky-500 sm:text-sm" />
+          <span>days</span>
+          <button onClick={handleArchiveOld} className="px-3 py-1.5 text-sm rounded bg-neutral-700 hover:bg-neutral-600 text-neutral-100 transition-colors">Archive</button>
+        </div>
       </SettingsSection>
+      <SettingsSection title="Delete Data" description="Permanently remove chats, settings or API keys stored on this device.">
+        <button onClick={openWipeConfirm} className="px-3 py-1.5 text-sm rounded bg-red-800 hover:bg-red-700 text-white transition-colors">Delete Data...</button>
+      </SettingsSection>
+      {backups.length > 0 && (
+        <SettingsSection title="Backups" description="Snapshots taken before deleting data. Restoring one replaces your current chats, settings, keys, model lists and usage history.">
+          <ul className="divide-y divide-neutral-700/60 border border-neutral-700 rounded-md">
+            {backups.map(backup => (
+              <li key={backup.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                <span className="text-neutral-300">
+                  {new Date(backup.createdAt).toLocaleString()}
+                  <span className="ml-2 text-xs text-neutral-500">{backup.sessionCount} {backup.sessionCount === 1 ? 'chat' : 'chats'}{backup.hasSettings && ' · settings'}</span>
+                </span>
+                <span className="flex items-center space-x-2">
+                  <button onClick={() => setBackupToRestore(backup)} className="px-2 py-1 text-xs rounded bg-neutral-700 hover:bg-neutral-600 text-neutral-100 transition-colors">Restore</button>
+                  <button onClick={() => handleDeleteBackup(backup.id)} className="p-1 text-neutral-400 hover:text-red-400 rounded transition-colors" title="Delete backup" aria-label="Delete backup"><Trash2 size={14} /></button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </SettingsSection>
+      )}
       <div className="p-3 bg-neutral-900/50 border border-neutral-700 ..."> <Info size={14} /> <span>Data is stored locally...</span> </div>
+
+      <ConfirmModal
+        isOpen={isWipeConfirmOpen}
+        onClose={() => setIsWipeConfirmOpen(false)}
+        onConfirm={() => onWipeData(keysCleared ? { ...wipeOptions, apiKeys: true } : wipeOptions)}
+        title="Delete Data?"
+        message="The selected data is removed from this device and the app restarts. Without a backup this cannot be undone."
+        confirmText="Delete"
+        confirmVariant="danger"
+        confirmDisabled={nothingToWipe}
+      >
+        <WipeOption label="All chats" checked={wipeOptions.sessions} onChange={(v) => setWipeOption('sessions', v)} />
+        <WipeOption label="Settings" description="Defaults, provider configurations and their API keys, fetched model lists and usage history" checked={wipeOptions.settings} onChange={(v) => setWipeOption('settings', v)} />
+        <WipeOption label="API keys" description="Keeps provider configurations" checked={wipeOptions.apiKeys || keysCleared} disabled={keysCleared} onChange={(v) => setWipeOption('apiKeys', v)} />
+        <WipeOption label="Encryption salt (key.salt)" description="Stored keys can't be decrypted without it, so they are removed too" checked={wipeOptions.keySalt} onChange={(v) => setWipeOption('keySalt', v)} />
+        <div className="mt-2 pt-2 border-t border-neutral-700/60">
+          <WipeOption label="Back up first" description="Can be restored from this tab" checked={wipeOptions.backup} onChange={(v) => setWipeOption('backup', v)} />
+        </div>
+      </ConfirmModal>
+      <ConfirmModal
+        isOpen={backupToRestore !== null}
+        onClose={() => setBackupToRestore(null)}
+        onConfirm={() => { if (backupToRestore) onRestoreBackup(backupToRestore.id); }}
+        title="Restore Backup?"
+        message={`Your current chats, settings and keys are replaced with the backup from ${backupToRestore ? new Date(backupToRestore.createdAt).toLocaleString() : ''}, and the app restarts.`}
+        confirmText="Restore"
+      />
     </div>
   );
 };
@@ -481,18 +951,20 @@ const AboutTabContent: React.FC = () => (
 );
 
 // --- Main Modal Component (Using Sidebar Layout) ---
-export default function SettingsModal({ isOpen, onClose, appSettings, onAppSettingsChange }: SettingsModalProps) {
+export default function SettingsModal({ isOpen, onClose, appSettings, onAppSettingsChange, onSaveProvider, modelCache, onRefreshModels, onExportAllChats, onImportChats, onWipeData, onRestoreBackup, onArchiveChatsOlderThan, usageLedger, onClearUsageHistory }: SettingsModalProps) {
   const [activeTab, setActiveTab] = useState('defaults');
   // ** UPDATED Tabs (Removed Appearance) **
   const tabs = [
     { id: 'defaults', label: 'Defaults & Behavior', icon: SlidersHorizontal }, // Combined label
     { id: 'apiProviders', label: 'API Providers', icon: KeyRound }, // Changed from apiKeys
+    { id: 'usage', label: 'Usage & Costs', icon: BarChart3 },
     { id: 'data', label: 'Data', icon: Database },
     { id: 'about', label: 'About', icon: HelpCircle },
   ];
   const [tempAppSettings, setTempAppSettings] = useState<AppSettings>(appSettings);
 
-  useEffect(() => { if (isOpen) setTempAppSettings(appSettings); }, [isOpen, appSettings]);
+  // Reset on open only: saving an API key updates appSettings while the modal is open, which mustn't discard other edits
+  useEffect(() => { if (isOpen) setTempAppSettings(appSettings); }, [isOpen]);
 
   // Updated generic handler for flexibility
   const handleTempChange = useCallback((keyPath: string, value: any) => {
@@ -505,14 +977,27 @@ export default function SettingsModal({ isOpen, onClose, appSettings, onAppSetti
 
   // Specific handlers using the generic one
   const handleApiProvidersChange = (providers: ApiProviderConfig[]) => handleTempChange('apiProviders', providers);
+  const handleProviderUpdate = useCallback((id: string, changes: Partial<ApiProviderConfig>) => {
+    setTempAppSettings(prev => ({ ...prev, apiProviders: prev.apiProviders.map(p => p.id === id ? { ...p, ...changes } : p) }));
+  }, []);
+  // New API keys are saved right away; the config then joins the edited settings like any other
+  const handleProviderSave = useCallback(async (config: ApiProviderConfig) => {
+    const stored = await onSaveProvider(config);
+    setTempAppSettings(prev => ({
+      ...prev,
+      apiProviders: prev.apiProviders.some(p => p.id === stored.id) ? prev.apiProviders.map(p => p.id === stored.id ? stored : p) : [...prev.apiProviders, stored],
+    }));
+  }, [onSaveProvider]);
   const handleSaveChanges = () => { onAppSettingsChange(tempAppSettings); onClose(); toast.success("Settings saved"); };
 
-  const TabContent = () => {
+  // Called as a function rather than rendered as <TabContent />, which would remount the tab (and reset its state) on every change
+  const renderTabContent = () => {
     switch (activeTab) {
       // Pass settings and the generic handler
-      case 'defaults': return <DefaultsAndBehaviorTabContent settings={tempAppSettings} onChange={handleTempChange} />;
-      case 'apiProviders': return <ApiProvidersTabContent providers={tempAppSettings.apiProviders} onChange={handleApiProvidersChange} />; // Pass specific handler
-      case 'data': return <DataControlsTabContent />;
+      case 'defaults': return <DefaultsAndBehaviorTabContent settings={tempAppSettings} onChange={handleTempChange} modelCache={modelCache} onRefreshModels={onRefreshModels} />;
+      case 'apiProviders': return <ApiProvidersTabContent providers={tempAppSettings.apiProviders} onChange={handleApiProvidersChange} onUpdateProvider={handleProviderUpdate} onSaveProvider={handleProviderSave} />; // Pass specific handler
+      case 'usage': return <UsageTabContent settings={tempAppSettings} onChange={handleTempChange} onUpdateProvider={handleProviderUpdate} modelCache={modelCache} usageLedger={usageLedger} onClearUsageHistory={onClearUsageHistory} />;
+      case 'data': return <DataControlsTabContent onExportAllChats={onExportAllChats} onImportChats={onImportChats} onWipeData={onWipeData} onRestoreBackup={onRestoreBackup} onArchiveChatsOlderThan={onArchiveChatsOlderThan} />;
       case 'about': return <AboutTabContent />;
       default: return null;
     }
@@ -548,7 +1033,7 @@ export default function SettingsModal({ isOpen, onClose, appSettings, onAppSetti
                 <button onClick={onClose} className="p-1.5 text-neutral-500 hover:bg-neutral-700 hover:text-neutral-100 rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-sky-500 focus:ring-offset-2 focus:ring-offset-neutral-800" aria-label="Close" title="Close"> <CloseIcon size={20} /> </button>
               </div>
               <div className="flex-1 p-6 md:p-8 overflow-y-auto custom-scrollbar"> {/* Scrollable Content */}
-                <TabContent />
+                {renderTabContent()}
               </div>
               <div className="flex justify-end p-4 border-t border-neutral-700 flex-shrink-0 bg-neutral-800"> {/* Footer */}
                 <button onClick={handleSaveChanges} className="px-4 py-1.5 text-sm rounded bg-sky-600 hover:bg-sky-700 text-white transition-colors"> Save & Close </button>
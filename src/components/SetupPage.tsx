@@ -1,13 +1,13 @@
 // src/components/SetupPage.tsx
-import React, { useState, useEffect, ChangeEvent, useCallback } from 'react';
+import React, { useState, ChangeEvent, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { KeyRound, Info, Plus, Trash2, CheckCircle, AlertCircle, RotateCw, Eye, EyeOff, SlidersHorizontal, ArrowRight, HelpCircle, ChevronDown, Globe, Key } from 'lucide-react';
 import { AppSettings, ApiProviderConfig, ApiProviderStatus } from '../types/chat';
-// Assuming MODEL_PROVIDERS is correctly defined in config.ts and exported
-import { MODEL_PROVIDERS } from '../config';
+import { API_PROVIDER_PRESETS } from '../config';
 import { v4 as uuidv4 } from 'uuid';
 import toast from 'react-hot-toast';
 import clsx from 'clsx';
+import { useConnectionTest } from '../hooks/useConnectionTest';
 
 // --- Reusable UI Components ---
 
@@ -162,7 +162,7 @@ interface EditInputProps {
    };
    
   const { icon: Icon, color, title } = getStatusInfo();
-  return <Icon size={16} className={clsx('flex-shrink-0', color)}/>;
+  return <span title={title} className="flex-shrink-0"><Icon size={16} className={color}/></span>;
 };
 
 
@@ -265,6 +265,7 @@ const ApiProviderCard: React.FC<ApiProviderCardProps> = ({
                id={`edit-apikey-${config.id}`}
                value={formData.apiKey || ''}
                onChange={(e) => onFormChange('apiKey', e.target.value)}
+               placeholder={config.id === 'new' ? undefined : 'Leave blank to keep the current key'}
                isPassword
                onTogglePassword={() => onToggleShowPassword(config.id)}
                showPassword={showPasswordId === config.id}
@@ -308,7 +309,7 @@ const ApiProviderCard: React.FC<ApiProviderCardProps> = ({
              <div className="flex items-start justify-between gap-4">
                <div className="flex-grow space-y-2 overflow-hidden">
                  <div className="flex items-center gap-2">
-                   <StatusIcon status={config.status} />
+                   <StatusIcon status={config.status} lastTested={config.lastTested ? String(config.lastTested) : undefined} />
                    <h4 className="font-medium text-neutral-100 truncate" title={config.name}>
                      {config.name}
                    </h4>
@@ -329,8 +330,15 @@ const ApiProviderCard: React.FC<ApiProviderCardProps> = ({
  
                  <div className="flex items-center gap-2 pl-6 text-xs text-neutral-500">
                    <Key size={12} />
-                   <span className="font-mono">••••••••{config.apiKey?.slice(-4)}</span>
+                   <span className="font-mono">••••••••{config.apiKeyHint}</span>
                  </div>
+
+                 {config.status === 'invalid' && config.lastTestError && (
+                   <div className="flex items-start gap-2 pl-6 text-xs text-rose-400">
+                     <AlertCircle size={12} className="mt-0.5 flex-shrink-0" />
+                     <span>{config.lastTestError}</span>
+                   </div>
+                 )}
                </div>
  
                <div className="flex gap-1">
@@ -369,27 +377,28 @@ const ApiProviderCard: React.FC<ApiProviderCardProps> = ({
 interface SetupPageProps {
    appSettings: AppSettings;
    onSaveSettings: (newSettings: AppSettings) => void;
+   onSaveProvider: (config: ApiProviderConfig) => Promise<ApiProviderConfig>; // Saves a config with a new API key right away
    onComplete: () => void;
 }
 
-const SetupPage: React.FC<SetupPageProps> = ({ appSettings, onSaveSettings, onComplete }) => {
+const SetupPage: React.FC<SetupPageProps> = ({ appSettings, onSaveSettings, onSaveProvider, onComplete }) => {
    // --- State & Handlers ---
    const [tempApiProviders, setTempApiProviders] = useState<ApiProviderConfig[]>(appSettings.apiProviders);
    const [editingId, setEditingId] = useState<string | null>(null);
    const [formData, setFormData] = useState<Partial<ApiProviderConfig>>({});
    const [showPasswordId, setShowPasswordId] = useState<string | null>(null);
-   useEffect(() => { setTempApiProviders(appSettings.apiProviders); }, [appSettings.apiProviders]);
    const startEditing = (id: string) => { setEditingId(id); if (id === 'new') setFormData({ providerId: 'openai', name: '', apiKey: '', baseUrl: '', status: 'unknown' }); else setFormData(tempApiProviders.find(p => p.id === id) || {}); setShowPasswordId(null); };
    const cancelEditing = () => { setEditingId(null); setFormData({}); setShowPasswordId(null); };
    const handleFormChange = (field: keyof ApiProviderConfig, value: string) => { setFormData(prev => ({ ...prev, [field]: value })); };
    const toggleShowPassword = (id: string) => { setShowPasswordId(prev => (prev === id ? null : id)); };
-   const testConnection = useCallback(async (configToTest: ApiProviderConfig) => { const updateLocalStatus = (id: string, status: ApiProviderStatus, testedDate?: Date) => { setTempApiProviders(prev => prev.map(p => p.id === id ? { ...p, status, lastTested: testedDate ?? new Date() } : p)); }; updateLocalStatus(configToTest.id, 'testing'); const toastId = `test-setup-${configToTest.id}`; toast.loading(`Testing ${configToTest.name}...`, { id: toastId }); try { await new Promise(resolve => setTimeout(resolve, 1500 + Math.random() * 1000)); if (configToTest.apiKey.toLowerCase().includes('valid')) { updateLocalStatus(configToTest.id, 'valid', new Date()); toast.success(`${configToTest.name} OK!`, { id: toastId }); } else { throw new Error("Invalid Key (Sim)"); } } catch (error: any) { updateLocalStatus(configToTest.id, 'invalid', new Date()); toast.error(`${configToTest.name} failed: ${error.message}`, { id: toastId, duration: 5000 }); console.error(`Test failed:`, error); } }, [setTempApiProviders]);
-   const handleSave = () => { if (!formData.name?.trim() || !formData.apiKey?.trim() || !formData.providerId) { toast.error("Required fields missing."); return; } let updatedProviders: ApiProviderConfig[]; const saveData: ApiProviderConfig = { id: editingId === 'new' ? uuidv4() : editingId!, providerId: formData.providerId!, name: formData.name.trim(), apiKey: formData.apiKey.trim(), baseUrl: formData.baseUrl?.trim() || undefined, status: 'unknown', lastTested: undefined }; if (editingId === 'new') { updatedProviders = [...tempApiProviders, saveData]; toast.success(`${saveData.name} added`); } else { updatedProviders = tempApiProviders.map(p => p.id === editingId ? saveData : p); toast.success(`${saveData.name} updated`); } setTempApiProviders(updatedProviders); cancelEditing(); };
+   const updateProvider = useCallback((id: string, changes: Partial<ApiProviderConfig>) => { setTempApiProviders(prev => prev.map(p => p.id === id ? { ...p, ...changes } : p)); }, []);
+   const testConnection = useConnectionTest(updateProvider);
+   // A new key is saved right away, so it doesn't stay in state; edits without one wait for Finish Setup
+   const handleSave = async () => { if (!formData.name?.trim() || (editingId === 'new' && !formData.apiKey?.trim()) || !formData.providerId) { toast.error("Required fields missing."); return; } let saveData: ApiProviderConfig = { id: editingId === 'new' ? uuidv4() : editingId!, providerId: formData.providerId!, name: formData.name.trim(), apiKey: formData.apiKey?.trim() || '', apiKeyHint: editingId === 'new' ? undefined : formData.apiKeyHint, baseUrl: formData.baseUrl?.trim() || undefined, status: 'unknown', lastTested: undefined }; if (saveData.apiKey) { try { saveData = await onSaveProvider(saveData); } catch (e) { toast.error(`Failed to save the API key: ${e}`); return; } } if (editingId === 'new') { setTempApiProviders(prev => [...prev, saveData]); toast.success(`${saveData.name} added`); } else { setTempApiProviders(prev => prev.map(p => p.id === saveData.id ? saveData : p)); toast.success(`${saveData.name} updated`); } cancelEditing(); };
    const handleDelete = (id: string) => { const name = tempApiProviders.find(p => p.id === id)?.name || 'config'; if (window.confirm(`Remove "${name}"?`)) { setTempApiProviders(prev => prev.filter(p => p.id !== id)); toast.success(`"${name}" removed`); if (editingId === id) cancelEditing(); } };
    const handleFinishSetup = () => { onSaveSettings({ ...appSettings, apiProviders: tempApiProviders }); onComplete(); };
    const handleSkip = () => { if (tempApiProviders.length > 0 || window.confirm("Skip adding API keys?")) { onComplete(); } };
-   // Ensure commonProviders is defined here or imported
-   const commonProviders = [{ id: 'openai', name: 'OpenAI' }, { id: 'anthropic', name: 'Anthropic' }, { id: 'groq', name: 'Groq' }, { id: 'google', name: 'Google (Gemini)' }, { id: 'cohere', name: 'Cohere' }, { id: 'ollama', name: 'Ollama (Local)', defaultBaseUrl: 'http://localhost:11434/v1' }, { id: 'lmstudio', name: 'LM Studio (Local)', defaultBaseUrl: 'http://localhost:1234/v1' }, { id: 'custom', name: 'Custom (Other)' },];
+   const commonProviders = API_PROVIDER_PRESETS;
 
    // --- Animation Variants ---
    const containerVariants = { hidden: { opacity: 0 }, visible: { opacity: 1, transition: { delay: 0.1, staggerChildren: 0.15 } }, exit: { opacity: 0, transition: { duration: 0.3 } } };
@@ -1,9 +1,17 @@
 // src/components/Sidebar.tsx
-import React, { useMemo } from "react";
-import { ChatSession } from "../types/chat";
-import { Plus, MessageSquare, Trash2, Edit3, Check, X, Settings, Search } from "lucide-react";
+import React, { useEffect, useMemo, useState } from "react";
+import { ChatFolder, ChatSession, SidebarViewMode } from "../types/chat";
+import { Plus, MessageSquare, Trash2, Edit3, Check, X, Settings, Search, SlidersHorizontal, User, Bot, Loader2, Pin, PinOff, Folder, FolderPlus, CalendarDays, ChevronRight, ChevronLeft, Tag, Archive, ArchiveRestore, Sparkles } from "lucide-react";
 import EditableTitle from "./EditableTitle";
+import ExportMenu from "./ExportMenu";
 import { format, isToday, isYesterday, isThisWeek } from 'date-fns';
+import clsx from "clsx";
+import { MessageSearchFilters, MessageSearchHit } from "../services/sessionStore";
+import { useMessageSearch } from "../hooks/useMessageSearch";
+import { ExportFormat } from "../services/chatExport";
+
+const sortByLastModified = (sessions: ChatSession[]) =>
+  [...sessions].sort((a, b) => new Date(b.lastModified).getTime() - new Date(a.lastModified).getTime());
 
 // Grouping helper (unchanged)
 const groupSessionsByDate = (sessions: ChatSession[]) => {
@@ -21,28 +29,139 @@ const groupSessionsByDate = (sessions: ChatSession[]) => {
   return Object.entries(groups).filter(([, value]) => value.length > 0);
 };
 
+// Every folder (empty ones too, so chats can be dropped on them), then chats outside any folder
+const groupSessionsByFolder = (sessions: ChatSession[], folders: ChatFolder[]) => {
+  const folderIds = new Set(folders.map(f => f.id));
+  const sorted = sortByLastModified(sessions);
+  return [
+    ...folders.map(folder => ({ folder, sessions: sorted.filter(s => s.folderId === folder.id) })),
+    { folder: null, sessions: sorted.filter(s => !s.folderId || !folderIds.has(s.folderId)) },
+  ];
+};
+
+const CHAT_DRAG_TYPE = 'application/x-chatalia-chat'; // dataTransfer type carrying a dragged chat's id
+
+// Drop target for chats dragged from the list; highlights while one is over it
+const useChatDropTarget = (onDropChat: (sessionId: string) => void) => {
+  const [isOver, setIsOver] = useState(false);
+  const accepts = (e: React.DragEvent) => e.dataTransfer.types.includes(CHAT_DRAG_TYPE);
+  return {
+    isOver,
+    dropProps: {
+      onDragOver: (e: React.DragEvent) => { if (accepts(e)) { e.preventDefault(); e.dataTransfer.dropEffect = 'move'; setIsOver(true); } },
+      onDragLeave: (e: React.DragEvent) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsOver(false); },
+      onDrop: (e: React.DragEvent) => {
+        setIsOver(false);
+        const sessionId = e.dataTransfer.getData(CHAT_DRAG_TYPE);
+        if (sessionId) { e.preventDefault(); onDropChat(sessionId); }
+      },
+    },
+  };
+};
+
 interface SidebarProps {
   sessions: ChatSession[]; // Receives *filtered* sessions from App.tsx now
+  allSessions: ChatSession[]; // Unfiltered, for what must not depend on the title search (tag chips, archived markers)
   activeSessionId: string | null;
   onNewChat: () => void;
   onSelectChat: (id: string) => void;
   onDeleteChat: (id: string) => void;
   onRenameChat: (id: string, newTitle: string) => void;
   onOpenSettings: () => void;
+  onTogglePinChat: (id: string) => void;
+  onArchiveChat: (id: string, archived: boolean) => void;
+  onRegenerateTitle: (id: string) => void;
+  onMoveChatToFolder: (sessionId: string, folderId: string | null) => void;
+  // Bulk actions on the chats selected with ctrl/shift-click
+  onDeleteChats: (ids: string[]) => void; // Asks for confirmation first
+  onExportChats: (ids: string[], format: ExportFormat) => Promise<void>;
+  onAddTagToChats: (ids: string[], tag: string) => void;
+  onApplyChatSettings: (ids: string[]) => void; // Opens chat settings to apply to all of them
+  // Folders and view mode are stored in AppSettings
+  folders: ChatFolder[];
+  viewMode: SidebarViewMode;
+  onViewModeChange: (mode: SidebarViewMode) => void;
+  onCreateFolder: () => string; // Returns the new folder's id
+  onRenameFolder: (id: string, name: string) => void;
+  onDeleteFolder: (id: string) => void;
   // Search Props added
   searchTerm: string;
   onSearchTermChange: (term: string) => void;
+  onSelectSearchHit: (hit: MessageSearchHit) => void; // Open the hit's chat and scroll to the message
+  searchModelOptions: { id: string; name: string }[]; // Models offered by the search filter
+  defaultModel: string; // Model of chats without their own settings
 }
 
+// Filter values as edited in the panel ('' = any); dates are yyyy-MM-dd from the date inputs
+interface SearchFilterState { role: '' | 'user' | 'assistant'; model: string; from: string; to: string; }
+const EMPTY_SEARCH_FILTERS: SearchFilterState = { role: '', model: '', from: '', to: '' };
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Snippet with every query term highlighted
+const HighlightedSnippet: React.FC<{ text: string; query: string }> = ({ text, query }) => {
+  const terms = query.split(/[^\p{L}\p{N}]+/u).filter(Boolean).map(escapeRegExp);
+  if (terms.length === 0) return <>{text}</>;
+  const pattern = new RegExp(`(${terms.join('|')})`, 'giu');
+  return (
+    <>
+      {text.split(pattern).map((part, i) =>
+        i % 2 === 1 ? <mark key={i} className="bg-sky-500/30 text-neutral-100 rounded-sm">{part}</mark> : <React.Fragment key={i}>{part}</React.Fragment>
+      )}
+    </>
+  );
+};
+
+const SearchHitItem: React.FC<{ hit: MessageSearchHit; query: string; isArchived: boolean; onSelect: (hit: MessageSearchHit) => void }> = ({ hit, query, isArchived, onSelect }) => {
+  const RoleIcon = hit.role === 'user' ? User : Bot;
+  const date = new Date(hit.timestamp);
+  return (
+    <button type="button" onClick={() => onSelect(hit)} className="w-full text-left px-3 py-2 rounded-md hover:bg-neutral-800 transition-colors duration-100">
+      <div className="flex items-center justify-between text-xs text-neutral-500 mb-0.5">
+        <span className="flex items-center space-x-1.5 min-w-0"><RoleIcon size={12} className="flex-shrink-0" /><span className="truncate">{hit.sessionTitle}</span>{isArchived && <Archive size={11} className="flex-shrink-0" aria-label="Archived" />}</span>
+        {!isNaN(date.getTime()) && <span className="flex-shrink-0 ml-2">{format(date, 'MMM d')}</span>}
+      </div>
+      <p className="text-xs text-neutral-300 line-clamp-2 break-words"><HighlightedSnippet text={hit.snippet} query={query} /></p>
+    </button>
+  );
+};
+
+const SearchFiltersPanel: React.FC<{
+  filters: SearchFilterState; onChange: (filters: SearchFilterState) => void; modelOptions: { id: string; name: string }[];
+}> = ({ filters, onChange, modelOptions }) => {
+  const fieldClass = "form-select block w-full rounded-md border-0 py-1 bg-neutral-800 text-neutral-200 text-xs focus:ring-1 focus:ring-inset focus:ring-sky-500";
+  const update = (changes: Partial<SearchFilterState>) => onChange({ ...filters, ...changes });
+  return (
+    <div className="grid grid-cols-2 gap-1.5 p-2 rounded-md bg-neutral-900 border border-neutral-800">
+      <select value={filters.role} onChange={(e) => update({ role: e.target.value as SearchFilterState['role'] })} className={fieldClass} aria-label="Role">
+        <option value="">Any role</option>
+        <option value="user">You</option>
+        <option value="assistant">Assistant</option>
+      </select>
+      <select value={filters.model} onChange={(e) => update({ model: e.target.value })} className={fieldClass} aria-label="Model">
+        <option value="">Any model</option>
+        {modelOptions.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+      </select>
+      <input type="date" value={filters.from} onChange={(e) => update({ from: e.target.value })} className={fieldClass} aria-label="From date" title="From" />
+      <input type="date" value={filters.to} onChange={(e) => update({ to: e.target.value })} className={fieldClass} aria-label="To date" title="To" />
+      <button type="button" onClick={() => onChange(EMPTY_SEARCH_FILTERS)} className="col-span-2 text-xs text-neutral-400 hover:text-neutral-100 py-0.5">Clear filters</button>
+    </div>
+  );
+};
+
 // Sidebar Item Component (Dark theme styles)
 const SidebarItem: React.FC<{
-  session: ChatSession; isActive: boolean; onSelectChat: (id: string) => void;
+  session: ChatSession; isActive: boolean; isSelected: boolean; onClick: (e: React.MouseEvent, id: string) => void;
   onDeleteChat: (id: string) => void; onRenameChat: (id: string, newTitle: string) => void;
-}> = ({ session, isActive, onSelectChat, onDeleteChat, onRenameChat }) => {
+  onTogglePin: (id: string) => void; onArchive: (id: string, archived: boolean) => void; onRegenerateTitle: (id: string) => void;
+}> = ({ session, isActive, isSelected, onClick, onDeleteChat, onRenameChat, onTogglePin, onArchive, onRegenerateTitle }) => {
+  const isArchived = !!session.archivedAt;
   return (
     <div
-      className={`group relative flex items-center justify-between px-3 py-2.5 rounded-md cursor-pointer text-sm transition-colors duration-100 ease-in-out ${isActive ? 'bg-neutral-750 text-neutral-100 font-medium' : 'text-neutral-300 hover:bg-neutral-800 hover:text-neutral-100'}`}
-      onClick={() => onSelectChat(session.id)} role="button" aria-current={isActive ? "page" : undefined}
+      className={`group relative flex items-center justify-between px-3 py-2.5 rounded-md cursor-pointer text-sm transition-colors duration-100 ease-in-out ${isSelected ? 'bg-sky-900/40 text-neutral-100 ring-1 ring-inset ring-sky-700/60' : isActive ? 'bg-neutral-750 text-neutral-100 font-medium' : 'text-neutral-300 hover:bg-neutral-800 hover:text-neutral-100'}`}
+      onClick={(e) => onClick(e, session.id)} role="button" aria-current={isActive ? "page" : undefined} aria-selected={isSelected}
+      onMouseDown={(e) => { if (e.shiftKey) e.preventDefault(); }} // Keeps shift-click from selecting text
+      draggable onDragStart={(e) => { e.dataTransfer.setData(CHAT_DRAG_TYPE, session.id); e.dataTransfer.effectAllowed = 'move'; }}
     >
       <div className="flex items-center overflow-hidden mr-1 flex-1 min-w-0 space-x-2.5">
         <MessageSquare className={`h-4 w-4 flex-shrink-0 ${isActive ? 'text-neutral-100' : 'text-neutral-500'}`} />
@@ -57,6 +176,17 @@ const SidebarItem: React.FC<{
         />
       </div>
       <div className={`absolute right-2 top-1/2 -translate-y-1/2 flex items-center opacity-0 ${isActive ? 'opacity-100' : 'group-hover:opacity-100'} transition-opacity duration-150`}>
+        <button onClick={(e) => { e.stopPropagation(); onRegenerateTitle(session.id); }} className="p-1 text-neutral-400 hover:text-neutral-100 hover:bg-neutral-700/80 rounded focus:outline-none focus:ring-1 focus:ring-neutral-500" aria-label={`Regenerate title: ${session.title}`} title="Regenerate title">
+          <Sparkles className="h-4 w-4" />
+        </button>
+        {!isArchived && (
+          <button onClick={(e) => { e.stopPropagation(); onTogglePin(session.id); }} className="p-1 text-neutral-400 hover:text-neutral-100 hover:bg-neutral-700/80 rounded focus:outline-none focus:ring-1 focus:ring-neutral-500" aria-label={session.pinned ? `Unpin chat: ${session.title}` : `Pin chat: ${session.title}`} title={session.pinned ? "Unpin chat" : "Pin chat"}>
+            {session.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+          </button>
+        )}
+        <button onClick={(e) => { e.stopPropagation(); onArchive(session.id, !isArchived); }} className="p-1 text-neutral-400 hover:text-neutral-100 hover:bg-neutral-700/80 rounded focus:outline-none focus:ring-1 focus:ring-neutral-500" aria-label={isArchived ? `Restore chat: ${session.title}` : `Archive chat: ${session.title}`} title={isArchived ? "Restore from archive" : "Archive chat"}>
+          {isArchived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+        </button>
         <button onClick={(e) => { e.stopPropagation(); onDeleteChat(session.id); }} className="p-1 text-neutral-400 hover:text-red-400 hover:bg-neutral-700/80 rounded focus:outline-none focus:ring-1 focus:ring-red-500" aria-label={`Delete chat: ${session.title}`} title="Delete chat">
           <Trash2 className="h-4 w-4" />
         </button>
@@ -65,15 +195,211 @@ const SidebarItem: React.FC<{
   );
 };
 
+const GroupHeading: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <h3 className="px-3 pt-3 pb-1 text-xs font-semibold text-neutral-500 uppercase tracking-wide select-none flex items-center">{children}</h3>
+);
+
+// A folder (or the unfiled chats when `folder` is null) that chats can be dragged onto
+const FolderSection: React.FC<{
+  folder: ChatFolder | null; isCollapsed: boolean; onToggleCollapsed: () => void; isNew: boolean;
+  onDropChat: (sessionId: string) => void; onRename: (name: string) => void; onDelete: () => void; children: React.ReactNode;
+}> = ({ folder, isCollapsed, onToggleCollapsed, isNew, onDropChat, onRename, onDelete, children }) => {
+  const { isOver, dropProps } = useChatDropTarget(onDropChat);
+  return (
+    <div {...dropProps} className={clsx("mb-1 rounded-md transition-colors duration-100", isOver && "bg-sky-900/30 ring-1 ring-sky-600/60")}>
+      {folder ? (
+        <div className="group flex items-center px-1.5 pt-2 pb-1 text-xs text-neutral-400">
+          <button onClick={onToggleCollapsed} className="p-0.5 rounded hover:text-neutral-100" aria-label={isCollapsed ? "Expand folder" : "Collapse folder"} aria-expanded={!isCollapsed}>
+            <ChevronRight size={14} className={clsx("transition-transform duration-150", !isCollapsed && "rotate-90")} />
+          </button>
+          <Folder size={14} className="mx-1 flex-shrink-0" />
+          <div className="flex-1 min-w-0">
+            <EditableTitle initialTitle={folder.name} onSave={onRename} isEditingByDefault={isNew}
+              inputClassName="w-full bg-transparent focus:ring-1 focus:ring-sky-500 rounded px-1 py-0.5 text-xs border-none text-neutral-100"
+              displayTextClassName="text-xs font-semibold truncate block text-neutral-400 group-hover:text-neutral-200"
+              saveIcon={<Check size={12} />} cancelIcon={<X size={12} />} editIcon={<Edit3 size={12} />}
+            />
+          </div>
+          <button onClick={onDelete} className="p-0.5 ml-1 text-neutral-500 hover:text-red-400 opacity-0 group-hover:opacity-100 focus:opacity-100 rounded transition-opacity" aria-label={`Delete folder: ${folder.name}`} title="Delete folder (chats are kept)">
+            <Trash2 size={12} />
+          </button>
+        </div>
+      ) : (
+        <GroupHeading>Chats</GroupHeading>
+      )}
+      {!isCollapsed && <div className={clsx("space-y-1", folder && "pl-3")}>{children}</div>}
+    </div>
+  );
+};
+
+// Tags used across chats; picking one shows only chats carrying it
+const TagFilterBar: React.FC<{ tags: string[]; activeTag: string | null; onChange: (tag: string | null) => void }> = ({ tags, activeTag, onChange }) => (
+  <div className="flex flex-wrap items-center gap-1 px-1 pb-1">
+    <Tag size={12} className="text-neutral-500 mr-0.5" />
+    {tags.map(tag => (
+      <button key={tag} type="button" onClick={() => onChange(activeTag === tag ? null : tag)}
+        className={clsx("px-1.5 py-0.5 rounded text-[11px] transition-colors", activeTag === tag ? "bg-sky-700 text-white" : "bg-neutral-800 text-neutral-400 hover:text-neutral-100")}>
+        {tag}
+      </button>
+    ))}
+  </div>
+);
+
+const NO_FOLDER = '__none__'; // Option value for moving chats out of their folder
+
+const BulkActionBar: React.FC<{
+  count: number; folders: ChatFolder[]; tagSuggestions: string[];
+  onMoveToFolder: (folderId: string | null) => void; onAddTag: (tag: string) => void; onExport: (format: ExportFormat) => Promise<void>;
+  onApplySettings: () => void; onDelete: () => void; onClear: () => void;
+}> = ({ count, folders, tagSuggestions, onMoveToFolder, onAddTag, onExport, onApplySettings, onDelete, onClear }) => {
+  const [isTagging, setIsTagging] = useState(false);
+  const [tagDraft, setTagDraft] = useState('');
+  const submitTag = () => {
+    const tag = tagDraft.trim();
+    if (tag) onAddTag(tag);
+    setTagDraft('');
+    setIsTagging(false);
+  };
+  const buttonClass = "p-1.5 rounded-md text-neutral-400 hover:text-neutral-100 hover:bg-neutral-700/50 transition-colors";
+  return (
+    <div className="p-1.5 rounded-md bg-neutral-900 border border-neutral-800 space-y-1.5">
+      <div className="flex items-center justify-between">
+        <span className="pl-1 text-xs text-neutral-300">{count} selected</span>
+        <div className="flex items-center">
+          <button type="button" onClick={() => setIsTagging(!isTagging)} className={buttonClass} title="Add tag" aria-label="Add tag to selected chats"><Tag size={14} /></button>
+          <ExportMenu onExport={onExport} title="Export selected chats" />
+          <button type="button" onClick={onApplySettings} className={buttonClass} title="Apply chat settings" aria-label="Apply chat settings to selected chats"><SlidersHorizontal size={14} /></button>
+          <button type="button" onClick={onDelete} className={clsx(buttonClass, "hover:text-red-400")} title="Delete selected chats" aria-label="Delete selected chats"><Trash2 size={14} /></button>
+          <button type="button" onClick={onClear} className={buttonClass} title="Clear selection (Esc)" aria-label="Clear selection"><X size={14} /></button>
+        </div>
+      </div>
+      {isTagging && (
+        <>
+          <input autoFocus value={tagDraft} onChange={(e) => setTagDraft(e.target.value)} onBlur={submitTag} list="bulk-tag-suggestions" placeholder="Tag name" aria-label="Tag for selected chats"
+            onKeyDown={(e) => { if (e.key === 'Enter') submitTag(); else if (e.key === 'Escape') { e.stopPropagation(); setTagDraft(''); setIsTagging(false); } }}
+            className="form-input block w-full rounded-md border-0 py-1 bg-neutral-800 text-neutral-100 text-xs placeholder-neutral-500 focus:ring-1 focus:ring-inset focus:ring-sky-500" />
+          <datalist id="bulk-tag-suggestions">{tagSuggestions.map(t => <option key={t} value={t} />)}</datalist>
+        </>
+      )}
+      {folders.length > 0 && (
+        <select value="" onChange={(e) => onMoveToFolder(e.target.value === NO_FOLDER ? null : e.target.value)} aria-label="Move selected chats to folder"
+          className="form-select block w-full rounded-md border-0 py-1 bg-neutral-800 text-neutral-200 text-xs focus:ring-1 focus:ring-inset focus:ring-sky-500">
+          <option value="" disabled>Move to folder...</option>
+          {folders.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+          <option value={NO_FOLDER}>No folder</option>
+        </select>
+      )}
+    </div>
+  );
+};
 
 const Sidebar: React.FC<SidebarProps> = ({
   sessions, // Expecting filtered sessions here
+  allSessions,
   activeSessionId, onNewChat, onSelectChat, onDeleteChat,
-  onRenameChat, onOpenSettings, searchTerm, onSearchTermChange
+  onRenameChat, onOpenSettings, searchTerm, onSearchTermChange,
+  onSelectSearchHit, searchModelOptions, defaultModel,
+  onTogglePinChat, onArchiveChat, onRegenerateTitle, onMoveChatToFolder, folders, viewMode, onViewModeChange,
+  onCreateFolder, onRenameFolder, onDeleteFolder,
+  onDeleteChats, onExportChats, onAddTagToChats, onApplyChatSettings
 }) => {
 
-  // Group the already filtered sessions passed via props
-  const groupedSessions = useMemo(() => groupSessionsByDate(sessions), [sessions]);
+  // Tag filter, applied on top of the title search done by App.tsx
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const allTags = useMemo(() => [...new Set(allSessions.flatMap(s => s.tags ?? []))].sort((a, b) => a.localeCompare(b)), [allSessions]);
+  const visibleSessions = useMemo(
+    () => (activeTag && allTags.includes(activeTag) ? sessions.filter(s => s.tags?.includes(activeTag)) : sessions),
+    [sessions, activeTag, allTags]
+  );
+
+  // Archived chats have their own view; they still show up in message search
+  const [showArchived, setShowArchived] = useState(false);
+  const archivedSessions = useMemo(
+    () => visibleSessions.filter(s => s.archivedAt).sort((a, b) => new Date(b.archivedAt!).getTime() - new Date(a.archivedAt!).getTime()),
+    [visibleSessions]
+  );
+  const archivedIds = useMemo(() => new Set(allSessions.filter(s => s.archivedAt).map(s => s.id)), [allSessions]);
+  const listedSessions = useMemo(() => visibleSessions.filter(s => !s.archivedAt), [visibleSessions]);
+
+  // Pinned chats are listed first in either view and left out of the groups below
+  const pinnedSessions = useMemo(() => sortByLastModified(listedSessions.filter(s => s.pinned)), [listedSessions]);
+  const unpinnedSessions = useMemo(() => listedSessions.filter(s => !s.pinned), [listedSessions]);
+  const groupedSessions = useMemo(() => groupSessionsByDate(unpinnedSessions), [unpinnedSessions]);
+  const folderGroups = useMemo(() => groupSessionsByFolder(unpinnedSessions, folders), [unpinnedSessions, folders]);
+  const [collapsedFolderIds, setCollapsedFolderIds] = useState<Set<string>>(new Set());
+  const [newFolderId, setNewFolderId] = useState<string | null>(null); // Opened for naming right after creation
+  const toggleFolderCollapsed = (id: string) => setCollapsedFolderIds(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    return next;
+  });
+  const handleCreateFolder = () => {
+    if (viewMode !== 'folders') onViewModeChange('folders');
+    setNewFolderId(onCreateFolder());
+  };
+
+  // Multi-select: ctrl/cmd-click toggles a chat, shift-click selects the listed range from the last clicked one
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [selectionAnchorId, setSelectionAnchorId] = useState<string | null>(null);
+  const selectedSessionIds = useMemo(() => sessions.filter(s => selectedIds.has(s.id)).map(s => s.id), [sessions, selectedIds]); // Deleted chats drop out
+  const clearSelection = () => setSelectedIds(new Set());
+  const listedOrder = useMemo(() => (showArchived ? archivedSessions : [
+    ...pinnedSessions,
+    ...(viewMode === 'folders'
+      ? folderGroups.flatMap(({ folder, sessions: folderSessions }) => (folder && collapsedFolderIds.has(folder.id) ? [] : folderSessions))
+      : groupedSessions.flatMap(([, groupSessions]) => groupSessions)),
+  ]).map(s => s.id), [showArchived, archivedSessions, pinnedSessions, viewMode, folderGroups, collapsedFolderIds, groupedSessions]);
+
+  const handleItemClick = (e: React.MouseEvent, id: string) => {
+    const anchorIndex = listedOrder.indexOf(selectionAnchorId ?? activeSessionId ?? '');
+    const index = listedOrder.indexOf(id);
+    if (e.shiftKey && anchorIndex !== -1 && index !== -1) {
+      setSelectedIds(new Set(listedOrder.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1)));
+      return;
+    }
+    setSelectionAnchorId(id);
+    if (e.shiftKey || e.ctrlKey || e.metaKey) {
+      setSelectedIds(prev => {
+        const next = new Set(prev);
+        if (next.has(id)) next.delete(id); else next.add(id);
+        return next;
+      });
+      return;
+    }
+    clearSelection();
+    onSelectChat(id);
+  };
+  // Used for the bulk action and for drops; dropping one of the selected chats moves the whole selection
+  const moveChatsToFolder = (ids: string[], folderId: string | null) => ids.forEach(id => onMoveChatToFolder(id, folderId));
+  const toggleArchivedView = () => {
+    setShowArchived(!showArchived);
+    clearSelection();
+  };
+  useEffect(() => {
+    if (selectedIds.size === 0) return;
+    const handleKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') setSelectedIds(new Set()); };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedIds]);
+
+  const renderItems = (items: ChatSession[]) => items.map((session) => (
+    <SidebarItem key={session.id} session={session} isActive={activeSessionId === session.id} isSelected={selectedIds.has(session.id)}
+      onClick={handleItemClick} onDeleteChat={onDeleteChat} onRenameChat={onRenameChat} onTogglePin={onTogglePinChat} onArchive={onArchiveChat} onRegenerateTitle={onRegenerateTitle}
+    />
+  ));
+
+  // Message search (titles are matched by App.tsx, message contents by the backend index)
+  const [showSearchFilters, setShowSearchFilters] = useState(false);
+  const [searchFilters, setSearchFilters] = useState<SearchFilterState>(EMPTY_SEARCH_FILTERS);
+  const hasSearchFilters = JSON.stringify(searchFilters) !== JSON.stringify(EMPTY_SEARCH_FILTERS);
+  const messageSearchFilters = useMemo<MessageSearchFilters>(() => ({
+    role: searchFilters.role || undefined,
+    model: searchFilters.model || undefined,
+    defaultModel,
+    from: searchFilters.from ? new Date(`${searchFilters.from}T00:00:00`).toISOString() : undefined,
+    to: searchFilters.to ? new Date(`${searchFilters.to}T23:59:59.999`).toISOString() : undefined,
+  }), [searchFilters, defaultModel]);
+  const { hits: searchHits, isSearching, isActive: isMessageSearchActive } = useMessageSearch(searchTerm, messageSearchFilters);
 
   return (
     <aside className="w-64 flex flex-col bg-neutral-950 text-neutral-200 border-r border-neutral-800 flex-shrink-0">
@@ -87,32 +413,107 @@ const Sidebar: React.FC<SidebarProps> = ({
         <div className="relative">
           <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none"> <Search className="h-4 w-4 text-neutral-500" /> </div>
           <input type="text" placeholder="Search chats..." value={searchTerm} onChange={(e) => onSearchTermChange(e.target.value)}
-            className="form-input block w-full pl-9 pr-3 py-1.5 rounded-md border-0 bg-neutral-800 text-neutral-100 placeholder-neutral-500 focus:ring-1 focus:ring-inset focus:ring-sky-500 sm:text-sm"
+            className="form-input block w-full pl-9 pr-9 py-1.5 rounded-md border-0 bg-neutral-800 text-neutral-100 placeholder-neutral-500 focus:ring-1 focus:ring-inset focus:ring-sky-500 sm:text-sm"
           />
+          <button type="button" onClick={() => setShowSearchFilters(!showSearchFilters)} title="Search filters" aria-label="Search filters" aria-expanded={showSearchFilters}
+            className={clsx("absolute inset-y-0 right-0 pr-2.5 pl-1 flex items-center", hasSearchFilters ? "text-sky-400" : "text-neutral-500 hover:text-neutral-200")}>
+            <SlidersHorizontal className="h-4 w-4" />
+          </button>
         </div>
+        {showSearchFilters && <SearchFiltersPanel filters={searchFilters} onChange={setSearchFilters} modelOptions={searchModelOptions} />}
+        {/* View mode and folders */}
+        <div className="flex items-center justify-between px-1">
+          <div className="flex items-center rounded-md bg-neutral-900 p-0.5" role="group" aria-label="Group chats by">
+            {([['date', CalendarDays, 'Group by date'], ['folders', Folder, 'Group by folder']] as const).map(([mode, Icon, label]) => (
+              <button key={mode} type="button" onClick={() => onViewModeChange(mode)} title={label} aria-label={label} aria-pressed={viewMode === mode}
+                className={clsx("p-1 rounded transition-colors", viewMode === mode ? "bg-neutral-700 text-neutral-100" : "text-neutral-500 hover:text-neutral-200")}>
+                <Icon size={14} />
+              </button>
+            ))}
+          </div>
+          <button type="button" onClick={handleCreateFolder} className="p-1 rounded text-neutral-500 hover:text-neutral-100 hover:bg-neutral-800" title="New folder" aria-label="New folder">
+            <FolderPlus size={14} />
+          </button>
+        </div>
+        {allTags.length > 0 && <TagFilterBar tags={allTags} activeTag={activeTag} onChange={setActiveTag} />}
+        {selectedSessionIds.length > 0 && (
+          <BulkActionBar count={selectedSessionIds.length} folders={folders} tagSuggestions={allTags}
+            onMoveToFolder={(folderId) => moveChatsToFolder(selectedSessionIds, folderId)}
+            onAddTag={(tag) => onAddTagToChats(selectedSessionIds, tag)}
+            onExport={(exportFormat) => onExportChats(selectedSessionIds, exportFormat)}
+            onApplySettings={() => onApplyChatSettings(selectedSessionIds)}
+            onDelete={() => onDeleteChats(selectedSessionIds)}
+            onClear={clearSelection}
+          />
+        )}
       </div>
 
       {/* Chat List */}
       <nav className="flex-1 overflow-y-auto px-2 py-1 space-y-1 custom-scrollbar">
-        {sessions.length === 0 && searchTerm && (<p className="text-center text-xs text-neutral-500 mt-4 px-2">No chats match '{searchTerm}'.</p>)}
-        {groupedSessions.length === 0 && !searchTerm && (<p className="text-center text-xs text-neutral-500 mt-4 px-2">No chats yet.</p>)}
-
-        {groupedSessions.map(([groupName, groupSessions]) => (
-          <div key={groupName} className="mb-2">
-            <h3 className="px-3 pt-3 pb-1 text-xs font-semibold text-neutral-500 uppercase tracking-wide select-none"> {groupName} </h3>
-            <div className="space-y-1">
-              {groupSessions.map((session) => (
-                <SidebarItem key={session.id} session={session} isActive={activeSessionId === session.id}
-                  onSelectChat={onSelectChat} onDeleteChat={onDeleteChat} onRenameChat={onRenameChat}
-                />
+        {sessions.length === 0 && searchTerm && !isMessageSearchActive && (<p className="text-center text-xs text-neutral-500 mt-4 px-2">No chats match '{searchTerm}'.</p>)}
+        {sessions.length === 0 && isMessageSearchActive && !isSearching && searchHits.length === 0 && (<p className="text-center text-xs text-neutral-500 mt-4 px-2">Nothing matches '{searchTerm}'.</p>)}
+        {sessions.length === 0 && !searchTerm && (<p className="text-center text-xs text-neutral-500 mt-4 px-2">No chats yet.</p>)}
+
+        {showArchived ? (
+          <div className="mb-2">
+            <button type="button" onClick={toggleArchivedView} className="w-full flex items-center px-2 pt-3 pb-1 text-xs font-semibold text-neutral-500 uppercase tracking-wide hover:text-neutral-200">
+              <ChevronLeft size={14} className="mr-1" /> Archived
+            </button>
+            {archivedSessions.length === 0 && <p className="text-center text-xs text-neutral-500 mt-4 px-2">No archived chats.</p>}
+            <div className="space-y-1">{renderItems(archivedSessions)}</div>
+          </div>
+        ) : (
+          <>
+            {pinnedSessions.length > 0 && (
+              <div className="mb-2">
+                <GroupHeading><Pin size={11} className="mr-1.5" /> Pinned</GroupHeading>
+                <div className="space-y-1">{renderItems(pinnedSessions)}</div>
+              </div>
+            )}
+
+            {viewMode === 'folders' ? (
+              folderGroups.filter(({ folder, sessions: folderSessions }) => folder || folderSessions.length > 0 || folders.length > 0).map(({ folder, sessions: folderSessions }) => (
+                <FolderSection key={folder?.id ?? 'unfiled'} folder={folder} isNew={folder?.id === newFolderId}
+                  isCollapsed={!!folder && collapsedFolderIds.has(folder.id)} onToggleCollapsed={() => folder && toggleFolderCollapsed(folder.id)}
+                  onDropChat={(sessionId) => moveChatsToFolder(selectedIds.has(sessionId) ? selectedSessionIds : [sessionId], folder?.id ?? null)}
+                  onRename={(name) => folder && onRenameFolder(folder.id, name)} onDelete={() => folder && onDeleteFolder(folder.id)}>
+                  {renderItems(folderSessions)}
+                  {folder && folderSessions.length === 0 && <p className="px-3 py-1 text-xs text-neutral-600 select-none">Drop chats here</p>}
+                </FolderSection>
+              ))
+            ) : (
+              groupedSessions.map(([groupName, groupSessions]) => (
+                <div key={groupName} className="mb-2">
+                  <GroupHeading>{groupName}</GroupHeading>
+                  <div className="space-y-1">{renderItems(groupSessions)}</div>
+                </div>
+              ))
+            )}
+          </>
+        )}
+
+        {isMessageSearchActive && (searchHits.length > 0 || isSearching) && (
+          <div className="mb-2">
+            <h3 className="px-3 pt-3 pb-1 text-xs font-semibold text-neutral-500 uppercase tracking-wide select-none flex items-center justify-between">
+              <span>Messages</span>
+              {isSearching ? <Loader2 size={12} className="animate-spin" /> : <span className="font-normal normal-case">{searchHits.length}</span>}
+            </h3>
+            <div className="space-y-0.5">
+              {searchHits.map((hit) => (
+                <SearchHitItem key={`${hit.sessionId}-${hit.messageId}`} hit={hit} query={searchTerm} isArchived={archivedIds.has(hit.sessionId)} onSelect={onSelectSearchHit} />
               ))}
             </div>
           </div>
-        ))}
+        )}
       </nav>
 
       {/* Sidebar Footer */}
       <div className="p-2 border-t border-neutral-800 space-y-1">
+        {(archivedIds.size > 0 || showArchived) && (
+          <button onClick={toggleArchivedView} aria-pressed={showArchived} className={clsx("w-full flex items-center px-3 py-2 text-sm rounded-md hover:bg-neutral-800 hover:text-neutral-100 focus:outline-none focus:ring-1 focus:ring-neutral-500 transition-colors duration-150", showArchived ? "bg-neutral-800 text-neutral-100" : "text-neutral-300")} title="Show archived chats">
+            <Archive className="h-4 w-4 mr-2.5" /> Archived <span className="ml-auto text-xs text-neutral-500">{archivedIds.size}</span>
+          </button>
+        )}
         <button onClick={onOpenSettings} className="w-full flex items-center px-3 py-2 text-sm text-neutral-300 rounded-md hover:bg-neutral-800 hover:text-neutral-100 focus:outline-none focus:ring-1 focus:ring-neutral-500 transition-colors duration-150" title="Open Settings">
           <Settings className="h-4 w-4 mr-2.5" /> Settings
         </button>
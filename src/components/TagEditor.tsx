@@ -0,0 +1,55 @@
+import React, { useState } from "react";
+import { Plus, X } from "lucide-react";
+
+interface TagEditorProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  suggestions: string[]; // Tags used by other chats
+}
+
+// Free-form tags of a chat, shown as chips with an inline input for adding more
+const TagEditor: React.FC<TagEditorProps> = ({ tags, onChange, suggestions }) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [draft, setDraft] = useState('');
+
+  const addTag = () => {
+    const tag = draft.trim();
+    // Case-insensitive duplicates would show up as two filters in the sidebar
+    if (tag && !tags.some(t => t.toLowerCase() === tag.toLowerCase())) onChange([...tags, tag]);
+    setDraft('');
+    setIsAdding(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') { e.preventDefault(); addTag(); }
+    else if (e.key === 'Escape') { setDraft(''); setIsAdding(false); }
+  };
+
+  return (
+    <div className="flex items-center flex-wrap gap-1 min-w-0">
+      {tags.map(tag => (
+        <span key={tag} className="flex items-center pl-1.5 pr-0.5 py-0.5 rounded bg-neutral-800 text-[11px] text-neutral-300">
+          {tag}
+          <button onClick={() => onChange(tags.filter(t => t !== tag))} className="ml-0.5 p-0.5 rounded text-neutral-500 hover:text-neutral-100" aria-label={`Remove tag ${tag}`} title="Remove tag">
+            <X size={10} />
+          </button>
+        </span>
+      ))}
+      {isAdding ? (
+        <>
+          <input autoFocus value={draft} onChange={(e) => setDraft(e.target.value)} onKeyDown={handleKeyDown} onBlur={addTag} list="chat-tag-suggestions"
+            className="w-24 bg-neutral-800 rounded px-1.5 py-0.5 text-[11px] text-neutral-100 border-none focus:ring-1 focus:ring-sky-500" placeholder="Tag name" aria-label="New tag" />
+          <datalist id="chat-tag-suggestions">
+            {suggestions.filter(s => !tags.includes(s)).map(s => <option key={s} value={s} />)}
+          </datalist>
+        </>
+      ) : (
+        <button onClick={() => setIsAdding(true)} className="flex items-center px-1 py-0.5 rounded text-[11px] text-neutral-500 hover:text-neutral-100 hover:bg-neutral-800" title="Add tag">
+          <Plus size={10} className="mr-0.5" /> Tag
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default TagEditor;
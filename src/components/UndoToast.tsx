@@ -0,0 +1,15 @@
+import React from "react";
+import toast from "react-hot-toast";
+
+const UNDO_TOAST_DURATION_MS = 8000;
+
+const UndoToastContent: React.FC<{ message: string; onUndo: () => void }> = ({ message, onUndo }) => (
+  <span className="flex items-center space-x-3">
+    <span>{message}</span>
+    <button onClick={onUndo} className="px-2 py-0.5 text-xs font-medium rounded bg-sky-700 hover:bg-sky-600 text-white transition-colors">Undo</button>
+  </span>
+);
+
+// Notification with an Undo button, which works until the notification goes away
+export const showUndoToast = (message: string, onUndo: () => void) =>
+  toast(t => <UndoToastContent message={message} onUndo={() => { toast.dismiss(t.id); onUndo(); }} />, { duration: UNDO_TOAST_DURATION_MS });
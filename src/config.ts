@@ -1,38 +1,47 @@
-import { AppSettings, ChatSettings } from "./types/chat";
+import { AppSettings, ChatSettings, ContextStrategy } from "./types/chat";
 
 // Define available models - Group by Provider for UI
+// Capabilities and prices (USD per million tokens) as published by each provider; users can override both in Settings
 export const MODEL_PROVIDERS = {
    openai: {
       name: "OpenAI",
       models: [
-         { id: 'gpt-4o-mini', name: 'GPT-4o mini' },
-         { id: 'gpt-4o', name: 'GPT-4o' },
-         { id: 'gpt-4-turbo', name: 'GPT-4 Turbo' },
-         { id: 'gpt-3.5-turbo', name: 'GPT-3.5 Turbo' },
+         { id: 'gpt-4o-mini', name: 'GPT-4o mini', capabilities: { contextWindow: 128000, maxOutputTokens: 16384, vision: true, tools: true }, pricing: { input: 0.15, output: 0.60 } },
+         { id: 'gpt-4o', name: 'GPT-4o', capabilities: { contextWindow: 128000, maxOutputTokens: 16384, vision: true, tools: true }, pricing: { input: 2.50, output: 10.00 } },
+         { id: 'gpt-4-turbo', name: 'GPT-4 Turbo', capabilities: { contextWindow: 128000, maxOutputTokens: 4096, vision: true, tools: true }, pricing: { input: 10.00, output: 30.00 } },
+         { id: 'gpt-3.5-turbo', name: 'GPT-3.5 Turbo', capabilities: { contextWindow: 16385, maxOutputTokens: 4096, vision: false, tools: true }, pricing: { input: 0.50, output: 1.50 } },
       ]
    },
    anthropic: {
       name: "Anthropic",
       models: [
-         { id: 'claude-3-opus-20240229', name: 'Claude 3 Opus' },
-         { id: 'claude-3-sonnet-20240229', name: 'Claude 3 Sonnet' },
-         { id: 'claude-3-haiku-20240307', name: 'Claude 3 Haiku' },
+         { id: 'claude-3-opus-20240229', name: 'Claude 3 Opus', capabilities: { contextWindow: 200000, maxOutputTokens: 4096, vision: true, tools: true }, pricing: { input: 15.00, output: 75.00 } },
+         { id: 'claude-3-sonnet-20240229', name: 'Claude 3 Sonnet', capabilities: { contextWindow: 200000, maxOutputTokens: 4096, vision: true, tools: true }, pricing: { input: 3.00, output: 15.00 } },
+         { id: 'claude-3-haiku-20240307', name: 'Claude 3 Haiku', capabilities: { contextWindow: 200000, maxOutputTokens: 4096, vision: true, tools: true }, pricing: { input: 0.25, output: 1.25 } },
       ]
    },
    groq: {
       name: "Groq",
       models: [
-         { id: 'llama3-8b-8192', name: 'LLaMA3-8b' },
-         { id: 'llama3-70b-8192', name: 'LLaMA3-70b' },
-         { id: 'mixtral-8x7b-32768', name: 'Mixtral-8x7b' },
-         { id: 'gemma-7b-it', name: 'Gemma-7b' },
+         { id: 'llama3-8b-8192', name: 'LLaMA3-8b', capabilities: { contextWindow: 8192, maxOutputTokens: 8192, vision: false, tools: true }, pricing: { input: 0.05, output: 0.08 } },
+         { id: 'llama3-70b-8192', name: 'LLaMA3-70b', capabilities: { contextWindow: 8192, maxOutputTokens: 8192, vision: false, tools: true }, pricing: { input: 0.59, output: 0.79 } },
+         { id: 'mixtral-8x7b-32768', name: 'Mixtral-8x7b', capabilities: { contextWindow: 32768, maxOutputTokens: 32768, vision: false, tools: true }, pricing: { input: 0.24, output: 0.24 } },
+         { id: 'gemma-7b-it', name: 'Gemma-7b', capabilities: { contextWindow: 8192, maxOutputTokens: 8192, vision: false, tools: false }, pricing: { input: 0.07, output: 0.07 } },
+      ]
+   },
+   google: {
+      name: "Google",
+      models: [
+         { id: 'gemini-2.0-flash', name: 'Gemini 2.0 Flash', capabilities: { contextWindow: 1048576, maxOutputTokens: 8192, vision: true, tools: true }, pricing: { input: 0.10, output: 0.40 } },
+         { id: 'gemini-2.0-flash-lite', name: 'Gemini 2.0 Flash-Lite', capabilities: { contextWindow: 1048576, maxOutputTokens: 8192, vision: true, tools: true }, pricing: { input: 0.075, output: 0.30 } },
+         { id: 'gemini-1.5-pro', name: 'Gemini 1.5 Pro', capabilities: { contextWindow: 2097152, maxOutputTokens: 8192, vision: true, tools: true }, pricing: { input: 1.25, output: 5.00 } },
+         { id: 'gemini-1.5-flash', name: 'Gemini 1.5 Flash', capabilities: { contextWindow: 1048576, maxOutputTokens: 8192, vision: true, tools: true }, pricing: { input: 0.075, output: 0.30 } },
       ]
    },
-   // Add other providers like Google (Gemini) etc.
 };
 
 // Helper to get all models flat or find a specific one
-export const getAllModels = () => Object.values(MODEL_PROVIDERS).flatMap(p => p.models.map(m => ({ ...m, provider: p.name.toLowerCase() })));
+export const getAllModels = () => Object.entries(MODEL_PROVIDERS).flatMap(([providerId, p]) => p.models.map(m => ({ ...m, provider: providerId })));
 export const findModelById = (id: string) => getAllModels().find(m => m.id === id);
 export const getProviderIdFromModel = (modelId: string): string | undefined => {
    const model = findModelById(modelId);
@@ -40,6 +49,37 @@ export const getProviderIdFromModel = (modelId: string): string | undefined => {
 };
 export const getProviderForKey = (providerName: string) => providerName.toLowerCase()
 
+// Provider types offered when adding an API configuration
+export const API_PROVIDER_PRESETS: Array<{ id: string; name: string; defaultBaseUrl?: string }> = [
+   { id: 'openai', name: 'OpenAI' },
+   { id: 'anthropic', name: 'Anthropic' },
+   { id: 'groq', name: 'Groq' },
+   { id: 'google', name: 'Google (Gemini)' },
+   { id: 'cohere', name: 'Cohere' },
+   { id: 'ollama', name: 'Ollama (Local)', defaultBaseUrl: 'http://localhost:11434/v1' }, // Suggest default URL
+   { id: 'lmstudio', name: 'LM Studio (Local)', defaultBaseUrl: 'http://localhost:1234/v1' }, // Suggest default URL
+   { id: 'custom', name: 'Custom' },
+];
+
+// Public endpoints used when an ApiProviderConfig has no baseUrl of its own
+export const DEFAULT_PROVIDER_BASE_URLS: Record<string, string> = {
+   openai: 'https://api.openai.com/v1',
+   anthropic: 'https://api.anthropic.com/v1',
+   google: 'https://generativelanguage.googleapis.com/v1beta',
+   groq: 'https://api.groq.com/openai/v1',
+   ollama: 'http://localhost:11434/v1',
+   lmstudio: 'http://localhost:1234/v1',
+};
+
+// Context strategies offered in the settings modals
+export const CONTEXT_STRATEGIES: Array<{ id: ContextStrategy; name: string; description: string }> = [
+   { id: 'all', name: 'Send everything', description: 'The whole conversation is sent with every message.' },
+   { id: 'lastMessages', name: 'Last messages', description: 'Only the most recent messages are sent.' },
+   { id: 'tokenBudget', name: 'Fit a token budget', description: 'The oldest messages are left out until the rest fits the budget.' },
+   { id: 'summarize', name: 'Summarize older messages', description: 'Messages that no longer fit the budget are replaced by a summary, updated as the chat grows.' },
+];
+export const DEFAULT_CONTEXT_MESSAGE_LIMIT = 20;
+
 export const DEFAULT_MODEL_ID = 'gpt-4o-mini'; // Default model
 
 // Define default global chat settings
@@ -55,8 +95,14 @@ export const DEFAULT_APP_SETTINGS: AppSettings = {
    apiProviders: [],
    sendWithEnter: true, // Default to true
    uiDensity: 'comfortable', // Default density
+   chatFolders: [],
+   sidebarViewMode: 'date',
+   autoTitleChats: true,
+   utilityModel: '',
 };
 
 // Local Storage Key for App Settings
 export const APP_SETTINGS_KEY = "ai_chat_app_settings_v1";
-export const ONBOARDING_COMPLETE_KEY = "ai_chat_onboarding_complete_v1";
\ No newline at end of file
+export const ONBOARDING_COMPLETE_KEY = "ai_chat_onboarding_complete_v1";
+export const MODEL_CACHE_KEY = "ai_chat_model_cache_v1"; // Discovered model lists per provider config
+export const USAGE_LEDGER_KEY = "ai_chat_usage_ledger_v1"; // Token usage and spending per day, config and model
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { useCallback } from 'react';
+import toast from 'react-hot-toast';
+import { ApiProviderConfig } from '../types/chat';
+import { testProviderConnection } from '../services/ai';
+
+// Runs a real connection test for a provider config and reports status changes through onUpdate.
+// Shared by SetupPage and the API Providers tab of SettingsModal.
+export const useConnectionTest = (onUpdate: (id: string, changes: Partial<ApiProviderConfig>) => void) =>
+  useCallback(async (config: ApiProviderConfig) => {
+    const toastId = `test-${config.id}`;
+    onUpdate(config.id, { status: 'testing' });
+    toast.loading(`Testing ${config.name}...`, { id: toastId });
+
+    const result = await testProviderConnection(config);
+    onUpdate(config.id, {
+      status: result.ok ? 'valid' : 'invalid',
+      lastTested: new Date(),
+      lastTestError: result.ok ? undefined : result.message,
+    });
+
+    if (result.ok) {
+      toast.success(`${config.name} connection OK!`, { id: toastId });
+    } else {
+      toast.error(`${config.name} failed: ${result.message}`, { id: toastId, duration: 5000 });
+      console.error(`Test failed for ${config.name} (${result.reason}):`, result.message);
+    }
+    return result;
+  }, [onUpdate]);
@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import { MessageSearchFilters, MessageSearchHit, searchMessages } from '../services/sessionStore';
+
+const SEARCH_DEBOUNCE_MS = 250;
+const MIN_QUERY_LENGTH = 2;
+
+// Debounced full-text search over all messages. Replies to older queries are dropped so a
+// slow first search (which builds the backend index) can't overwrite newer results.
+export const useMessageSearch = (query: string, filters: MessageSearchFilters) => {
+  const [hits, setHits] = useState<MessageSearchHit[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const trimmedQuery = query.trim();
+  const filtersKey = JSON.stringify(filters);
+
+  useEffect(() => {
+    if (trimmedQuery.length < MIN_QUERY_LENGTH) {
+      setHits([]);
+      setIsSearching(false);
+      return;
+    }
+    let stale = false;
+    setIsSearching(true);
+    const timer = setTimeout(() => {
+      searchMessages(trimmedQuery, JSON.parse(filtersKey))
+        .then((results) => { if (!stale) setHits(results); })
+        .catch((error) => {
+          console.error("Message search failed:", error);
+          if (!stale) setHits([]);
+        })
+        .finally(() => { if (!stale) setIsSearching(false); });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => { stale = true; clearTimeout(timer); };
+  }, [trimmedQuery, filtersKey]);
+
+  return { hits, isSearching, isActive: trimmedQuery.length >= MIN_QUERY_LENGTH };
+};
@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useRef } from 'react';
+import toast from 'react-hot-toast';
+import { showUndoToast } from '../components/UndoToast';
+
+const MAX_UNDO_ENTRIES = 10;
+
+interface UndoEntry {
+  message: string;
+  undo: () => void;
+  toastId?: string;
+}
+
+// The last few destructive actions, newest last. Each one can be undone from the notification
+// shown when it happens, and Ctrl/Cmd+Z undoes the newest. Text fields with content keep
+// Ctrl+Z for their own undo.
+export const useUndoStack = () => {
+  const entriesRef = useRef<UndoEntry[]>([]);
+
+  const runUndo = useCallback((entry: UndoEntry) => {
+    entriesRef.current = entriesRef.current.filter(e => e !== entry);
+    if (entry.toastId) toast.dismiss(entry.toastId);
+    entry.undo();
+  }, []);
+
+  // `message` says what was done, e.g. "Message deleted"; `undo` reverts it
+  const pushUndo = useCallback((message: string, undo: () => void) => {
+    const entry: UndoEntry = { message, undo };
+    entry.toastId = showUndoToast(message, () => runUndo(entry));
+    entriesRef.current = [...entriesRef.current, entry].slice(-MAX_UNDO_ENTRIES);
+  }, [runUndo]);
+
+  // Returns the undone entry's message, or null if there was nothing to undo
+  const undoLast = useCallback(() => {
+    const entry = entriesRef.current[entriesRef.current.length - 1];
+    if (!entry) return null;
+    runUndo(entry);
+    return entry.message;
+  }, [runUndo]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.shiftKey || e.altKey || e.key.toLowerCase() !== 'z') return;
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable) return;
+      if ((target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement) && target.value !== '') return;
+      const undone = undoLast();
+      if (undone) {
+        e.preventDefault();
+        toast.success(`Undone: ${undone}`);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undoLast]);
+
+  return { pushUndo, undoLast };
+};
@@ -0,0 +1,180 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { ApiProviderConfig, ChatMessage, ChatSettings } from '../../types/chat';
+import { ProviderServer, sendEventStream, sendJson, startProviderServer } from '../../test/providerServer';
+import { saveProvider, storedProviders } from '../../test/tauriBackend';
+import { anthropicClient } from './anthropic';
+import { ChatRequest, ProviderError } from './types';
+
+vi.mock('@tauri-apps/api/core', () => import('../../test/tauriBackend'));
+vi.mock('@tauri-apps/api/event', () => import('../../test/tauriBackend'));
+
+let server: ProviderServer;
+beforeAll(async () => { server = await startProviderServer(); });
+afterAll(() => server.close());
+afterEach(() => {
+  server.requests.length = 0;
+  storedProviders.clear();
+});
+
+const message = (role: ChatMessage['role'], content: string, extra: Partial<ChatMessage> = {}): ChatMessage =>
+  ({ id: `${role}-${content}`, role, content, timestamp: new Date(0), ...extra });
+
+const makeRequest = (settings: Partial<ChatSettings> = {}, provider: Partial<ApiProviderConfig> = {}): ChatRequest => ({
+  messages: [message('user', 'Hi'), message('assistant', 'Hello!'), message('user', 'How are you?')],
+  settings: { model: 'claude-sonnet-4-5', temperature: 0.7, ...settings },
+  provider: { id: 'config-1', providerId: 'anthropic', name: 'Anthropic', apiKey: '', status: 'unknown', baseUrl: server.baseUrl, ...provider },
+});
+
+const reply = (text: string) => ({
+  id: 'msg_1', type: 'message', role: 'assistant',
+  content: [{ type: 'text', text }],
+  usage: { input_tokens: 20, output_tokens: 4 },
+});
+
+// Anthropic names every event and repeats the name as `type` in its data
+const streamEvents = (...payloads: Array<{ type: string } & Record<string, unknown>>) =>
+  payloads.map(p => `event: ${p.type}\ndata: ${JSON.stringify(p)}\n\n`);
+const textDelta = (text: string) => ({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text } });
+
+describe('anthropicClient request', () => {
+  it('posts to /messages with the version header, the stored key and the system prompt hoisted out of the messages', async () => {
+    saveProvider(makeRequest().provider, 'sk-ant-test');
+    server.setHandler((_, res) => sendJson(res, 200, reply('Fine')));
+
+    await anthropicClient.sendChat(makeRequest({ systemPrompt: 'Be brief.', maxTokens: 512 }));
+
+    const [request] = server.requests;
+    expect(request.method).toBe('POST');
+    expect(request.path).toBe('/v1/messages');
+    expect(request.headers['anthropic-version']).toBe('2023-06-01');
+    expect(request.headers['x-api-key']).toBe('sk-ant-test');
+    expect(request.headers.authorization).toBeUndefined();
+    expect(request.body).toEqual({
+      model: 'claude-sonnet-4-5',
+      system: 'Be brief.',
+      messages: [
+        { role: 'user', content: 'Hi' },
+        { role: 'assistant', content: 'Hello!' },
+        { role: 'user', content: 'How are you?' },
+      ],
+      max_tokens: 512,
+      temperature: 0.7,
+      stream: false,
+    });
+  });
+
+  it('always sends max_tokens', async () => {
+    server.setHandler((_, res) => sendJson(res, 200, reply('Fine')));
+
+    await anthropicClient.sendChat(makeRequest());
+
+    expect(server.requests[0].body.max_tokens).toBeGreaterThan(0);
+    expect(server.requests[0].body).not.toHaveProperty('system');
+  });
+
+  it('sends top_p instead of temperature when Top P is set', async () => {
+    server.setHandler((_, res) => sendJson(res, 200, reply('Fine')));
+
+    await anthropicClient.sendChat(makeRequest({ temperature: 0.5, topP: 0.8 }));
+
+    expect(server.requests[0].body.top_p).toBe(0.8);
+    expect(server.requests[0].body).not.toHaveProperty('temperature');
+  });
+
+  it('caps the temperature at 1', async () => {
+    server.setHandler((_, res) => sendJson(res, 200, reply('Fine')));
+
+    await anthropicClient.sendChat(makeRequest({ temperature: 1.6 }));
+
+    expect(server.requests[0].body.temperature).toBe(1);
+  });
+
+  it('sends alternating turns that start with the user, without error bubbles', async () => {
+    server.setHandler((_, res) => sendJson(res, 200, reply('Fine')));
+    const messages = [
+      message('assistant', 'Welcome'),
+      message('user', 'One'),
+      message('user', 'Two'),
+      message('assistant', 'Error: overloaded', { isError: true }),
+      message('assistant', 'Answer'),
+    ];
+
+    await anthropicClient.sendChat({ ...makeRequest(), messages });
+
+    expect(server.requests[0].body.messages).toEqual([
+      { role: 'user', content: 'One\n\nTwo' },
+      { role: 'assistant', content: 'Answer' },
+    ]);
+  });
+});
+
+describe('anthropicClient.sendChat', () => {
+  it('joins the text blocks and reads usage, cached prompt tokens included', async () => {
+    server.setHandler((_, res) => sendJson(res, 200, {
+      ...reply(''),
+      content: [{ type: 'text', text: 'Hello' }, { type: 'tool_use', id: 't', name: 'x', input: {} }, { type: 'text', text: ' there' }],
+      usage: { input_tokens: 10, cache_read_input_tokens: 5, cache_creation_input_tokens: 2, output_tokens: 3 },
+    }));
+
+    await expect(anthropicClient.sendChat(makeRequest())).resolves.toEqual({
+      content: 'Hello there',
+      usage: { promptTokens: 17, completionTokens: 3 },
+    });
+  });
+});
+
+describe('anthropicClient.streamChat', () => {
+  it('streams content_block_delta text and takes usage from message_start and message_delta', async () => {
+    server.setHandler((_, res) => sendEventStream(res, streamEvents(
+      { type: 'message_start', message: { ...reply(''), content: [], usage: { input_tokens: 25, output_tokens: 1 } } },
+      { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+      { type: 'ping' },
+      textDelta('Hello'),
+      textDelta(', world'),
+      { type: 'content_block_stop', index: 0 },
+      { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 7 } },
+      { type: 'message_stop' },
+    )));
+    const deltas: string[] = [];
+
+    const result = await anthropicClient.streamChat(makeRequest(), d => deltas.push(d));
+
+    expect(server.requests[0].body.stream).toBe(true);
+    expect(deltas).toEqual(['Hello', ', world']);
+    expect(result).toEqual({ content: 'Hello, world', usage: { promptTokens: 25, completionTokens: 7 } });
+  });
+
+  it('ignores deltas that are not text', async () => {
+    server.setHandler((_, res) => sendEventStream(res, streamEvents(
+      { type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: 'Hmm' } },
+      textDelta('Answer'),
+    )));
+
+    const result = await anthropicClient.streamChat(makeRequest(), () => { });
+
+    expect(result.content).toBe('Answer');
+  });
+
+  it('fails on an error event, keeping the text streamed before it', async () => {
+    server.setHandler((_, res) => sendEventStream(res, streamEvents(
+      textDelta('Part'),
+      { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } },
+      textDelta('never delivered'),
+    )));
+    const deltas: string[] = [];
+
+    const error = await anthropicClient.streamChat(makeRequest(), d => deltas.push(d)).catch(e => e);
+
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error.message).toBe('overloaded_error: Overloaded');
+    expect(deltas).toEqual(['Part']);
+  });
+});
+
+describe('anthropicClient errors', () => {
+  it('maps an HTTP error body to its message and status', async () => {
+    server.setHandler((_, res) => sendJson(res, 400, { type: 'error', error: { type: 'invalid_request_error', message: 'max_tokens: Field required' } }));
+
+    await expect(anthropicClient.sendChat(makeRequest())).rejects.toMatchObject({ message: '400: max_tokens: Field required', status: 400, kind: 'http' });
+  });
+});
@@ -0,0 +1,91 @@
+import { TokenUsage } from '../../types/chat';
+import { ConversationTurn, toAlternatingTurns } from './history';
+import { sendProviderRequest, streamProviderRequest } from './http';
+import { ChatProviderClient, ChatRequest, ProviderError } from './types';
+
+// Client for Anthropic's native Messages API (`/v1/messages`)
+
+const ANTHROPIC_VERSION = '2023-06-01';
+const DEFAULT_MAX_TOKENS = 4096; // Messages API requires max_tokens on every request
+
+// Images go before the text, as Anthropic recommends
+const toAnthropicMessage = ({ role, content, images }: ConversationTurn) => ({
+  role,
+  content: images.length === 0 ? content : [
+    ...images.map(image => ({ type: 'image', source: { type: 'base64', media_type: image.mimeType, data: image.data } })),
+    ...(content ? [{ type: 'text', text: content }] : []),
+  ],
+});
+
+const buildRequestBody = ({ messages, settings, supportsImages = false }: ChatRequest, stream = false) => ({
+  model: settings.model,
+  messages: toAlternatingTurns(messages, supportsImages).map(toAnthropicMessage),
+  max_tokens: settings.maxTokens || DEFAULT_MAX_TOKENS,
+  // Current models reject temperature and top_p together, so a Top P setting replaces the temperature.
+  // Anthropic's temperature only goes up to 1.
+  ...(settings.topP !== undefined ? { top_p: settings.topP } : { temperature: Math.min(settings.temperature, 1) }),
+  ...(settings.systemPrompt?.trim() ? { system: settings.systemPrompt } : {}),
+  stream,
+});
+
+const headers = { 'anthropic-version': ANTHROPIC_VERSION }; // x-api-key is added by the backend
+
+// Cached prompt tokens are reported apart from the rest
+const readUsage = (usage: any): TokenUsage | undefined =>
+  typeof usage?.input_tokens === 'number'
+    ? {
+      promptTokens: usage.input_tokens + (usage.cache_creation_input_tokens ?? 0) + (usage.cache_read_input_tokens ?? 0),
+      completionTokens: usage.output_tokens ?? 0,
+    }
+    : undefined;
+
+// Error payloads look like { type: 'error', error: { type: 'overloaded_error', message: '...' } }
+const toProviderError = (payload: any) =>
+  new ProviderError(`${payload?.error?.type ?? 'error'}: ${payload?.error?.message ?? 'Unknown Anthropic error'}`);
+
+export const anthropicClient: ChatProviderClient = {
+  sendChat: async (request) => {
+    const data = await sendProviderRequest({
+      provider: request.provider, path: '/messages', headers, body: buildRequestBody(request), signal: request.signal,
+    });
+    if (data?.type === 'error') throw toProviderError(data);
+    if (!Array.isArray(data?.content)) {
+      throw new ProviderError('Anthropic response did not contain a message.');
+    }
+    const content = data.content
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+    return { content, usage: readUsage(data.usage) };
+  },
+
+  streamChat: async (request, onDelta) => {
+    let content = '';
+    let usage: TokenUsage | undefined;
+    await streamProviderRequest({
+      provider: request.provider, path: '/messages', headers, body: buildRequestBody(request, true), signal: request.signal,
+    }, ({ event, data }) => {
+      const payload = JSON.parse(data);
+      switch (event ?? payload?.type) {
+        case 'content_block_delta':
+          if (payload.delta?.type === 'text_delta' && payload.delta.text) {
+            content += payload.delta.text;
+            onDelta(payload.delta.text);
+          }
+          break;
+        case 'message_start': // Prompt tokens
+          usage = readUsage(payload.message?.usage) ?? usage;
+          break;
+        case 'message_delta': // Final output token count
+          if (usage && typeof payload.usage?.output_tokens === 'number') usage = { ...usage, completionTokens: payload.usage.output_tokens };
+          break;
+        case 'error':
+          throw toProviderError(payload);
+        default:
+          // content_block_start/stop, message_stop and ping carry no text
+          break;
+      }
+    });
+    return { content, usage };
+  },
+};
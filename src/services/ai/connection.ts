@@ -0,0 +1,60 @@
+import { ApiProviderConfig } from '../../types/chat';
+import { resolveBaseUrl, sendProviderRequest } from './http';
+import { ProviderError } from './types';
+
+// Cheap "is this configuration usable?" check: list the provider's models.
+// Every supported protocol exposes GET {baseUrl}/models and it costs no tokens.
+
+export type ConnectionFailureReason = 'invalid_key' | 'unreachable' | 'wrong_path' | 'tls' | 'http_error' | 'config';
+
+export interface ConnectionTestResult {
+  ok: boolean;
+  reason?: ConnectionFailureReason;
+  message: string;
+}
+
+const requestHeaders = (providerId: string): Record<string, string> =>
+  providerId === 'anthropic' ? { 'anthropic-version': '2023-06-01' } : {};
+
+const describeFailure = (error: unknown, baseUrl: string): ConnectionTestResult => {
+  if (!(error instanceof ProviderError)) {
+    return { ok: false, reason: 'config', message: (error as Error)?.message ?? String(error) };
+  }
+  switch (error.kind) {
+    case 'http':
+      if (error.status === 401 || error.status === 403) {
+        return { ok: false, reason: 'invalid_key', message: `API key was rejected (HTTP ${error.status}).` };
+      }
+      if (error.status === 404 || error.status === 405) {
+        return { ok: false, reason: 'wrong_path', message: `${baseUrl}/models was not found. Check the base URL path (e.g. a missing /v1).` };
+      }
+      return { ok: false, reason: 'http_error', message: error.message };
+    case 'connect':
+    case 'timeout':
+      return { ok: false, reason: 'unreachable', message: `Could not reach ${baseUrl}. Is the server running and the URL correct?` };
+    case 'tls':
+      return { ok: false, reason: 'tls', message: `TLS/certificate error talking to ${baseUrl}: ${error.message}` };
+    case 'config':
+      return { ok: false, reason: 'config', message: error.message };
+    default:
+      // A 2xx reply that isn't JSON usually means the URL points at a web page, not the API
+      return error.status
+        ? { ok: false, reason: 'wrong_path', message: `${baseUrl}/models did not return an API response. Check the base URL path.` }
+        : { ok: false, reason: 'http_error', message: error.message };
+  }
+};
+
+export const testProviderConnection = async (provider: ApiProviderConfig): Promise<ConnectionTestResult> => {
+  let baseUrl: string;
+  try {
+    baseUrl = resolveBaseUrl(provider);
+  } catch (error) {
+    return describeFailure(error, '');
+  }
+  try {
+    await sendProviderRequest({ provider, path: '/models', method: 'GET', headers: requestHeaders(provider.providerId) });
+    return { ok: true, message: 'Connection OK' };
+  } catch (error) {
+    return describeFailure(error, baseUrl);
+  }
+};
@@ -0,0 +1,146 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { ApiProviderConfig, ChatMessage, ChatSettings } from '../../types/chat';
+import { ProviderServer, sendEventStream, sendJson, startProviderServer } from '../../test/providerServer';
+import { saveProvider, storedProviders } from '../../test/tauriBackend';
+import { geminiClient } from './gemini';
+import { ChatRequest, ProviderError } from './types';
+
+vi.mock('@tauri-apps/api/core', () => import('../../test/tauriBackend'));
+vi.mock('@tauri-apps/api/event', () => import('../../test/tauriBackend'));
+
+let server: ProviderServer;
+beforeAll(async () => { server = await startProviderServer(); });
+afterAll(() => server.close());
+afterEach(() => {
+  server.requests.length = 0;
+  storedProviders.clear();
+});
+
+const message = (role: ChatMessage['role'], content: string, extra: Partial<ChatMessage> = {}): ChatMessage =>
+  ({ id: `${role}-${content}`, role, content, timestamp: new Date(0), ...extra });
+
+const makeRequest = (settings: Partial<ChatSettings> = {}, provider: Partial<ApiProviderConfig> = {}): ChatRequest => ({
+  messages: [message('user', 'Hi'), message('assistant', 'Hello!'), message('user', 'How are you?')],
+  settings: { model: 'gemini-2.5-flash', temperature: 0.7, ...settings },
+  provider: { id: 'config-1', providerId: 'google', name: 'Gemini', apiKey: '', status: 'unknown', baseUrl: server.baseUrl, ...provider },
+});
+
+const candidate = (text: string) => ({ content: { role: 'model', parts: [{ text }] } });
+const reply = (text: string) => ({
+  candidates: [{ ...candidate(text), finishReason: 'STOP' }],
+  usageMetadata: { promptTokenCount: 9, candidatesTokenCount: 2 },
+});
+
+// One `data:` event per chunk, as `?alt=sse` streams them
+const streamEvents = (...payloads: unknown[]) => payloads.map(p => `data: ${JSON.stringify(p)}\r\n\r\n`);
+
+describe('geminiClient request', () => {
+  it('posts to :generateContent with the stored key, model turns and the system instruction', async () => {
+    saveProvider(makeRequest().provider, 'goog-test');
+    server.setHandler((_, res) => sendJson(res, 200, reply('Fine')));
+
+    await geminiClient.sendChat(makeRequest({ systemPrompt: 'Be brief.', maxTokens: 256, topP: 0.9 }));
+
+    const [request] = server.requests;
+    expect(request.method).toBe('POST');
+    expect(request.path).toBe('/v1/models/gemini-2.5-flash:generateContent');
+    expect(request.headers['x-goog-api-key']).toBe('goog-test');
+    expect(request.headers.authorization).toBeUndefined();
+    expect(request.body).toEqual({
+      contents: [
+        { role: 'user', parts: [{ text: 'Hi' }] },
+        { role: 'model', parts: [{ text: 'Hello!' }] },
+        { role: 'user', parts: [{ text: 'How are you?' }] },
+      ],
+      systemInstruction: { parts: [{ text: 'Be brief.' }] },
+      generationConfig: { temperature: 0.7, maxOutputTokens: 256, topP: 0.9 },
+    });
+  });
+
+  it('leaves out the system instruction and optional generation settings when they are not set', async () => {
+    server.setHandler((_, res) => sendJson(res, 200, reply('Fine')));
+
+    await geminiClient.sendChat(makeRequest({ systemPrompt: '  ' }));
+
+    expect(server.requests[0].body).not.toHaveProperty('systemInstruction');
+    expect(server.requests[0].body.generationConfig).toEqual({ temperature: 0.7 });
+  });
+
+  it('sends images as inlineData parts when the model supports images', async () => {
+    server.setHandler((_, res) => sendJson(res, 200, reply('A cat')));
+    const image = { id: 'img', name: 'cat.png', kind: 'image' as const, mimeType: 'image/png', size: 3, dataUrl: 'data:image/png;base64,AAA' };
+    const request = { ...makeRequest(), messages: [message('user', 'What is this?', { attachments: [image] })], supportsImages: true };
+
+    await geminiClient.sendChat(request);
+
+    expect(server.requests[0].body.contents).toEqual([
+      { role: 'user', parts: [{ text: 'What is this?' }, { inlineData: { mimeType: 'image/png', data: 'AAA' } }] },
+    ]);
+  });
+});
+
+describe('geminiClient.sendChat', () => {
+  it('joins the parts of the first candidate and counts thinking tokens as output', async () => {
+    server.setHandler((_, res) => sendJson(res, 200, {
+      candidates: [{ content: { role: 'model', parts: [{ text: 'Hello' }, { text: ' there' }] } }, candidate('Other')],
+      usageMetadata: { promptTokenCount: 12, candidatesTokenCount: 3, thoughtsTokenCount: 40 },
+    }));
+
+    await expect(geminiClient.sendChat(makeRequest())).resolves.toEqual({
+      content: 'Hello there',
+      usage: { promptTokens: 12, completionTokens: 43 },
+    });
+  });
+
+  it('surfaces a blocked prompt as an error', async () => {
+    server.setHandler((_, res) => sendJson(res, 200, { promptFeedback: { blockReason: 'SAFETY' } }));
+
+    await expect(geminiClient.sendChat(makeRequest())).rejects.toThrow('Prompt blocked by Gemini (SAFETY).');
+  });
+
+  it('rejects a reply without a candidate', async () => {
+    server.setHandler((_, res) => sendJson(res, 200, {}));
+
+    await expect(geminiClient.sendChat(makeRequest())).rejects.toThrow('Gemini response did not contain a candidate.');
+  });
+});
+
+describe('geminiClient.streamChat', () => {
+  it('streams from :streamGenerateContent?alt=sse and keeps the last usage metadata', async () => {
+    server.setHandler((_, res) => sendEventStream(res, streamEvents(
+      { candidates: [candidate('Hello')], usageMetadata: { promptTokenCount: 30, candidatesTokenCount: 1 } },
+      { candidates: [candidate(', world')], usageMetadata: { promptTokenCount: 30, candidatesTokenCount: 4 } },
+      { candidates: [{ content: { role: 'model', parts: [] }, finishReason: 'STOP' }], usageMetadata: { promptTokenCount: 30, candidatesTokenCount: 5, thoughtsTokenCount: 2 } },
+    )));
+    const deltas: string[] = [];
+
+    const result = await geminiClient.streamChat(makeRequest(), d => deltas.push(d));
+
+    expect(server.requests[0].path).toBe('/v1/models/gemini-2.5-flash:streamGenerateContent?alt=sse');
+    expect(server.requests[0].body.contents[1].role).toBe('model');
+    expect(deltas).toEqual(['Hello', ', world']);
+    expect(result).toEqual({ content: 'Hello, world', usage: { promptTokens: 30, completionTokens: 7 } });
+  });
+
+  it('fails when a chunk is blocked by the safety filters, keeping the text streamed before it', async () => {
+    server.setHandler((_, res) => sendEventStream(res, streamEvents(
+      { candidates: [candidate('Part')] },
+      { candidates: [{ content: { role: 'model', parts: [] }, finishReason: 'SAFETY' }] },
+    )));
+    const deltas: string[] = [];
+
+    const error = await geminiClient.streamChat(makeRequest(), d => deltas.push(d)).catch(e => e);
+
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error.message).toBe('Response blocked by Gemini safety filters.');
+    expect(deltas).toEqual(['Part']);
+  });
+});
+
+describe('geminiClient errors', () => {
+  it('maps an HTTP error body to its message and status', async () => {
+    server.setHandler((_, res) => sendJson(res, 400, { error: { code: 400, message: 'API key not valid.', status: 'INVALID_ARGUMENT' } }));
+
+    await expect(geminiClient.sendChat(makeRequest())).rejects.toMatchObject({ message: '400: API key not valid.', status: 400, kind: 'http' });
+  });
+});
@@ -0,0 +1,77 @@
+import { TokenUsage } from '../../types/chat';
+import { toAlternatingTurns } from './history';
+import { sendProviderRequest, streamProviderRequest } from './http';
+import { ChatProviderClient, ChatRequest, ProviderError } from './types';
+
+// Client for Google's Gemini API (`models/{model}:generateContent` / `:streamGenerateContent`)
+
+const buildRequestBody = ({ messages, settings, supportsImages = false }: ChatRequest) => ({
+  contents: toAlternatingTurns(messages, supportsImages).map(turn => ({
+    role: turn.role === 'assistant' ? 'model' : 'user', // Gemini calls the assistant "model"
+    parts: [
+      ...(turn.content ? [{ text: turn.content }] : []),
+      ...turn.images.map(image => ({ inlineData: { mimeType: image.mimeType, data: image.data } })),
+    ],
+  })),
+  ...(settings.systemPrompt?.trim() ? { systemInstruction: { parts: [{ text: settings.systemPrompt }] } } : {}),
+  generationConfig: {
+    temperature: settings.temperature,
+    ...(settings.maxTokens ? { maxOutputTokens: settings.maxTokens } : {}),
+    ...(settings.topP !== undefined ? { topP: settings.topP } : {}),
+  },
+});
+
+// The API key travels as x-goog-api-key, added by the backend
+const modelPath = (request: ChatRequest, method: string) =>
+  `/models/${encodeURIComponent(request.settings.model)}:${method}`;
+
+// Extract the text of the first candidate, surfacing safety blocks as errors
+const readCandidateText = (payload: any): string => {
+  if (payload?.error) throw new ProviderError(payload.error.message ?? 'Gemini error');
+  if (payload?.promptFeedback?.blockReason) {
+    throw new ProviderError(`Prompt blocked by Gemini (${payload.promptFeedback.blockReason}).`);
+  }
+  const candidate = payload?.candidates?.[0];
+  const text = (candidate?.content?.parts ?? []).map((part: any) => part.text ?? '').join('');
+  if (!text && candidate?.finishReason === 'SAFETY') {
+    throw new ProviderError('Response blocked by Gemini safety filters.');
+  }
+  return text;
+};
+
+// Every streamed chunk carries the usage so far; thinking tokens are billed as output
+const readUsage = (payload: any): TokenUsage | undefined => {
+  const metadata = payload?.usageMetadata;
+  return typeof metadata?.promptTokenCount === 'number'
+    ? { promptTokens: metadata.promptTokenCount, completionTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0) }
+    : undefined;
+};
+
+export const geminiClient: ChatProviderClient = {
+  sendChat: async (request) => {
+    const data = await sendProviderRequest({
+      provider: request.provider, path: modelPath(request, 'generateContent'), body: buildRequestBody(request), signal: request.signal,
+    });
+    if (!data?.candidates?.length && !data?.promptFeedback) {
+      throw new ProviderError('Gemini response did not contain a candidate.');
+    }
+    return { content: readCandidateText(data), usage: readUsage(data) };
+  },
+
+  streamChat: async (request, onDelta) => {
+    let content = '';
+    let usage: TokenUsage | undefined;
+    await streamProviderRequest({
+      provider: request.provider, path: `${modelPath(request, 'streamGenerateContent')}?alt=sse`, body: buildRequestBody(request), signal: request.signal,
+    }, ({ data }) => {
+      const payload = JSON.parse(data);
+      usage = readUsage(payload) ?? usage;
+      const delta = readCandidateText(payload);
+      if (delta) {
+        content += delta;
+        onDelta(delta);
+      }
+    });
+    return { content, usage };
+  },
+};
@@ -0,0 +1,73 @@
+import { ChatAttachment, ChatMessage } from '../../types/chat';
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  images: InlineImage[];
+}
+
+// An image attachment split into the parts provider APIs ask for
+export interface InlineImage {
+  mimeType: string;
+  data: string; // Base64, without the data: prefix
+  dataUrl: string;
+}
+
+const toInlineImage = ({ dataUrl }: ChatAttachment): InlineImage | null => {
+  const match = /^data:([^;,]+);base64,(.*)$/s.exec(dataUrl ?? '');
+  return match ? { mimeType: match[1], data: match[2], dataUrl: dataUrl! } : null;
+};
+
+// Fence that can't be closed by backticks inside the file
+const fenceFor = (text: string) => '`'.repeat(Math.max(3, ...(text.match(/`+/g) ?? []).map(run => run.length + 1)));
+
+const formatAttachment = (attachment: ChatAttachment, supportsImages: boolean): string | null => {
+  if (attachment.kind === 'image') {
+    return supportsImages ? null : `[Image attached: ${attachment.name} (not shown, this model doesn't accept images)]`;
+  }
+  const text = attachment.text ?? '';
+  const fence = fenceFor(text);
+  const language = attachment.kind !== 'pdf' && attachment.name.includes('.') ? attachment.name.split('.').pop()!.toLowerCase() : '';
+  const header = attachment.kind === 'pdf' ? `File: ${attachment.name} (text extracted from PDF)` : `File: ${attachment.name}`;
+  return `${header}\n${fence}${language}\n${text}\n${fence}`;
+};
+
+// A message's text as sent to a model: what the user typed, followed by every attached text
+// file and PDF under a header with its file name. Images are sent as separate content parts
+// when the model accepts them, and only mentioned otherwise.
+export const messageText = (message: ChatMessage, supportsImages: boolean): string =>
+  [message.content, ...(message.attachments ?? []).map(a => formatAttachment(a, supportsImages))]
+    .filter((part): part is string => !!part && !!part.trim())
+    .join('\n\n');
+
+export const messageImages = (message: ChatMessage, supportsImages: boolean): InlineImage[] =>
+  supportsImages
+    ? (message.attachments ?? []).filter(a => a.kind === 'image').map(toInlineImage).filter((image): image is InlineImage => image !== null)
+    : [];
+
+// Anthropic and Gemini want strictly alternating turns that start with the user,
+// so merge consecutive same-role messages and drop any leading assistant turns.
+// Error/indicator bubbles are skipped, they were never part of the conversation.
+export const toAlternatingTurns = (messages: ChatMessage[], supportsImages = false): ConversationTurn[] => {
+  const turns: ConversationTurn[] = [];
+  messages
+    .filter(m => !m.isError && (m.content.trim() || m.attachments?.length))
+    .forEach(m => {
+      const content = messageText(m, supportsImages);
+      const images = messageImages(m, supportsImages);
+      const last = turns[turns.length - 1];
+      if (last && last.role === m.role) {
+        last.content += `\n\n${content}`;
+        last.images.push(...images);
+      } else if (turns.length > 0 || m.role === 'user') {
+        turns.push({ role: m.role, content, images });
+      }
+    });
+  return turns;
+};
+
+// For models without a system role: the system prompt goes in front of the first user message
+export const inlineSystemPrompt = (messages: ChatMessage[], systemPrompt: string): ChatMessage[] => {
+  const firstUserIndex = messages.findIndex(m => m.role === 'user' && !m.isError);
+  return messages.map((m, i) => (i === firstUserIndex ? { ...m, content: `${systemPrompt}\n\n${m.content}` } : m));
+};
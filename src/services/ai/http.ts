@@ -0,0 +1,143 @@
+import { invoke } from '@tauri-apps/api/core';
+import { listen } from '@tauri-apps/api/event';
+import { v4 as uuidv4 } from 'uuid';
+import { ApiProviderConfig } from '../../types/chat';
+import { DEFAULT_PROVIDER_BASE_URLS } from '../../config';
+import { createEventStreamParser, StreamEvent } from './sse';
+import { ProviderError, ProviderErrorKind } from './types';
+
+// Provider HTTP calls go through the `provider_request` Tauri command (src-tauri/src/ai.rs).
+// The backend adds the decrypted API key of the saved configuration, so adapters only describe
+// URL, headers and body, and keys never travel with a request. The backend only sends a key to
+// the base URL its configuration was saved with (an edited one has to be saved first).
+
+export interface ProviderHttpRequest {
+  provider: ApiProviderConfig;
+  path: string; // Appended to the provider's base URL, e.g. '/chat/completions'
+  method?: 'GET' | 'POST';
+  headers?: Record<string, string>; // Non-secret headers only, auth is added by the backend
+  body?: unknown;
+  signal?: AbortSignal;
+}
+
+// Error shape returned by the backend command
+interface BackendProviderError {
+  kind: ProviderErrorKind | 'cancelled';
+  message: string;
+  status?: number;
+  body?: string;
+}
+
+interface BackendProviderResponse {
+  status: number;
+  body: string;
+}
+
+interface StreamChunkPayload {
+  requestId: string;
+  chunk: string;
+  done: boolean;
+}
+
+const STREAM_EVENT = 'provider-stream';
+
+// Resolve the base URL for a provider config, falling back to the provider's public endpoint
+export const resolveBaseUrl = (provider: ApiProviderConfig): string => {
+  const baseUrl = provider.baseUrl?.trim() || DEFAULT_PROVIDER_BASE_URLS[provider.providerId];
+  if (!baseUrl) {
+    throw new ProviderError(`No base URL configured for "${provider.name}".`, undefined, 'config');
+  }
+  return baseUrl.replace(/\/+$/, '');
+};
+
+// Pull a human readable message out of an error body (OpenAI, Anthropic, Gemini and Ollama shapes)
+const describeHttpError = (status: number, body = ''): string => {
+  try {
+    const data = JSON.parse(body);
+    const message = data?.error?.message ?? (typeof data?.error === 'string' ? data.error : undefined) ?? data?.message;
+    if (message) return `${status}: ${message}`;
+  } catch {
+    // Not JSON, fall through to the raw body
+  }
+  return `HTTP ${status}${body ? `: ${body.slice(0, 200)}` : ''}`;
+};
+
+const abortError = () => new DOMException('Aborted', 'AbortError');
+
+// Cancellations become AbortErrors so callers can tell a user stop apart from a failure
+const toError = (error: unknown): Error => {
+  if (typeof error === 'string') return new ProviderError(error);
+  const backendError = error as BackendProviderError;
+  if (backendError?.kind === 'cancelled') return abortError();
+  if (backendError?.kind === 'http') {
+    return new ProviderError(describeHttpError(backendError.status ?? 0, backendError.body), backendError.status);
+  }
+  return new ProviderError(backendError?.message ?? String(error), undefined, backendError?.kind ?? 'other');
+};
+
+const runRequest = async (request: ProviderHttpRequest, requestId: string, stream: boolean) => {
+  if (request.signal?.aborted) throw abortError();
+  const onAbort = () => { invoke('cancel_provider_request', { requestId }).catch(() => { }); };
+  request.signal?.addEventListener('abort', onAbort);
+  try {
+    return await invoke<BackendProviderResponse>('provider_request', {
+      request: {
+        requestId,
+        providerConfigId: request.provider.id,
+        url: `${resolveBaseUrl(request.provider)}${request.path}`,
+        method: request.method ?? 'POST',
+        headers: request.headers ?? {},
+        body: request.body ?? null,
+        stream,
+      },
+    });
+  } catch (error) {
+    throw toError(error);
+  } finally {
+    request.signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+// Send a request and parse the JSON reply
+export const sendProviderRequest = async <T = any>(request: ProviderHttpRequest): Promise<T> => {
+  const response = await runRequest(request, uuidv4(), false);
+  try {
+    return JSON.parse(response.body) as T;
+  } catch {
+    throw new ProviderError('Provider returned an invalid JSON response.', response.status, 'other');
+  }
+};
+
+// Send a request whose reply is an event stream, calling onEvent for every server-sent event
+export const streamProviderRequest = async (request: ProviderHttpRequest, onEvent: (event: StreamEvent) => void) => {
+  const requestId = uuidv4();
+  const parser = createEventStreamParser(onEvent);
+  let handlerError: unknown = null; // An adapter throwing mid-stream (e.g. a provider error event)
+  let resolveDone = () => { };
+  const done = new Promise<void>(resolve => { resolveDone = resolve; });
+
+  const unlisten = await listen<StreamChunkPayload>(STREAM_EVENT, ({ payload }) => {
+    if (payload.requestId !== requestId || handlerError) return;
+    try {
+      if (payload.chunk) parser.push(payload.chunk);
+      if (payload.done) {
+        parser.end();
+        resolveDone();
+      }
+    } catch (error) {
+      handlerError = error;
+      invoke('cancel_provider_request', { requestId }).catch(() => { });
+      resolveDone();
+    }
+  });
+
+  try {
+    await runRequest(request, requestId, true);
+    await done; // Events can trail the command's reply, wait for the final chunk
+  } catch (error) {
+    throw handlerError ?? error;
+  } finally {
+    unlisten();
+  }
+  if (handlerError) throw handlerError;
+};
@@ -0,0 +1,24 @@
+import { anthropicClient } from './anthropic';
+import { geminiClient } from './gemini';
+import { openAICompatibleClient } from './openaiCompatible';
+import { ChatProviderClient } from './types';
+
+export * from './types';
+export { testProviderConnection } from './connection';
+export type { ConnectionTestResult, ConnectionFailureReason } from './connection';
+export { listProviderModels } from './models';
+export type { DiscoveredModel } from './models';
+export { inlineSystemPrompt } from './history';
+
+// Maps an ApiProviderConfig.providerId onto the client that speaks its protocol
+const CLIENTS_BY_PROVIDER: Record<string, ChatProviderClient> = {
+  openai: openAICompatibleClient,
+  groq: openAICompatibleClient,
+  ollama: openAICompatibleClient,
+  lmstudio: openAICompatibleClient,
+  custom: openAICompatibleClient,
+  anthropic: anthropicClient,
+  google: geminiClient,
+};
+
+export const getChatClient = (providerId: string): ChatProviderClient | undefined => CLIENTS_BY_PROVIDER[providerId];
@@ -0,0 +1,52 @@
+import { ApiProviderConfig } from '../../types/chat';
+import { sendProviderRequest } from './http';
+
+// Lists the models an endpoint actually serves (GET {baseUrl}/models)
+
+export interface DiscoveredModel {
+  id: string;
+  name: string;
+  contextWindow?: number; // Token limits, for endpoints that report them (Gemini)
+  maxOutputTokens?: number;
+}
+
+// OpenAI-style endpoints also list embedding, audio and image models that can't chat
+const NON_CHAT_MODEL_PATTERN = /embed|whisper|tts|dall-e|moderation|transcribe|realtime|audio|image|davinci|babbage/i;
+
+const parseOpenAIModels = (data: any): DiscoveredModel[] =>
+  (Array.isArray(data?.data) ? data.data : [])
+    .map((m: any) => String(m?.id ?? ''))
+    .filter((id: string) => id && !NON_CHAT_MODEL_PATTERN.test(id))
+    .map((id: string) => ({ id, name: id }));
+
+const parseAnthropicModels = (data: any): DiscoveredModel[] =>
+  (Array.isArray(data?.data) ? data.data : [])
+    .filter((m: any) => m?.id)
+    .map((m: any) => ({ id: m.id, name: m.display_name || m.id }));
+
+// Gemini names look like "models/gemini-1.5-pro"; only keep models that can generate content.
+// Gemini also reports each model's token limits.
+const parseGeminiModels = (data: any): DiscoveredModel[] =>
+  (Array.isArray(data?.models) ? data.models : [])
+    .filter((m: any) => m?.name && (m.supportedGenerationMethods ?? []).includes('generateContent'))
+    .map((m: any) => {
+      const id = String(m.name).replace(/^models\//, '');
+      return {
+        id, name: m.displayName || id,
+        ...(m.inputTokenLimit ? { contextWindow: Number(m.inputTokenLimit) } : {}),
+        ...(m.outputTokenLimit ? { maxOutputTokens: Number(m.outputTokenLimit) } : {}),
+      };
+    });
+
+export const listProviderModels = async (provider: ApiProviderConfig): Promise<DiscoveredModel[]> => {
+  switch (provider.providerId) {
+    case 'anthropic':
+      return parseAnthropicModels(await sendProviderRequest({
+        provider, path: '/models?limit=1000', method: 'GET', headers: { 'anthropic-version': '2023-06-01' },
+      }));
+    case 'google':
+      return parseGeminiModels(await sendProviderRequest({ provider, path: '/models?pageSize=1000', method: 'GET' }));
+    default:
+      return parseOpenAIModels(await sendProviderRequest({ provider, path: '/models', method: 'GET' }));
+  }
+};
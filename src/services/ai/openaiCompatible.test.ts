@@ -0,0 +1,240 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { ApiProviderConfig, ChatMessage, ChatSettings } from '../../types/chat';
+import { ProviderServer, sendEventStream, sendJson, startProviderServer } from '../../test/providerServer';
+import { providerRequests, saveProvider, storedProviders } from '../../test/tauriBackend';
+import { openAICompatibleClient } from './openaiCompatible';
+import { ChatRequest, ProviderError } from './types';
+
+vi.mock('@tauri-apps/api/core', () => import('../../test/tauriBackend'));
+vi.mock('@tauri-apps/api/event', () => import('../../test/tauriBackend'));
+
+let server: ProviderServer;
+beforeAll(async () => { server = await startProviderServer(); });
+afterAll(() => server.close());
+afterEach(() => {
+  server.requests.length = 0;
+  providerRequests.length = 0;
+  storedProviders.clear();
+});
+
+const message = (role: ChatMessage['role'], content: string, extra: Partial<ChatMessage> = {}): ChatMessage =>
+  ({ id: `${role}-${content}`, role, content, timestamp: new Date(0), ...extra });
+
+const makeRequest = (settings: Partial<ChatSettings> = {}, provider: Partial<ApiProviderConfig> = {}): ChatRequest => ({
+  messages: [message('user', 'Hi'), message('assistant', 'Error: boom', { isError: true }), message('assistant', 'Hello!'), message('user', 'How are you?')],
+  settings: { model: 'gpt-4o', temperature: 0.7, ...settings },
+  provider: { id: 'config-1', providerId: 'openai', name: 'OpenAI', apiKey: '', status: 'unknown', baseUrl: server.baseUrl, ...provider },
+});
+
+const completion = (content: string) => ({
+  choices: [{ message: { role: 'assistant', content } }],
+  usage: { prompt_tokens: 12, completion_tokens: 3 },
+});
+
+// One `data:` event per chunk object, as OpenAI streams them
+const streamEvents = (...payloads: unknown[]) => [...payloads.map(p => `data: ${JSON.stringify(p)}\n\n`), 'data: [DONE]\n\n'];
+const delta = (content: string) => ({ choices: [{ delta: { content } }] });
+
+describe('openAICompatibleClient request', () => {
+  it('posts the conversation to /chat/completions with the stored key', async () => {
+    saveProvider(makeRequest().provider, 'sk-test');
+    server.setHandler((_, res) => sendJson(res, 200, completion('Fine')));
+
+    await openAICompatibleClient.sendChat(makeRequest({ systemPrompt: 'Be brief.', maxTokens: 256, topP: 0.9 }));
+
+    const [request] = server.requests;
+    expect(request.method).toBe('POST');
+    expect(request.path).toBe('/v1/chat/completions');
+    expect(request.headers.authorization).toBe('Bearer sk-test');
+    expect(request.headers['content-type']).toBe('application/json');
+    expect(request.body).toEqual({
+      model: 'gpt-4o',
+      messages: [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Hi' },
+        { role: 'assistant', content: 'Hello!' },
+        { role: 'user', content: 'How are you?' },
+      ],
+      temperature: 0.7,
+      max_tokens: 256,
+      top_p: 0.9,
+      stream: false,
+    });
+  });
+
+  it('names the configuration instead of sending a key, so the backend uses the stored one', async () => {
+    saveProvider(makeRequest().provider, 'sk-stored');
+    server.setHandler((_, res) => sendJson(res, 200, completion('Fine')));
+
+    await openAICompatibleClient.sendChat(makeRequest({}, { apiKey: 'sk-typed' }));
+
+    expect(providerRequests[0]).toMatchObject({ providerConfigId: 'config-1' });
+    expect(JSON.stringify(providerRequests[0])).not.toContain('sk-typed');
+    expect(server.requests[0].headers.authorization).toBe('Bearer sk-stored');
+  });
+
+  it('refuses to send the stored key to a base URL that has not been saved', async () => {
+    saveProvider(makeRequest({}, { baseUrl: 'https://api.openai.com/v1' }).provider, 'sk-stored');
+
+    await expect(openAICompatibleClient.sendChat(makeRequest())).rejects.toMatchObject({ kind: 'config' });
+    expect(server.requests).toHaveLength(0);
+  });
+
+  it('leaves out optional fields and auth when they are not set', async () => {
+    server.setHandler((_, res) => sendJson(res, 200, completion('Fine')));
+
+    await openAICompatibleClient.sendChat(makeRequest({}, { providerId: 'ollama' }));
+
+    const [request] = server.requests;
+    expect(request.headers.authorization).toBeUndefined();
+    expect(request.body).not.toHaveProperty('max_tokens');
+    expect(request.body).not.toHaveProperty('top_p');
+    expect(request.body.messages[0]).toEqual({ role: 'user', content: 'Hi' });
+  });
+
+  it('sends max_completion_tokens and no sampling settings to reasoning models', async () => {
+    server.setHandler((_, res) => sendJson(res, 200, completion('Fine')));
+
+    await openAICompatibleClient.sendChat({ ...makeRequest({ model: 'o3-mini', maxTokens: 2000, topP: 0.9 }), reasoning: true });
+
+    const { body } = server.requests[0];
+    expect(body.max_completion_tokens).toBe(2000);
+    expect(body).not.toHaveProperty('max_tokens');
+    expect(body).not.toHaveProperty('temperature');
+    expect(body).not.toHaveProperty('top_p');
+  });
+
+  it('sends image attachments as content parts when the model supports images', async () => {
+    server.setHandler((_, res) => sendJson(res, 200, completion('A cat')));
+    const image = { id: 'img', name: 'cat.png', kind: 'image' as const, mimeType: 'image/png', size: 3, dataUrl: 'data:image/png;base64,AAA' };
+    const request = { ...makeRequest(), messages: [message('user', 'What is this?', { attachments: [image] })], supportsImages: true };
+
+    await openAICompatibleClient.sendChat(request);
+
+    expect(server.requests[0].body.messages[0].content).toEqual([
+      { type: 'text', text: 'What is this?' },
+      { type: 'image_url', image_url: { url: 'data:image/png;base64,AAA' } },
+    ]);
+  });
+
+  it('asks for streamed usage from OpenAI only', async () => {
+    server.setHandler((_, res) => sendEventStream(res, streamEvents(delta('Hi'))));
+
+    await openAICompatibleClient.streamChat(makeRequest(), () => { });
+    await openAICompatibleClient.streamChat(makeRequest({}, { providerId: 'groq' }), () => { });
+
+    expect(server.requests[0].body).toMatchObject({ stream: true, stream_options: { include_usage: true } });
+    expect(server.requests[1].body.stream).toBe(true);
+    expect(server.requests[1].body).not.toHaveProperty('stream_options');
+  });
+});
+
+describe('openAICompatibleClient.sendChat', () => {
+  it('returns the message content and usage', async () => {
+    server.setHandler((_, res) => sendJson(res, 200, completion('I am fine.')));
+
+    await expect(openAICompatibleClient.sendChat(makeRequest())).resolves.toEqual({
+      content: 'I am fine.',
+      usage: { promptTokens: 12, completionTokens: 3 },
+    });
+  });
+
+  it('rejects a reply without a message', async () => {
+    server.setHandler((_, res) => sendJson(res, 200, { choices: [] }));
+
+    await expect(openAICompatibleClient.sendChat(makeRequest())).rejects.toThrow('Provider response did not contain a message.');
+  });
+
+  it('rejects a reply that is not JSON', async () => {
+    server.setHandler((_, res) => { res.writeHead(200); res.end('<html>'); });
+
+    await expect(openAICompatibleClient.sendChat(makeRequest())).rejects.toThrow('Provider returned an invalid JSON response.');
+  });
+});
+
+describe('openAICompatibleClient.streamChat', () => {
+  it('streams deltas and returns the full text with usage', async () => {
+    server.setHandler((_, res) => sendEventStream(res, streamEvents(
+      { choices: [{ delta: { role: 'assistant' } }] },
+      delta('Hello'),
+      delta(', world'),
+      { choices: [], usage: { prompt_tokens: 9, completion_tokens: 2 } },
+    )));
+    const deltas: string[] = [];
+
+    const result = await openAICompatibleClient.streamChat(makeRequest(), d => deltas.push(d));
+
+    expect(deltas).toEqual(['Hello', ', world']);
+    expect(result).toEqual({ content: 'Hello, world', usage: { promptTokens: 9, completionTokens: 2 } });
+  });
+
+  it('reassembles events split across network chunks', async () => {
+    const body = streamEvents(delta('Split'), delta(' reply')).join('');
+    server.setHandler((_, res) => sendEventStream(res, [body.slice(0, 10), body.slice(10, 37), body.slice(37)]));
+    const deltas: string[] = [];
+
+    const result = await openAICompatibleClient.streamChat(makeRequest(), d => deltas.push(d));
+
+    expect(deltas).toEqual(['Split', ' reply']);
+    expect(result.content).toBe('Split reply');
+  });
+
+  it('reads Groq usage from x_groq', async () => {
+    server.setHandler((_, res) => sendEventStream(res, streamEvents(
+      delta('Hi'),
+      { choices: [{ delta: {} }], x_groq: { usage: { prompt_tokens: 5, completion_tokens: 1 } } },
+    )));
+
+    const result = await openAICompatibleClient.streamChat(makeRequest({}, { providerId: 'groq' }), () => { });
+
+    expect(result.usage).toEqual({ promptTokens: 5, completionTokens: 1 });
+  });
+
+  it('fails on an error event in the stream', async () => {
+    server.setHandler((_, res) => sendEventStream(res, [`data: ${JSON.stringify(delta('Par'))}\n\n`, `data: ${JSON.stringify({ error: { message: 'Model overloaded' } })}\n\n`]));
+    const deltas: string[] = [];
+
+    await expect(openAICompatibleClient.streamChat(makeRequest(), d => deltas.push(d))).rejects.toThrow('Model overloaded');
+    expect(deltas).toEqual(['Par']);
+  });
+
+  it('rejects with an AbortError when the signal is aborted mid-stream', async () => {
+    server.setHandler((_, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write(`data: ${JSON.stringify(delta('Never'))}\n\n`); // ...and never ends
+    });
+    const controller = new AbortController();
+
+    const result = openAICompatibleClient.streamChat({ ...makeRequest(), signal: controller.signal }, () => controller.abort());
+
+    await expect(result).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
+
+describe('openAICompatibleClient errors', () => {
+  it('maps an HTTP error with a JSON body to its message and status', async () => {
+    server.setHandler((_, res) => sendJson(res, 401, { error: { message: 'Incorrect API key provided', type: 'invalid_request_error' } }));
+
+    const error = await openAICompatibleClient.sendChat(makeRequest()).catch(e => e);
+
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error).toMatchObject({ message: '401: Incorrect API key provided', status: 401, kind: 'http' });
+  });
+
+  it('maps an HTTP error with a plain body to the status and text', async () => {
+    server.setHandler((_, res) => { res.writeHead(502); res.end('Bad gateway'); });
+
+    await expect(openAICompatibleClient.streamChat(makeRequest(), () => { })).rejects.toMatchObject({ message: 'HTTP 502: Bad gateway', status: 502 });
+  });
+
+  it('maps an unreachable server to a connect error', async () => {
+    const closed = await startProviderServer();
+    await closed.close();
+
+    await expect(openAICompatibleClient.sendChat(makeRequest({}, { baseUrl: closed.baseUrl }))).rejects.toMatchObject({ kind: 'connect' });
+  });
+
+  it('needs a base URL for custom endpoints', async () => {
+    await expect(openAICompatibleClient.sendChat(makeRequest({}, { providerId: 'custom', baseUrl: '' }))).rejects.toMatchObject({ kind: 'config' });
+  });
+});
@@ -0,0 +1,89 @@
+import { ChatMessage, TokenUsage } from '../../types/chat';
+import { messageImages, messageText } from './history';
+import { sendProviderRequest, streamProviderRequest } from './http';
+import { ChatProviderClient, ChatRequest, ProviderError } from './types';
+
+// Client for the OpenAI `/v1/chat/completions` protocol.
+// Also spoken by Groq, Ollama, LM Studio and most self-hosted gateways.
+
+type OpenAIContentPart = { type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } };
+
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | OpenAIContentPart[]; // Parts only when images are attached
+}
+
+const toOpenAIMessage = (message: ChatMessage, supportsImages: boolean): OpenAIMessage => {
+  const text = messageText(message, supportsImages);
+  const images = messageImages(message, supportsImages);
+  if (images.length === 0) return { role: message.role, content: text };
+  return {
+    role: message.role,
+    content: [
+      ...(text ? [{ type: 'text' as const, text }] : []),
+      ...images.map(image => ({ type: 'image_url' as const, image_url: { url: image.dataUrl } })),
+    ],
+  };
+};
+
+const toOpenAIMessages = (messages: ChatMessage[], systemPrompt: string | undefined, supportsImages: boolean): OpenAIMessage[] => {
+  const history: OpenAIMessage[] = messages
+    .filter(m => !m.isError) // Skip error/indicator bubbles, they were never part of the conversation
+    .map(m => toOpenAIMessage(m, supportsImages));
+  return systemPrompt?.trim() ? [{ role: 'system', content: systemPrompt }, ...history] : history;
+};
+
+// Only OpenAI is known to accept stream_options; Groq reports streamed usage on its own (under x_groq)
+const STREAM_USAGE_PROVIDERS = ['openai'];
+
+// Reasoning models reject max_tokens (max_completion_tokens also bounds their thinking) and any
+// temperature or top_p but the default
+const buildRequestBody = ({ messages, settings, provider, supportsImages = false, reasoning = false }: ChatRequest, stream = false) => ({
+  model: settings.model,
+  messages: toOpenAIMessages(messages, settings.systemPrompt, supportsImages),
+  ...(reasoning ? {} : { temperature: settings.temperature }),
+  ...(settings.maxTokens ? { [reasoning ? 'max_completion_tokens' : 'max_tokens']: settings.maxTokens } : {}),
+  ...(settings.topP !== undefined && !reasoning ? { top_p: settings.topP } : {}),
+  stream,
+  ...(stream && STREAM_USAGE_PROVIDERS.includes(provider.providerId) ? { stream_options: { include_usage: true } } : {}),
+});
+
+// Token usage from a response, or from the stream chunk that carries it
+const readUsage = (payload: any): TokenUsage | undefined => {
+  const usage = payload?.usage ?? payload?.x_groq?.usage;
+  return typeof usage?.prompt_tokens === 'number'
+    ? { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens ?? 0 }
+    : undefined;
+};
+
+export const openAICompatibleClient: ChatProviderClient = {
+  sendChat: async (request) => {
+    const data = await sendProviderRequest({
+      provider: request.provider, path: '/chat/completions', body: buildRequestBody(request), signal: request.signal,
+    });
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new ProviderError('Provider response did not contain a message.');
+    }
+    return { content, usage: readUsage(data) };
+  },
+
+  streamChat: async (request, onDelta) => {
+    let content = '';
+    let usage: TokenUsage | undefined;
+    await streamProviderRequest({
+      provider: request.provider, path: '/chat/completions', body: buildRequestBody(request, true), signal: request.signal,
+    }, ({ data }) => {
+      if (data === '[DONE]') return;
+      const chunk = JSON.parse(data);
+      if (chunk?.error) throw new ProviderError(chunk.error.message ?? 'Stream error');
+      usage = readUsage(chunk) ?? usage;
+      const delta = chunk?.choices?.[0]?.delta?.content;
+      if (typeof delta === 'string' && delta) {
+        content += delta;
+        onDelta(delta);
+      }
+    });
+    return { content, usage };
+  },
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { createEventStreamParser, StreamEvent } from './sse';
+
+// Feeds `chunks` through a parser and returns every event it dispatched
+const parse = (chunks: string[], end = true) => {
+  const events: StreamEvent[] = [];
+  const parser = createEventStreamParser(event => events.push(event));
+  chunks.forEach(parser.push);
+  if (end) parser.end();
+  return events;
+};
+
+describe('createEventStreamParser', () => {
+  it('dispatches an event per blank line', () => {
+    expect(parse(['data: one\n\ndata: two\n\n'])).toEqual([{ data: 'one' }, { data: 'two' }]);
+  });
+
+  it('joins events split across chunks, mid-line and mid-field', () => {
+    expect(parse(['da', 'ta: {"a":', '1}\n', '\nevent: ping\nda', 'ta: x\n\n'])).toEqual([
+      { data: '{"a":1}' },
+      { event: 'ping', data: 'x' },
+    ]);
+  });
+
+  it('waits for the blank line before dispatching', () => {
+    expect(parse(['data: pending\n'], false)).toEqual([]);
+  });
+
+  it('passes [DONE] through as data', () => {
+    expect(parse(['data: {"x":1}\n\ndata: [DONE]\n\n'])).toEqual([{ data: '{"x":1}' }, { data: '[DONE]' }]);
+  });
+
+  it('accepts CRLF and CR line endings, also split between chunks', () => {
+    expect(parse(['data: a\r\n\r\ndata: b\r', '\n\r\ndata: c\r\rdata: d\n\n'])).toEqual([
+      { data: 'a' }, { data: 'b' }, { data: 'c' }, { data: 'd' },
+    ]);
+  });
+
+  it('treats a CRLF split between chunks as one line break', () => {
+    expect(parse(['data: x\r', '\ndata: y\r', '\n\r', '\n'])).toEqual([{ data: 'x\ny' }]);
+  });
+
+  it('joins multi-line data with newlines', () => {
+    expect(parse(['data: first\ndata: second\ndata:\ndata: fourth\n\n'])).toEqual([{ data: 'first\nsecond\n\nfourth' }]);
+  });
+
+  it('keeps the event name with its data', () => {
+    expect(parse(['event: content_block_delta\ndata: {"t":1}\n\nevent: message_stop\ndata: {}\n\n'])).toEqual([
+      { event: 'content_block_delta', data: '{"t":1}' },
+      { event: 'message_stop', data: '{}' },
+    ]);
+  });
+
+  it('ignores comments, unknown fields and events without data', () => {
+    expect(parse([': keep-alive\n\nid: 7\nretry: 100\n\nevent: empty\n\ndata:no-space\n\n'])).toEqual([{ data: 'no-space' }]);
+  });
+
+  it('removes only one leading space from values', () => {
+    expect(parse(['data:  indented\n\n'])).toEqual([{ data: ' indented' }]);
+  });
+
+  it('flushes an unterminated last event on end', () => {
+    expect(parse(['data: tail'])).toEqual([{ data: 'tail' }]);
+  });
+});
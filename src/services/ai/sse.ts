@@ -0,0 +1,45 @@
+// Minimal `text/event-stream` reader shared by all streaming adapters
+
+export interface StreamEvent {
+  event?: string; // Value of the `event:` field, if the server sent one (Anthropic does, OpenAI doesn't)
+  data: string;
+}
+
+// Incremental parser: feed it text as it arrives, it calls onEvent for every complete event
+export const createEventStreamParser = (onEvent: (event: StreamEvent) => void) => {
+  let buffer = '';
+  let eventName: string | undefined;
+  let dataLines: string[] = [];
+
+  const dispatch = () => {
+    if (dataLines.length > 0) onEvent({ event: eventName, data: dataLines.join('\n') });
+    eventName = undefined;
+    dataLines = [];
+  };
+
+  const processLine = (line: string) => {
+    if (line === '') return dispatch();
+    if (line.startsWith(':')) return; // Comment / keep-alive
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+    if (field === 'data') dataLines.push(value);
+    else if (field === 'event') eventName = value;
+  };
+
+  return {
+    push: (chunk: string) => {
+      const text = buffer + chunk;
+      const cut = text.endsWith('\r') ? text.length - 1 : text.length; // A trailing CR may be half of a CRLF
+      const lines = text.slice(0, cut).split(/\r\n|\r|\n/);
+      buffer = (lines.pop() ?? '') + text.slice(cut); // Keep the trailing partial line for the next chunk
+      lines.forEach(processLine);
+    },
+    // Flush whatever is left once the stream has ended
+    end: () => {
+      if (buffer) processLine(buffer.replace(/\r$/, ''));
+      buffer = '';
+      dispatch();
+    },
+  };
+};
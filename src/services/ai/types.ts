@@ -0,0 +1,42 @@
+import { ApiProviderConfig, ChatMessage, ChatSettings, TokenUsage } from '../../types/chat';
+
+// Everything a provider client needs to produce one assistant reply
+export interface ChatRequest {
+  messages: ChatMessage[]; // Conversation history (oldest first), ending with the prompt to answer
+  settings: ChatSettings;
+  provider: ApiProviderConfig;
+  signal?: AbortSignal;
+  supportsImages?: boolean; // Send image attachments as content parts; otherwise they are only mentioned
+  reasoning?: boolean; // ModelCapabilities.reasoning of the model
+}
+
+export interface ChatResponse {
+  content: string;
+  usage?: TokenUsage; // As reported by the provider, if it did
+}
+
+// Called with each piece of text as it streams in
+export type DeltaHandler = (delta: string) => void;
+
+// Common interface implemented by every provider adapter
+export interface ChatProviderClient {
+  sendChat: (request: ChatRequest) => Promise<ChatResponse>;
+  // Streams the reply through onDelta and resolves with the full text once the provider is done
+  streamChat: (request: ChatRequest, onDelta: DeltaHandler) => Promise<ChatResponse>;
+}
+
+// What went wrong at the transport level, as reported by the backend
+export type ProviderErrorKind = 'config' | 'http' | 'connect' | 'timeout' | 'tls' | 'other';
+
+// Error surfaced to the UI when a provider call fails (bad key, unreachable host, etc.)
+export class ProviderError extends Error {
+  status?: number; // HTTP status code, if the provider answered at all
+  kind: ProviderErrorKind;
+
+  constructor(message: string, status?: number, kind: ProviderErrorKind = status ? 'http' : 'other') {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+    this.kind = kind;
+  }
+}
@@ -0,0 +1,95 @@
+import { v4 as uuidv4 } from 'uuid';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { AttachmentKind, ChatAttachment } from '../types/chat';
+
+// Turns files picked or dropped in the composer into attachments stored with the message.
+// Text and code files keep their contents, PDFs the text extracted from them, images a data URL.
+
+export const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+const MAX_TEXT_BYTES = 1024 * 1024; // Larger text would fill most context windows on its own
+
+// Accepted as vision input by OpenAI, Anthropic and Gemini alike
+const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+// Browsers leave file.type empty (or guess wrong) for most source files
+const TEXT_EXTENSIONS = new Set([
+  'txt', 'md', 'markdown', 'csv', 'tsv', 'json', 'jsonl', 'yaml', 'yml', 'toml', 'ini', 'xml', 'html', 'css', 'scss', 'log', 'env',
+  'js', 'jsx', 'mjs', 'cjs', 'ts', 'tsx', 'py', 'rb', 'go', 'rs', 'java', 'kt', 'swift', 'c', 'h', 'cpp', 'hpp', 'cs', 'php',
+  'sh', 'bash', 'zsh', 'ps1', 'sql', 'r', 'lua', 'dart', 'scala', 'vue', 'svelte', 'graphql', 'proto', 'tex',
+]);
+
+export const isImageFile = (file: File) => IMAGE_MIME_TYPES.includes(file.type);
+
+// For the file picker's accept attribute; images are left out for models that can't see them
+export const attachmentAccept = (includeImages: boolean) =>
+  ['text/*', 'application/json', '.pdf', ...[...TEXT_EXTENSIONS].map(ext => `.${ext}`), ...(includeImages ? IMAGE_MIME_TYPES : [])].join(',');
+
+export const fileExtension = (name: string) => (name.includes('.') ? name.split('.').pop()!.toLowerCase() : '');
+
+const kindOf = (file: File): AttachmentKind | null => {
+  if (isImageFile(file)) return 'image';
+  if (file.type === 'application/pdf' || fileExtension(file.name) === 'pdf') return 'pdf';
+  if (file.type.startsWith('text/') || file.type === 'application/json' || TEXT_EXTENSIONS.has(fileExtension(file.name))) return 'text';
+  return null;
+};
+
+// Files of unknown type are accepted if they decode as UTF-8 without NUL bytes
+const decodeText = (data: ArrayBuffer, strict: boolean): string | null => {
+  try {
+    const text = new TextDecoder('utf-8', { fatal: strict }).decode(data);
+    return strict && text.includes('\0') ? null : text;
+  } catch {
+    return null;
+  }
+};
+
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+
+const extractPdfText = async (data: ArrayBuffer): Promise<string> => {
+  const pdfjs = await import('pdfjs-dist'); // Large, so only loaded once a PDF is attached
+  pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+  const pdf = await pdfjs.getDocument({ data }).promise;
+  try {
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const { items } = await (await pdf.getPage(pageNumber)).getTextContent();
+      pages.push(items.map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : '')).join(''));
+    }
+    return pages.join('\n\n').trim();
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+// Throws with a message meant for the user if the file can't be attached
+export const readAttachment = async (file: File): Promise<ChatAttachment> => {
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    throw new Error(`${file.name} is larger than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB.`);
+  }
+  const base = { id: uuidv4(), name: file.name, size: file.size };
+  const kind = kindOf(file);
+
+  if (kind === 'image') {
+    return { ...base, kind, mimeType: file.type, dataUrl: await readAsDataUrl(file) };
+  }
+  if (kind === 'pdf') {
+    const text = await extractPdfText(await file.arrayBuffer());
+    if (!text) throw new Error(`No text found in ${file.name}. Scanned PDFs can't be read yet.`);
+    return { ...base, kind, mimeType: 'application/pdf', text };
+  }
+  if (file.size > MAX_TEXT_BYTES) {
+    throw new Error(`${file.name} is too large to include as text (over ${MAX_TEXT_BYTES / 1024} KB).`);
+  }
+  const text = decodeText(await file.arrayBuffer(), kind !== 'text');
+  if (text === null) throw new Error(`${file.name} isn't a text, PDF or image file.`);
+  return { ...base, kind: 'text', mimeType: file.type || 'text/plain', text };
+};
+
+export const formatFileSize = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(0)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
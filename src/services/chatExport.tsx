@@ -0,0 +1,155 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { oneDark } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { format } from 'date-fns';
+import { save } from '@tauri-apps/plugin-dialog';
+import { writeTextFile } from '@tauri-apps/plugin-fs';
+import { ChatMessage, ChatSession, ChatSettings } from '../types/chat';
+import { getActivePath } from './messageTree';
+import { loadSession, toStored } from './sessionStore';
+
+// Markdown and HTML exports are readable transcripts of the branch each chat shows;
+// JSON is lossless (every branch, per-chat settings) and can be imported again.
+
+export type ExportFormat = 'markdown' | 'json' | 'html';
+
+export const EXPORT_FILE_FORMAT = 'chatalia-export'; // Marks our JSON exports for the importer
+const EXPORT_FILE_VERSION = 1;
+
+const formatTime = (date: Date) => format(new Date(date), 'yyyy-MM-dd HH:mm');
+
+// Transcript lines: the shown branch, without error and status notices
+const transcriptOf = (session: ChatSession): ChatMessage[] => getActivePath(session).filter(m => !m.isError);
+
+const roleLabel = (message: ChatMessage) => (message.role === 'user' ? 'You' : 'Assistant');
+
+const sessionModel = (session: ChatSession, defaultSettings: ChatSettings) => (session.settings ?? defaultSettings).model;
+
+const toMarkdown = (sessions: ChatSession[], defaultSettings: ChatSettings) =>
+  sessions
+    .map(session => {
+      const header = `# ${session.title}\n\n_Model: ${sessionModel(session, defaultSettings)} · Created ${formatTime(session.createdAt)}_`;
+      const messages = transcriptOf(session).map(m => `### ${roleLabel(m)} · ${formatTime(m.timestamp)}\n\n${m.content}`);
+      return [header, ...messages].join('\n\n');
+    })
+    .join('\n\n---\n\n') + '\n';
+
+const toJson = (sessions: ChatSession[], defaultSettings: ChatSettings) =>
+  JSON.stringify(
+    {
+      format: EXPORT_FILE_FORMAT,
+      version: EXPORT_FILE_VERSION,
+      exportedAt: new Date(),
+      defaultChatSettings: defaultSettings, // Applies to chats without their own settings
+      sessions: sessions.map(toStored),
+    },
+    null,
+    2
+  );
+
+// Same highlighter and theme as ChatMessage; the theme is applied as inline styles, so the
+// exported file needs no stylesheet for code
+const MarkdownContent: React.FC<{ content: string }> = ({ content }) => (
+  <ReactMarkdown
+    remarkPlugins={[remarkGfm]}
+    components={{
+      code({ className, children }) {
+        const match = /language-(\w+)/.exec(className || '');
+        if (!match) return <code className={className}>{children}</code>;
+        return (
+          <div className="code-block">
+            <div className="code-language">{match[1]}</div>
+            <SyntaxHighlighter style={oneDark} language={match[1]} PreTag="div" customStyle={{ margin: 0, background: 'transparent' }}>
+              {String(children).replace(/\n$/, '')}
+            </SyntaxHighlighter>
+          </div>
+        );
+      },
+    }}
+  >
+    {content}
+  </ReactMarkdown>
+);
+
+const HTML_STYLES = `
+body { margin: 0; background: #171717; color: #e5e5e5; font: 14px/1.6 system-ui, -apple-system, "Segoe UI", sans-serif; }
+main { max-width: 48rem; margin: 0 auto; padding: 2rem 1rem; }
+section + section { margin-top: 3rem; padding-top: 2rem; border-top: 1px solid #404040; }
+h1 { font-size: 1.4rem; margin: 0 0 0.25rem; }
+.meta { color: #737373; font-size: 12px; margin-bottom: 1.5rem; }
+.message { padding: 0.75rem 1rem; border-radius: 8px; margin-bottom: 0.75rem; background: #262626; }
+.message.user { background: #134e4a; }
+.role { font-size: 12px; font-weight: 600; color: #a3a3a3; margin-bottom: 0.25rem; }
+.role time { font-weight: 400; color: #737373; margin-left: 0.5rem; }
+.content p { margin: 0.5rem 0; }
+.content a { color: #38bdf8; }
+.content code { background: rgba(64, 64, 64, 0.6); color: #fbbf24; padding: 0.1rem 0.3rem; border-radius: 4px; font-size: 12px; }
+.content pre code, .code-block code { background: none; color: inherit; padding: 0; }
+.content table { border-collapse: collapse; }
+.content th, .content td { border: 1px solid #404040; padding: 0.25rem 0.5rem; }
+.content blockquote { margin: 0.5rem 0; padding-left: 0.75rem; border-left: 2px solid #404040; color: #a3a3a3; font-style: italic; }
+.code-block { margin: 0.75rem 0; border: 1px solid #404040; border-radius: 6px; overflow: hidden; background: #1f1f1f; font-size: 12px; }
+.code-language { padding: 0.25rem 0.75rem; background: #171717; border-bottom: 1px solid #404040; color: #a3a3a3; font-size: 11px; }
+`;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const toHtml = (sessions: ChatSession[], defaultSettings: ChatSettings) => {
+  const body = renderToStaticMarkup(
+    <main>
+      {sessions.map(session => (
+        <section key={session.id}>
+          <h1>{session.title}</h1>
+          <div className="meta">Model: {sessionModel(session, defaultSettings)} · Created {formatTime(session.createdAt)}</div>
+          {transcriptOf(session).map(m => (
+            <div key={m.id} className={`message ${m.role}`}>
+              <div className="role">{roleLabel(m)}<time>{formatTime(m.timestamp)}</time></div>
+              <div className="content"><MarkdownContent content={m.content} /></div>
+            </div>
+          ))}
+        </section>
+      ))}
+    </main>
+  );
+  const title = sessions.length === 1 ? sessions[0].title : 'Chatalia export';
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>${body}</body>
+</html>
+`;
+};
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; render: (sessions: ChatSession[], defaultSettings: ChatSettings) => string }> = {
+  markdown: { label: 'Markdown', extension: 'md', render: toMarkdown },
+  json: { label: 'JSON', extension: 'json', render: toJson },
+  html: { label: 'HTML', extension: 'html', render: toHtml },
+};
+
+// Characters most file systems reject in names
+const toFileName = (title: string) => title.replace(/[\\/:*?"<>|]+/g, '').trim().slice(0, 80) || 'chat';
+
+// Asks where to save, then writes the export there. Resolves to the path written, or null
+// if the dialog was cancelled. Sessions whose messages aren't loaded yet are read first.
+export const exportSessions = async (sessions: ChatSession[], exportFormat: ExportFormat, defaultSettings: ChatSettings): Promise<string | null> => {
+  const { label, extension, render } = EXPORT_FORMATS[exportFormat];
+  const baseName = sessions.length === 1 ? toFileName(sessions[0].title) : `chatalia-export-${format(new Date(), 'yyyy-MM-dd')}`;
+  const path = await save({
+    title: sessions.length === 1 ? 'Export Chat' : 'Export Chats',
+    defaultPath: `${baseName}.${extension}`,
+    filters: [{ name: label, extensions: [extension] }],
+  });
+  if (!path) return null;
+  const loaded = await Promise.all(sessions.map(s => (s.messagesLoaded === false ? loadSession(s.id) : s)));
+  await writeTextFile(path, render(loaded, defaultSettings));
+  return path;
+};
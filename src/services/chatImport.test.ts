@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { ChatSession } from '../types/chat';
+import chatGptExport from '../test/fixtures/chatgpt-conversations.json?raw';
+import claudeExport from '../test/fixtures/claude-conversations.json?raw';
+import chataliaExport from '../test/fixtures/chatalia-export.json?raw';
+import { parseImportFile } from './chatImport';
+import { getActivePath } from './messageTree';
+import { SESSION_MIGRATIONS } from './sessionStore';
+
+// [id, role, parentId] of every message, in stored order
+const tree = (session: ChatSession) => session.messages.map(m => [m.id, m.role, m.parentId]);
+
+const pathIds = (session: ChatSession) => getActivePath(session).map(m => m.id);
+
+describe('parseImportFile with a ChatGPT export', () => {
+  const { source, sessions: [weather, untitled] } = parseImportFile(chatGptExport);
+
+  it('detects the format', () => {
+    expect(source).toBe('chatgpt');
+  });
+
+  it('drops system, tool-call, tool and hidden nodes and links their children to the nearest kept ancestor', () => {
+    expect(tree(weather)).toEqual([
+      ['u1', 'user', null],
+      ['a1', 'assistant', 'u1'], // Below call → tool
+      ['u1b', 'user', null], // Edited prompt, a sibling of u1
+      ['a1b', 'assistant', 'u1b'],
+      ['u2b', 'user', 'a1b'], // Below a hidden message
+    ]);
+  });
+
+  it('keeps only the text parts of a message', () => {
+    expect(weather.messages[0].content).toBe("What's the weather in Paris?");
+  });
+
+  it('makes the nearest kept ancestor of current_node the active leaf', () => {
+    expect(weather.activeLeafId).toBe('u2b');
+    expect(pathIds(weather)).toEqual(['u1b', 'a1b', 'u2b']);
+  });
+
+  it('reads timestamps from unix seconds', () => {
+    expect(weather.createdAt).toEqual(new Date(1700000000500));
+    expect(weather.lastModified).toEqual(new Date(1700000100000));
+    expect(weather.messages.map(m => m.timestamp.getTime() / 1000)).toEqual([1700000010, 1700000013, 1700000020, 1700000021, 1700000023]);
+  });
+
+  it('falls back to a default title and the newest message time', () => {
+    expect(untitled.title).toBe('Untitled Chat');
+    expect(untitled.lastModified).toEqual(new Date(1700001010000));
+    expect(pathIds(untitled)).toEqual(['q', 'r']);
+  });
+
+  it('derives session ids from the conversation ids, so a re-import finds the same chats', () => {
+    expect([weather.id, untitled.id]).toEqual(['chatgpt-67a1b2c3-0001', 'chatgpt-convtwo']);
+    expect(parseImportFile(chatGptExport).sessions.map(s => s.id)).toEqual([weather.id, untitled.id]);
+  });
+});
+
+describe('parseImportFile with a Claude export', () => {
+  const { source, sessions: [haiku, older] } = parseImportFile(claudeExport);
+
+  it('detects the format', () => {
+    expect(source).toBe('claude');
+  });
+
+  it('links messages through parent_message_uuid, with the placeholder root becoming null', () => {
+    expect(tree(haiku)).toEqual([
+      ['m1', 'user', null],
+      ['m2', 'assistant', 'm1'],
+      ['m3', 'user', null], // Edited prompt, a sibling of m1
+      ['m4', 'assistant', 'm3'],
+    ]);
+    expect(haiku.activeLeafId).toBe('m4');
+    expect(pathIds(haiku)).toEqual(['m3', 'm4']);
+  });
+
+  it('joins text blocks and falls back to the message text', () => {
+    expect(haiku.messages.map(m => m.content)).toEqual(['Write a haiku', 'Line one\n\nLine two', 'Write a haiku about rain', 'Rain on the window']);
+  });
+
+  it('reads ISO timestamps', () => {
+    expect(haiku.createdAt).toEqual(new Date('2024-03-01T10:00:00Z'));
+    expect(haiku.lastModified).toEqual(new Date('2024-03-01T10:05:00Z'));
+    expect(haiku.messages[1].timestamp).toEqual(new Date('2024-03-01T10:00:02Z'));
+  });
+
+  it('chains messages in order when an older export has no parent links', () => {
+    expect(tree(older)).toEqual([['o1', 'user', null], ['o2', 'assistant', 'o1']]);
+    expect(older.activeLeafId).toBeUndefined();
+    expect(pathIds(older)).toEqual(['o1', 'o2']);
+    expect(older.title).toBe('Untitled Chat');
+    expect(older.lastModified).toEqual(new Date('2023-06-01T08:00:03Z'));
+  });
+
+  it('derives session ids from the conversation uuids', () => {
+    expect([haiku.id, older.id]).toEqual(['claude-5f0c1d2e-haiku', 'claude-older-export']);
+    expect(parseImportFile(claudeExport).sessions.map(s => s.id)).toEqual([haiku.id, older.id]);
+  });
+});
+
+describe('parseImportFile with a Chatalia export', () => {
+  const { source, sessions: [branched, flat] } = parseImportFile(chataliaExport);
+
+  it('detects the format', () => {
+    expect(source).toBe('chatalia');
+  });
+
+  it('keeps ids, every branch, the active leaf and per-chat fields', () => {
+    expect(branched.id).toBe('6d1e2f3a-branched');
+    expect(tree(branched)).toEqual([['q1', 'user', null], ['a1', 'assistant', 'q1'], ['q1b', 'user', null], ['a1b', 'assistant', 'q1b']]);
+    expect(pathIds(branched)).toEqual(['q1', 'a1']);
+    expect(branched.settings).toMatchObject({ model: 'claude-sonnet-4-5', temperature: 0.3, providerConfigId: 'config-2' });
+    expect(branched.folderId).toBe('folder-1');
+    expect(branched.messages[1].timestamp).toEqual(new Date('2024-04-01T09:00:02.000Z'));
+  });
+
+  it('migrates sessions exported by an older version', () => {
+    expect(flat.schemaVersion).toBe(SESSION_MIGRATIONS.length);
+    expect(tree(flat)).toEqual([['x1', 'user', null], ['x2', 'assistant', 'x1']]);
+    expect(flat.activeLeafId).toBe('x2');
+  });
+});
+
+describe('parseImportFile errors', () => {
+  it('rejects a file that is not JSON', () => {
+    expect(() => parseImportFile('{"mapping":')).toThrow('The file is not valid JSON.');
+  });
+
+  it('rejects JSON in an unknown shape', () => {
+    expect(() => parseImportFile('[{"messages": []}]')).toThrow(/^Unrecognized file/);
+  });
+});
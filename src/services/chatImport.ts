@@ -0,0 +1,160 @@
+import { open } from '@tauri-apps/plugin-dialog';
+import { readTextFile } from '@tauri-apps/plugin-fs';
+import { ChatMessage, ChatSession } from '../types/chat';
+import { EXPORT_FILE_FORMAT } from './chatExport';
+import { normalizeSession } from './sessionStore';
+
+// Reads conversation history exported from other apps (and our own JSON export) into
+// ChatSessions. Imported sessions get ids derived from the source conversation id, so
+// importing the same file twice finds the chats that are already there.
+
+export type ImportSource = 'chatgpt' | 'claude' | 'chatalia';
+
+export const IMPORT_SOURCE_LABELS: Record<ImportSource, string> = {
+  chatgpt: 'ChatGPT',
+  claude: 'Claude',
+  chatalia: 'Chatalia',
+};
+
+export interface ParsedImport {
+  source: ImportSource;
+  sessions: ChatSession[];
+}
+
+// Session ids become file names in the store, which only accepts these characters
+const toSessionId = (prefix: string, sourceId: string) => `${prefix}-${String(sourceId).replace(/[^A-Za-z0-9_-]/g, '')}`;
+
+const fromUnixSeconds = (seconds: unknown): Date | undefined =>
+  typeof seconds === 'number' && seconds > 0 ? new Date(seconds * 1000) : undefined;
+
+const fromIsoString = (value: unknown): Date | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+// Newest message time, for sorting imported chats among existing ones
+const lastMessageTime = (messages: ChatMessage[], fallback: Date) =>
+  messages.reduce((latest, m) => (m.timestamp > latest ? m.timestamp : latest), fallback);
+
+// --- ChatGPT (conversations.json) ---
+// Each conversation is a tree in `mapping`; `current_node` is the leaf of the branch that was shown.
+// System, tool and hidden nodes are dropped and their children attached to the nearest kept ancestor.
+
+const chatGptText = (message: any): string => {
+  const content = message?.content;
+  if (content?.content_type !== 'text' && content?.content_type !== 'multimodal_text') return '';
+  return (content.parts ?? []).filter((part: unknown) => typeof part === 'string').join('\n').trim();
+};
+
+const isVisibleChatGptMessage = (message: any) =>
+  (message?.author?.role === 'user' || message?.author?.role === 'assistant')
+  && !message?.metadata?.is_visually_hidden_from_conversation
+  && (message?.recipient ?? 'all') === 'all' // Others are tool calls
+  && chatGptText(message) !== '';
+
+const parseChatGptConversation = (conversation: any): ChatSession => {
+  const mapping: Record<string, any> = conversation.mapping ?? {};
+  const createdAt = fromUnixSeconds(conversation.create_time) ?? new Date();
+  const kept = new Set(Object.keys(mapping).filter(id => isVisibleChatGptMessage(mapping[id]?.message)));
+
+  // Nearest node at or above `id` that becomes a message
+  const keptAncestor = (id: string | null | undefined): string | null => {
+    const seen = new Set<string>();
+    while (id && !seen.has(id)) {
+      if (kept.has(id)) return id;
+      seen.add(id);
+      id = mapping[id]?.parent;
+    }
+    return null;
+  };
+
+  const messages: ChatMessage[] = [...kept]
+    .map(id => {
+      const message = mapping[id].message;
+      return {
+        id,
+        role: message.author.role,
+        content: chatGptText(message),
+        timestamp: fromUnixSeconds(message.create_time) ?? createdAt,
+        parentId: keptAncestor(mapping[id].parent),
+      } as ChatMessage;
+    })
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime()); // Stored in creation order
+
+  const sourceId = conversation.conversation_id ?? conversation.id;
+  return {
+    id: toSessionId('chatgpt', sourceId),
+    title: conversation.title || 'Untitled Chat',
+    messages,
+    createdAt,
+    lastModified: fromUnixSeconds(conversation.update_time) ?? lastMessageTime(messages, createdAt),
+    activeLeafId: keptAncestor(conversation.current_node) ?? undefined,
+    messagesLoaded: true,
+  };
+};
+
+// --- Claude.ai (conversations.json) ---
+// Messages are listed in order; newer exports also link each one to its parent.
+
+const claudeText = (message: any): string => {
+  const blocks = Array.isArray(message.content) ? message.content.filter((b: any) => b?.type === 'text' && b.text) : [];
+  return (blocks.length > 0 ? blocks.map((b: any) => b.text).join('\n\n') : message.text ?? '').trim();
+};
+
+const parseClaudeConversation = (conversation: any): ChatSession => {
+  const createdAt = fromIsoString(conversation.created_at) ?? new Date();
+  const sourceMessages: any[] = (conversation.chat_messages ?? []).filter((m: any) => claudeText(m) !== '');
+  const ids = new Set(sourceMessages.map(m => m.uuid));
+  const messages: ChatMessage[] = sourceMessages.map((m, i) => ({
+    id: m.uuid,
+    role: m.sender === 'human' ? 'user' : 'assistant',
+    content: claudeText(m),
+    timestamp: fromIsoString(m.created_at) ?? createdAt,
+    // The first message's parent is a placeholder uuid, which isn't in the set
+    parentId: m.parent_message_uuid !== undefined
+      ? (ids.has(m.parent_message_uuid) ? m.parent_message_uuid : null)
+      : (sourceMessages[i - 1]?.uuid ?? null),
+  }));
+  return {
+    id: toSessionId('claude', conversation.uuid),
+    title: conversation.name || 'Untitled Chat',
+    messages,
+    createdAt,
+    lastModified: fromIsoString(conversation.updated_at) ?? lastMessageTime(messages, createdAt),
+    activeLeafId: ids.has(conversation.current_leaf_message_uuid) ? conversation.current_leaf_message_uuid : undefined,
+    messagesLoaded: true,
+  };
+};
+
+// Detects the format from the file's shape. Throws if it isn't one we know.
+export const parseImportFile = (text: string): ParsedImport => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (data?.format === EXPORT_FILE_FORMAT && Array.isArray(data.sessions)) {
+    return { source: 'chatalia', sessions: data.sessions.map(normalizeSession) };
+  }
+  if (Array.isArray(data) && data.some(c => c?.mapping)) {
+    return { source: 'chatgpt', sessions: data.filter(c => c?.mapping).map(parseChatGptConversation) };
+  }
+  if (Array.isArray(data) && data.some(c => Array.isArray(c?.chat_messages))) {
+    return { source: 'claude', sessions: data.filter(c => Array.isArray(c?.chat_messages)).map(parseClaudeConversation) };
+  }
+  throw new Error('Unrecognized file. Choose conversations.json from a ChatGPT or Claude export, or a Chatalia JSON export.');
+};
+
+// Lets the user choose a file and parses it; resolves to null if the dialog was cancelled
+export const pickImportFile = async (): Promise<ParsedImport | null> => {
+  const path = await open({
+    title: 'Import Chats',
+    multiple: false,
+    directory: false,
+    filters: [{ name: 'JSON', extensions: ['json'] }],
+  });
+  if (!path) return null;
+  return parseImportFile(await readTextFile(path));
+};
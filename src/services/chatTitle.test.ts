@@ -0,0 +1,45 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { ApiProviderConfig, ChatMessage } from '../types/chat';
+import { ProviderServer, sendJson, startProviderServer } from '../test/providerServer';
+import { generateChatTitle } from './chatTitle';
+
+vi.mock('@tauri-apps/api/core', () => import('../test/tauriBackend'));
+vi.mock('@tauri-apps/api/event', () => import('../test/tauriBackend'));
+
+let server: ProviderServer;
+beforeAll(async () => { server = await startProviderServer(); });
+afterAll(() => server.close());
+afterEach(() => { server.requests.length = 0; });
+
+const message = (role: ChatMessage['role'], content: string): ChatMessage => ({ id: `${role}-${content}`, role, content, timestamp: new Date(0) });
+const exchange = [message('user', 'How do I   reverse a linked list in Rust without unsafe code?'), message('assistant', 'Take ownership of each node...')];
+const provider = (): ApiProviderConfig => ({ id: 'config-1', providerId: 'openai', name: 'OpenAI', apiKey: '', status: 'unknown', baseUrl: server.baseUrl });
+const reply = (content: string) => (_: unknown, res: Parameters<typeof sendJson>[0]) => sendJson(res, 200, { choices: [{ message: { role: 'assistant', content } }] });
+
+describe('generateChatTitle', () => {
+  it('cleans up the title the model writes', async () => {
+    server.setHandler(reply('Title: "Reversing a Linked List in Rust."\nHope that helps!'));
+
+    const { title } = await generateChatTitle(exchange, { model: 'gpt-4o-mini', temperature: 0.7 }, provider(), {});
+
+    expect(title).toBe('Reversing a Linked List in Rust');
+    expect(server.requests[0].body).toMatchObject({ temperature: 0.3, max_tokens: 100 });
+  });
+
+  it('gives reasoning models room to think, as max_completion_tokens', async () => {
+    server.setHandler(reply('Linked List Reversal'));
+
+    await generateChatTitle(exchange, { model: 'o4-mini', temperature: 0.7 }, provider(), { reasoning: true });
+
+    expect(server.requests[0].body.max_completion_tokens).toBe(2000);
+    expect(server.requests[0].body).not.toHaveProperty('max_tokens');
+  });
+
+  it('falls back to the start of the first user message when the reply is empty', async () => {
+    server.setHandler(reply(''));
+
+    const { title } = await generateChatTitle(exchange, { model: 'gpt-5-mini', temperature: 0.7 }, provider(), { reasoning: true });
+
+    expect(title).toBe('How do I reverse a linked list in Rust without unsafe code?');
+  });
+});
@@ -0,0 +1,62 @@
+import { ApiProviderConfig, ChatMessage, ChatSettings, ModelCapabilities, TokenUsage } from '../types/chat';
+import { getChatClient } from './ai';
+import { estimateUsage } from './tokens';
+
+// Short chat titles written by a model from the start of the conversation
+
+const TITLE_CONTEXT_MESSAGES = 4; // The first exchange or two say what a chat is about
+const MAX_CONTEXT_CHARS = 1500; // Per message, long pastes add cost but not meaning
+const MAX_TITLE_LENGTH = 60;
+// Room for a few words even when a model opens with a preamble; reasoning models think within the same limit
+const TITLE_MAX_TOKENS = 100;
+const REASONING_TITLE_MAX_TOKENS = 2000;
+
+const TITLE_INSTRUCTIONS =
+  'Write a short title (at most 6 words) for the conversation below. ' +
+  'Reply with the title only: no quotes, no trailing period, no "Title:" prefix. ' +
+  'Use the language of the conversation.';
+
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 3).trimEnd()}...` : text);
+
+// Models often wrap the title in quotes or markdown, or explain themselves on further lines
+const cleanTitle = (raw: string) => {
+  const firstLine = raw.trim().split('\n').find(line => line.trim()) ?? '';
+  const title = firstLine
+    .replace(/^(title|chat title)\s*:\s*/i, '')
+    .replace(/^[#*_"'`“‘\s]+|[*_"'`”’\s]+$/g, '')
+    .replace(/\.$/, '')
+    .trim();
+  return truncate(title, MAX_TITLE_LENGTH);
+};
+
+// The first user message, for when the model's reply has no usable title
+const fallbackTitle = (messages: ChatMessage[]) =>
+  truncate(messages.find(m => m.role === 'user' && !m.isError && m.content.trim())?.content.trim().replace(/\s+/g, ' ') ?? '', MAX_TITLE_LENGTH);
+
+// Resolves to a cleaned title (the start of the first user message if the model didn't produce one,
+// '' if there is nothing to title) and the request's usage
+export const generateChatTitle = async (
+  messages: ChatMessage[], settings: ChatSettings, provider: ApiProviderConfig, capabilities: ModelCapabilities,
+): Promise<{ title: string; usage?: TokenUsage }> => {
+  const client = getChatClient(provider.providerId);
+  if (!client) throw new Error(`Provider '${provider.providerId}' is not supported yet.`);
+  const transcript = messages
+    .filter(m => !m.isError && m.content.trim())
+    .slice(0, TITLE_CONTEXT_MESSAGES)
+    .map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${truncate(m.content.trim(), MAX_CONTEXT_CHARS)}`)
+    .join('\n\n');
+  if (!transcript) return { title: '' };
+
+  const prompt: ChatMessage = { id: 'title-request', role: 'user', content: `${TITLE_INSTRUCTIONS}\n\n${transcript}`, timestamp: new Date() };
+  const { content, usage } = await client.sendChat({
+    messages: [prompt],
+    // The chat's system prompt and sampling settings are for its replies, not for this
+    settings: {
+      model: settings.model, providerConfigId: settings.providerConfigId, temperature: 0.3,
+      maxTokens: capabilities.reasoning ? REASONING_TITLE_MAX_TOKENS : TITLE_MAX_TOKENS,
+    },
+    provider,
+    reasoning: capabilities.reasoning,
+  });
+  return { title: cleanTitle(content) || fallbackTitle(messages), usage: usage ?? estimateUsage([prompt], undefined, false, content) };
+};
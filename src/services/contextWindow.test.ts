@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { ChatMessage, ChatSettings } from '../types/chat';
+import { selectContext, withContextSummary } from './contextWindow';
+import { estimateMessageTokens, estimateTokens } from './tokens';
+
+// Tests run without the tokenizer, so a message of 400 characters counts as 100 tokens plus overhead
+const conversation = (count: number): ChatMessage[] => Array.from({ length: count }, (_, i) => ({
+  id: `m${i}`, role: i % 2 ? 'assistant' : 'user', content: `${i}`.padEnd(400, 'x'), timestamp: new Date(0),
+}));
+const settings = (extra: Partial<ChatSettings>): ChatSettings => ({ model: 'gpt-4o', temperature: 0.7, contextTokenBudget: 2000, ...extra });
+const perMessage = estimateMessageTokens(conversation(1)[0], false);
+
+describe('selectContext', () => {
+  it('sends the newest messages that fit the token budget', () => {
+    const path = conversation(30);
+
+    const { messages, omitted } = selectContext(path, settings({ contextStrategy: 'tokenBudget' }), {});
+
+    expect(messages).toHaveLength(Math.floor(2000 / perMessage));
+    expect(messages[messages.length - 1]).toBe(path[29]);
+    expect([...omitted, ...messages]).toEqual(path);
+  });
+
+  it('keeps room for the summary of the omitted messages with summarize', () => {
+    const path = conversation(30);
+
+    const { messages } = selectContext(path, settings({ contextStrategy: 'summarize' }), {});
+
+    const longestSummary = estimateTokens(withContextSummary(undefined, 'x'.repeat(1024 * 4)));
+    expect(messages.length * perMessage + longestSummary).toBeLessThanOrEqual(2000);
+    expect(messages.length).toBeGreaterThan(0);
+  });
+
+  it('uses the whole budget with summarize when nothing is left out', () => {
+    const path = conversation(15);
+
+    const { messages, omitted } = selectContext(path, settings({ contextStrategy: 'summarize' }), {});
+
+    expect(omitted).toEqual([]);
+    expect(messages).toEqual(path);
+  });
+});
@@ -0,0 +1,114 @@
+import { ApiProviderConfig, ChatMessage, ChatSettings, ModelCapabilities, TokenUsage } from '../types/chat';
+import { DEFAULT_CONTEXT_MESSAGE_LIMIT } from '../config';
+import { getChatClient } from './ai';
+import { messageText } from './ai/history';
+import { capMaxTokens } from './modelCatalog';
+import { estimateMessageTokens, estimateTokens, estimateUsage } from './tokens';
+
+// Decides which part of a long conversation is sent with a request (ChatSettings.contextStrategy).
+// With 'summarize', the messages left out are replaced by a rolling summary: it is stored on the
+// newest message it covers, and extended with the messages dropped since whenever the cut moves.
+
+const DEFAULT_REPLY_RESERVE = 4096; // Tokens kept free for the reply when the chat sets no max tokens
+const FALLBACK_TOKEN_BUDGET = 8000; // For models whose context window is unknown
+const SUMMARY_MAX_TOKENS = 1024;
+const SUMMARY_HEADING = 'Summary of the earlier conversation, which is no longer shown in full:';
+
+export interface ContextSelection {
+  messages: ChatMessage[]; // Sent to the model, oldest first
+  omitted: ChatMessage[]; // Left out (or summarized), oldest first
+}
+
+// Budget for 'tokenBudget' and 'summarize': the chat's setting, or the context window minus room for the reply
+export const getContextTokenBudget = (settings: ChatSettings, capabilities: ModelCapabilities) => {
+  if (settings.contextTokenBudget) return settings.contextTokenBudget;
+  if (!capabilities.contextWindow) return FALLBACK_TOKEN_BUDGET;
+  const reserve = capMaxTokens(settings.maxTokens, capabilities) ?? Math.min(capabilities.maxOutputTokens ?? DEFAULT_REPLY_RESERVE, DEFAULT_REPLY_RESERVE);
+  return Math.max(capabilities.contextWindow - reserve, 1);
+};
+
+// Splits `path` (oldest first, ending with the prompt) into what is sent and what is left out.
+// The newest message is always sent, even if it alone exceeds the budget.
+export const selectContext = (path: ChatMessage[], settings: ChatSettings, capabilities: ModelCapabilities): ContextSelection => {
+  const split = (start: number) => ({ messages: path.slice(start), omitted: path.slice(0, start) });
+  switch (settings.contextStrategy ?? 'all') {
+    case 'lastMessages': {
+      let remaining = settings.contextMessageLimit || DEFAULT_CONTEXT_MESSAGE_LIMIT;
+      let start = path.length;
+      while (start > 0 && remaining > 0) {
+        start--;
+        if (!path[start].isError) remaining--; // Error bubbles aren't sent, so they don't count
+      }
+      return split(start);
+    }
+    case 'tokenBudget':
+    case 'summarize': {
+      const fit = (budget: number) => {
+        let used = 0;
+        let start = path.length;
+        while (start > 0) {
+          const message = path[start - 1];
+          const tokens = message.isError ? 0 : estimateMessageTokens(message, !!capabilities.vision);
+          if (used + tokens > budget && start < path.length) break;
+          used += tokens;
+          start--;
+        }
+        return split(start);
+      };
+      const budget = getContextTokenBudget(settings, capabilities) - estimateTokens(settings.systemPrompt ?? '');
+      const selection = fit(budget);
+      if (settings.contextStrategy === 'tokenBudget' || selection.omitted.length === 0) return selection;
+      // The omitted messages' summary is added to the system prompt, so room is kept for the longest one
+      return fit(budget - SUMMARY_MAX_TOKENS - estimateTokens(SUMMARY_HEADING));
+    }
+    default:
+      return split(0);
+  }
+};
+
+// Newest summary among the omitted messages, and the omitted messages after it that it doesn't cover yet
+export const findContextSummary = (omitted: ChatMessage[]) => {
+  let index = omitted.length - 1;
+  while (index >= 0 && !omitted[index].contextSummary) index--;
+  return { summary: index >= 0 ? omitted[index].contextSummary : undefined, uncovered: omitted.slice(index + 1) };
+};
+
+// System prompt with the summary of the omitted messages appended
+export const withContextSummary = (systemPrompt: string | undefined, summary: string) =>
+  [systemPrompt?.trim(), `${SUMMARY_HEADING}\n${summary}`]
+    .filter(Boolean)
+    .join('\n\n');
+
+const SUMMARY_INSTRUCTIONS =
+  'Summarize the conversation below so it can be continued without it. Keep facts, decisions, names, ' +
+  'numbers, code identifiers and open questions; drop pleasantries. Write in the language of the conversation. ' +
+  'Reply with the summary only.';
+
+// Extends `previousSummary` (if any) with `messages` into a single new summary; also resolves to the request's usage
+export const summarizeMessages = async (
+  previousSummary: string | undefined, messages: ChatMessage[], settings: ChatSettings, provider: ApiProviderConfig,
+  capabilities: ModelCapabilities, signal?: AbortSignal,
+): Promise<{ summary: string; usage?: TokenUsage }> => {
+  const client = getChatClient(provider.providerId);
+  if (!client) throw new Error(`Provider '${provider.providerId}' is not supported yet.`);
+  const transcript = messages
+    .filter(m => !m.isError)
+    .map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${messageText(m, false)}`)
+    .join('\n\n');
+  const sections = [
+    SUMMARY_INSTRUCTIONS,
+    previousSummary && `Summary of the conversation so far:\n${previousSummary}`,
+    `${previousSummary ? 'How it continued' : 'Conversation'}:\n${transcript}`,
+  ];
+  const prompt: ChatMessage = { id: 'context-summary-request', role: 'user', content: sections.filter(Boolean).join('\n\n'), timestamp: new Date() };
+  const { content, usage } = await client.sendChat({
+    messages: [prompt],
+    settings: { model: settings.model, providerConfigId: settings.providerConfigId, temperature: 0.2, maxTokens: SUMMARY_MAX_TOKENS },
+    provider,
+    signal,
+    reasoning: capabilities.reasoning,
+  });
+  const summary = content.trim();
+  if (!summary) throw new Error('The model returned an empty summary.');
+  return { summary, usage: usage ?? estimateUsage([prompt], undefined, false, content) };
+};
@@ -0,0 +1,46 @@
+import { invoke } from '@tauri-apps/api/core';
+import { MODEL_CACHE_KEY, USAGE_LEDGER_KEY } from '../config';
+
+// Wiping and backing up app data, done by the backend (src-tauri/src/data.rs)
+
+// localStorage entries kept in backups along with the backend's files
+const BACKED_UP_LOCAL_KEYS = [MODEL_CACHE_KEY, USAGE_LEDGER_KEY];
+
+export interface WipeOptions {
+  sessions: boolean;
+  settings: boolean; // Everything in settings, provider configurations and keys included
+  apiKeys: boolean; // Only the stored keys
+  keySalt: boolean; // key.salt, which stored keys are encrypted with; also clears them
+  backup: boolean; // Take a backup first
+}
+
+export interface BackupInfo {
+  id: string;
+  createdAt: number; // Unix time in milliseconds
+  sessionCount: number;
+  hasSettings: boolean;
+}
+
+// Resolves to the backup taken first, if one was requested
+export const wipeAppData = (options: WipeOptions) => {
+  const localData = Object.fromEntries(BACKED_UP_LOCAL_KEYS.flatMap(key => {
+    const value = localStorage.getItem(key);
+    return value === null ? [] : [[key, value]];
+  }));
+  return invoke<BackupInfo | null>('wipe_app_data', { options, localData });
+};
+
+export const listBackups = () => invoke<BackupInfo[]>('list_backups');
+
+// Puts chats, settings, keys, model lists and usage history back as they were when the backup was taken.
+// Backups from before model lists and usage were kept leave the current ones as they are.
+export const restoreBackup = async (id: string) => {
+  const localData = await invoke<Record<string, string> | null>('restore_backup', { id });
+  if (!localData) return;
+  BACKED_UP_LOCAL_KEYS.forEach(key => {
+    if (key in localData) localStorage.setItem(key, localData[key]);
+    else localStorage.removeItem(key);
+  });
+};
+
+export const deleteBackup = (id: string) => invoke<void>('delete_backup', { id });
@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import { ChatMessage, ChatSession } from '../types/chat';
+import { appendMessage, getActivePath, getSiblings, removeMessage, restoreMessages, selectBranch } from './messageTree';
+
+const message = (id: string, parentId: string | null, role: ChatMessage['role'] = 'user'): ChatMessage =>
+  ({ id, role, content: id, timestamp: new Date(0), parentId });
+
+const session = (messages: ChatMessage[], activeLeafId?: string): ChatSession =>
+  ({ id: 'chat', title: 'Chat', messages, activeLeafId, createdAt: new Date(0), lastModified: new Date(0) });
+
+const ids = (messages: ChatMessage[]) => messages.map(m => m.id);
+
+// q1 → a1 → q2 → a2, the way a conversation without edits is stored
+const linear = () => session([message('q1', null), message('a1', 'q1', 'assistant'), message('q2', 'a1'), message('a2', 'q2', 'assistant')], 'a2');
+
+describe('getActivePath', () => {
+  it('follows parent links from the active leaf up to the root', () => {
+    const tree = session([...linear().messages, message('a2b', 'q2', 'assistant')], 'a2');
+
+    expect(ids(getActivePath(tree))).toEqual(['q1', 'a1', 'q2', 'a2']);
+  });
+
+  it('ends at the newest leaf when the active leaf is unset or missing', () => {
+    const tree = session([...linear().messages, message('q2b', 'a1'), message('a2b', 'q2b', 'assistant')]);
+
+    expect(ids(getActivePath(tree))).toEqual(['q1', 'a1', 'q2b', 'a2b']);
+    expect(ids(getActivePath({ ...tree, activeLeafId: 'gone' }))).toEqual(['q1', 'a1', 'q2b', 'a2b']);
+  });
+
+  it('stops at a parent cycle', () => {
+    const tree = session([message('x', 'y'), message('y', 'x')], 'x');
+
+    expect(ids(getActivePath(tree))).toEqual(['y', 'x']);
+  });
+});
+
+describe('appendMessage', () => {
+  it('adds a reply below the active leaf and makes it active', () => {
+    const { parentId, ...reply } = message('q3', null);
+
+    const next = appendMessage(linear(), reply);
+
+    expect(next.messages[next.messages.length - 1].parentId).toBe('a2');
+    expect(ids(getActivePath(next))).toEqual(['q1', 'a1', 'q2', 'a2', 'q3']);
+  });
+
+  it('adds an edited prompt as a sibling of the original, which keeps its replies', () => {
+    const original = linear();
+
+    const edited = appendMessage(original, { ...message('q2-edit', 'a1'), content: 'Edited' });
+
+    expect(ids(getSiblings(edited.messages, edited.messages.find(m => m.id === 'q2')!))).toEqual(['q2', 'q2-edit']);
+    expect(ids(getActivePath(edited))).toEqual(['q1', 'a1', 'q2-edit']);
+    expect(edited.messages.find(m => m.id === 'a2')!.parentId).toBe('q2');
+  });
+
+  it('adds a regenerated reply as a sibling of the previous one', () => {
+    const regenerated = appendMessage(linear(), message('a2-retry', 'q2', 'assistant'));
+
+    expect(ids(getSiblings(regenerated.messages, regenerated.messages.find(m => m.id === 'a2')!))).toEqual(['a2', 'a2-retry']);
+    expect(ids(getActivePath(regenerated))).toEqual(['q1', 'a1', 'q2', 'a2-retry']);
+  });
+
+  it('starts a new root when the parent is explicitly null', () => {
+    const next = appendMessage(linear(), message('q1-edit', null));
+
+    expect(ids(getSiblings(next.messages, next.messages[0]))).toEqual(['q1', 'q1-edit']);
+    expect(ids(getActivePath(next))).toEqual(['q1-edit']);
+  });
+});
+
+describe('selectBranch', () => {
+  // q2 was edited into q2b, which got its own reply and a follow-up
+  const branched = () => session([
+    ...linear().messages,
+    message('q2b', 'a1'), message('a2b', 'q2b', 'assistant'), message('q3b', 'a2b'),
+  ], 'q3b');
+
+  it('makes a sibling active and continues to its newest leaf', () => {
+    const switched = selectBranch(branched(), 'q2');
+
+    expect(switched.activeLeafId).toBe('a2');
+    expect(ids(getActivePath(switched))).toEqual(['q1', 'a1', 'q2', 'a2']);
+  });
+
+  it('follows the newest child where a branch splits further down', () => {
+    const tree = session([...branched().messages, message('a2c', 'q2', 'assistant')], 'q3b');
+
+    expect(selectBranch(tree, 'q2').activeLeafId).toBe('a2c');
+  });
+
+  it('returns to the deepest leaf of the other branch when switching back', () => {
+    const back = selectBranch(selectBranch(branched(), 'q2'), 'q2b');
+
+    expect(ids(getActivePath(back))).toEqual(['q1', 'a1', 'q2b', 'a2b', 'q3b']);
+  });
+});
+
+describe('removeMessage', () => {
+  // a1 is a branch point: q2 and q2b both answer it
+  const branched = () => session([
+    ...linear().messages,
+    message('q2b', 'a1'), message('a2b', 'q2b', 'assistant'),
+  ], 'a2');
+
+  it('removes the message with every reply below it', () => {
+    const next = removeMessage(branched(), 'a1');
+
+    expect(ids(next.messages)).toEqual(['q1']);
+    expect(next.activeLeafId).toBe('q1');
+  });
+
+  it('moves the active path onto the remaining sibling branch', () => {
+    const next = removeMessage(branched(), 'q2');
+
+    expect(ids(next.messages)).toEqual(['q1', 'a1', 'q2b', 'a2b']);
+    expect(ids(getActivePath(next))).toEqual(['q1', 'a1', 'q2b', 'a2b']);
+  });
+
+  it('falls back to the parent when the removed message had no siblings', () => {
+    const next = removeMessage(linear(), 'a2');
+
+    expect(next.activeLeafId).toBe('q2');
+  });
+
+  it('keeps the active leaf when the removed branch was not on the active path', () => {
+    const next = removeMessage(branched(), 'q2b');
+
+    expect(next.activeLeafId).toBe('a2');
+    expect(ids(next.messages)).toEqual(['q1', 'a1', 'q2', 'a2']);
+  });
+
+  it('leaves the session alone for an unknown id', () => {
+    const tree = branched();
+
+    expect(removeMessage(tree, 'gone')).toBe(tree);
+  });
+});
+
+describe('restoreMessages', () => {
+  it('puts removed messages back in creation order and returns to the branch active then', () => {
+    const before = session([...linear().messages, message('q2b', 'a1'), message('a2b', 'q2b', 'assistant')], 'a2b');
+    const removed = appendMessage(removeMessage(before, 'q2b'), message('q3', 'a2'));
+
+    const restored = restoreMessages(removed, before);
+
+    expect(ids(restored.messages)).toEqual(['q1', 'a1', 'q2', 'a2', 'q2b', 'a2b', 'q3']);
+    expect(restored.messages.find(m => m.id === 'a2b')!.parentId).toBe('q2b');
+    expect(ids(getActivePath(restored))).toEqual(['q1', 'a1', 'q2b', 'a2b']);
+  });
+
+  it('keeps the current version of messages that were changed since', () => {
+    const before = linear();
+    const removed = removeMessage(before, 'a2');
+    const edited = { ...removed, messages: removed.messages.map(m => (m.id === 'q2' ? { ...m, content: 'Changed' } : m)) };
+
+    const restored = restoreMessages(edited, before);
+
+    expect(ids(restored.messages)).toEqual(['q1', 'a1', 'q2', 'a2']);
+    expect(restored.messages.find(m => m.id === 'q2')!.content).toBe('Changed');
+  });
+});
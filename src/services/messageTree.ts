@@ -0,0 +1,90 @@
+import { ChatMessage, ChatSession } from '../types/chat';
+
+// A session's messages form a tree: each message points at the one it answers (parentId),
+// and editing or regenerating adds a sibling instead of overwriting. session.messages holds
+// every node in creation order; the transcript is the path from the root to activeLeafId.
+
+const sameParent = (a?: string | null, b?: string | null) => (a ?? null) === (b ?? null);
+
+// Root-to-leaf path ending at activeLeafId (or at the newest leaf if it is unset or missing)
+export const getActivePath = (session: ChatSession): ChatMessage[] => {
+  const byId = new Map(session.messages.map(m => [m.id, m]));
+  let current = session.activeLeafId ? byId.get(session.activeLeafId) : undefined;
+  if (!current && session.messages.length > 0) {
+    const leafId = getLatestLeafId(session.messages, session.messages[session.messages.length - 1].id);
+    current = byId.get(leafId);
+  }
+  const path: ChatMessage[] = [];
+  const seen = new Set<string>(); // Guards against a corrupt parent cycle
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.push(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path.reverse();
+};
+
+// Messages sharing this message's parent (including itself), oldest first
+export const getSiblings = (messages: ChatMessage[], message: ChatMessage) =>
+  messages.filter(m => sameParent(m.parentId, message.parentId));
+
+// Follow the newest child from a message down to a leaf
+export const getLatestLeafId = (messages: ChatMessage[], messageId: string): string => {
+  let leafId = messageId;
+  const seen = new Set<string>();
+  while (!seen.has(leafId)) {
+    seen.add(leafId);
+    const children = messages.filter(m => m.parentId === leafId);
+    if (children.length === 0) break;
+    leafId = children[children.length - 1].id;
+  }
+  return leafId;
+};
+
+// Adds a message below the active leaf (or below message.parentId if set) and makes it active
+export const appendMessage = (session: ChatSession, message: ChatMessage): ChatSession => {
+  const activePath = getActivePath(session);
+  const parentId = message.parentId !== undefined ? message.parentId : activePath[activePath.length - 1]?.id ?? null;
+  return { ...session, messages: [...session.messages, { ...message, parentId }], activeLeafId: message.id };
+};
+
+// Removes a message together with every reply below it. If the active path went through it,
+// the next remaining sibling's branch (or the parent) becomes active.
+export const removeMessage = (session: ChatSession, messageId: string): ChatSession => {
+  const target = session.messages.find(m => m.id === messageId);
+  if (!target) return session;
+  const removed = new Set([messageId]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const m of session.messages) {
+      if (m.parentId && removed.has(m.parentId) && !removed.has(m.id)) { removed.add(m.id); grew = true; }
+    }
+  }
+  const messages = session.messages.filter(m => !removed.has(m.id));
+  if (!session.activeLeafId || !removed.has(session.activeLeafId)) return { ...session, messages };
+
+  const siblings = getSiblings(messages, target);
+  const sibling = siblings[siblings.length - 1];
+  const activeLeafId = sibling
+    ? getLatestLeafId(messages, sibling.id)
+    : target.parentId ?? (messages.length > 0 ? getLatestLeafId(messages, messages[messages.length - 1].id) : undefined);
+  return { ...session, messages, activeLeafId };
+};
+
+// Make the branch containing messageId active, continuing to its newest leaf
+export const selectBranch = (session: ChatSession, messageId: string): ChatSession =>
+  ({ ...session, activeLeafId: getLatestLeafId(session.messages, messageId) });
+
+// Puts back messages of an earlier version of the session that have been removed since, at
+// their original place in creation order, and returns to the branch that was active then.
+// Messages added after that version are kept.
+export const restoreMessages = (session: ChatSession, earlier: ChatSession): ChatSession => {
+  const current = new Map(session.messages.map(m => [m.id, m]));
+  const earlierIds = new Set(earlier.messages.map(m => m.id));
+  const messages = [
+    ...earlier.messages.map(m => current.get(m.id) ?? m),
+    ...session.messages.filter(m => !earlierIds.has(m.id)),
+  ];
+  return { ...session, messages, activeLeafId: earlier.activeLeafId };
+};
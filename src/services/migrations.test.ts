@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Migration, runMigrations } from './migrations';
+
+afterEach(() => { vi.restoreAllMocks(); });
+
+// Each step records that it ran, so the order can be checked
+const MIGRATIONS: Migration[] = [
+  (record) => ({ ...record, steps: [...(record.steps ?? []), 'v0→v1'], name: record.title }),
+  (record) => ({ ...record, steps: [...record.steps, 'v1→v2'], name: record.name.toUpperCase() }),
+];
+
+describe('runMigrations', () => {
+  it('runs every step in order on a record written before versioning', () => {
+    const migrated = runMigrations<any>({ title: 'chat' }, MIGRATIONS, 'Record');
+
+    expect(migrated).toEqual({ title: 'chat', name: 'CHAT', steps: ['v0→v1', 'v1→v2'], schemaVersion: 2 });
+  });
+
+  it('only runs the steps a record has not had yet', () => {
+    const migrated = runMigrations<any>({ name: 'chat', steps: [], schemaVersion: 1 }, MIGRATIONS, 'Record');
+
+    expect(migrated).toEqual({ name: 'CHAT', steps: ['v1→v2'], schemaVersion: 2 });
+  });
+
+  it('keeps fields the steps do not know about', () => {
+    const migrated = runMigrations<any>({ title: 'chat', pinned: true, tags: ['a'] }, MIGRATIONS, 'Record');
+
+    expect(migrated).toMatchObject({ pinned: true, tags: ['a'] });
+  });
+
+  it('returns a current record unchanged apart from its version', () => {
+    const record = { name: 'chat', schemaVersion: 2 };
+
+    expect(runMigrations(record, MIGRATIONS, 'Record')).toEqual(record);
+  });
+
+  it('leaves a record from a newer build alone', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => { });
+    const record = { name: 'chat', futureField: 1, schemaVersion: 3 };
+
+    expect(runMigrations(record, MIGRATIONS, 'Record')).toBe(record);
+    expect(warn).toHaveBeenCalledWith('Record has schema version 3, newer than this build (2).');
+  });
+});
@@ -0,0 +1,20 @@
+// Ordered migrations for persisted records. migrations[n] upgrades a record from version n
+// to n + 1; records written before versioning count as version 0. Append new steps at the
+// end and never edit old ones.
+
+export type Migration = (record: any) => any;
+
+// Runs every migration the record hasn't had yet and stamps it with the current version.
+// Records from a newer build are returned untouched, so their unknown fields survive.
+export const runMigrations = <T extends { schemaVersion?: number }>(record: any, migrations: Migration[], label: string): T => {
+  const version = typeof record?.schemaVersion === 'number' ? record.schemaVersion : 0;
+  if (version > migrations.length) {
+    console.warn(`${label} has schema version ${version}, newer than this build (${migrations.length}).`);
+    return record;
+  }
+  let migrated = record;
+  for (let from = version; from < migrations.length; from++) {
+    migrated = migrations[from](migrated);
+  }
+  return { ...migrated, schemaVersion: migrations.length };
+};
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { getModelPricing, modelPricingKey } from './modelCatalog';
+
+describe('getModelPricing', () => {
+  it('takes the catalog price, and none for local providers', () => {
+    expect(getModelPricing('llama3-8b-8192', 'groq')).toEqual({ input: 0.05, output: 0.08 });
+    expect(getModelPricing('llama3-8b-8192', 'ollama')).toEqual({ input: 0, output: 0 });
+    expect(getModelPricing('unknown-model', 'openai')).toBeUndefined();
+  });
+
+  it('applies a price override only to the provider it was set for', () => {
+    const overrides = { [modelPricingKey('groq', 'llama3-8b-8192')]: { input: 1, output: 2 } };
+
+    expect(getModelPricing('llama3-8b-8192', 'groq', overrides)).toEqual({ input: 1, output: 2 });
+    expect(getModelPricing('llama3-8b-8192', 'ollama', overrides)).toEqual({ input: 0, output: 0 });
+    expect(getModelPricing('llama3-8b-8192', 'openai', { 'llama3-8b-8192': { input: 1, output: 2 } })).toBeUndefined();
+  });
+});
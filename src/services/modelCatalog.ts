@@ -0,0 +1,143 @@
+import { ApiProviderConfig, ChatSettings, ModelCapabilities, ModelPricing } from '../types/chat';
+import { API_PROVIDER_PRESETS, MODEL_CACHE_KEY, MODEL_PROVIDERS } from '../config';
+import { DiscoveredModel } from './ai';
+import { formatTokenCount } from './tokens';
+
+// Merges the static MODEL_PROVIDERS catalog with models discovered from configured endpoints
+
+export interface CatalogModel {
+  id: string;
+  name: string;
+  providerId: string;
+  discovered: boolean; // True if the model came from an endpoint's model list rather than the static catalog
+  capabilities: ModelCapabilities; // As listed or reported, before user overrides
+  pricing?: ModelPricing; // Catalog price, before user overrides
+}
+
+// Discovered model lists, keyed by ApiProviderConfig.id
+export interface ModelCacheEntry {
+  models: DiscoveredModel[];
+  fetchedAt: string; // ISO timestamp
+}
+export type ModelCache = Record<string, ModelCacheEntry>;
+
+export const loadModelCache = (): ModelCache => {
+  try {
+    const stored = localStorage.getItem(MODEL_CACHE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+};
+
+export const saveModelCache = (cache: ModelCache) => {
+  try {
+    localStorage.setItem(MODEL_CACHE_KEY, JSON.stringify(cache));
+  } catch (e) {
+    console.error("Failed to save model cache", e);
+  }
+};
+
+export const getProviderDisplayName = (providerId: string) =>
+  MODEL_PROVIDERS[providerId as keyof typeof MODEL_PROVIDERS]?.name
+  ?? API_PROVIDER_PRESETS.find(p => p.id === providerId)?.name
+  ?? providerId;
+
+// Provider types offered in the model pickers: the static catalog plus any configured type (Ollama, LM Studio, ...)
+export const getSelectableProviders = (apiProviders: ApiProviderConfig[]) => {
+  const ids = [...Object.keys(MODEL_PROVIDERS), ...apiProviders.map(p => p.providerId)];
+  return [...new Set(ids)].map(id => ({ id, name: getProviderDisplayName(id) }));
+};
+
+// Static models for the provider type first, then anything its configured endpoints reported.
+// With providerConfigId, only that configuration's discovered models are added.
+export const getModelsForProvider = (providerId: string, apiProviders: ApiProviderConfig[], modelCache: ModelCache, providerConfigId?: string): CatalogModel[] => {
+  const models: CatalogModel[] = (MODEL_PROVIDERS[providerId as keyof typeof MODEL_PROVIDERS]?.models ?? [])
+    .map(m => ({ ...m, providerId, discovered: false }));
+  const seen = new Set(models.map(m => m.id));
+  apiProviders
+    .filter(p => p.providerId === providerId && (!providerConfigId || p.id === providerConfigId))
+    .forEach(p => (modelCache[p.id]?.models ?? []).forEach(m => {
+      if (seen.has(m.id)) return;
+      seen.add(m.id);
+      const { contextWindow, maxOutputTokens, ...model } = m;
+      models.push({ ...model, providerId, discovered: true, capabilities: { contextWindow, maxOutputTokens } });
+    }));
+  return models;
+};
+
+export const findCatalogModel = (modelId: string, apiProviders: ApiProviderConfig[], modelCache: ModelCache): CatalogModel | undefined =>
+  getSelectableProviders(apiProviders)
+    .flatMap(p => getModelsForProvider(p.id, apiProviders, modelCache))
+    .find(m => m.id === modelId);
+
+// Bound configuration, if it still exists
+export const findBoundProviderConfig = (settings: ChatSettings, apiProviders: ApiProviderConfig[]) =>
+  settings.providerConfigId ? apiProviders.find(p => p.id === settings.providerConfigId) : undefined;
+
+// Provider type for chat settings: the bound configuration's, otherwise the model's
+export const getSettingsProviderId = (settings: ChatSettings, apiProviders: ApiProviderConfig[], modelCache: ModelCache) =>
+  findBoundProviderConfig(settings, apiProviders)?.providerId
+  ?? findCatalogModel(settings.model, apiProviders, modelCache)?.providerId;
+
+// Configuration a chat's requests go to: the bound one, or the first config for the model's provider
+// when none is bound or the bound one has been deleted
+export const resolveProviderConfig = (settings: ChatSettings, apiProviders: ApiProviderConfig[], modelCache: ModelCache): ApiProviderConfig | undefined => {
+  const bound = findBoundProviderConfig(settings, apiProviders);
+  if (bound) return bound;
+  const providerId = findCatalogModel(settings.model, apiProviders, modelCache)?.providerId;
+  return apiProviders.find(p => p.providerId === providerId);
+};
+
+// Model families known to accept image input, matched against the id of models the catalog doesn't describe
+const VISION_MODEL_PATTERNS = [/gpt-4o/, /gpt-4-turbo/, /gpt-4\.1/, /gpt-5/, /^o[134]\b/, /claude-3/, /claude-(opus|sonnet|haiku)-4/, /gemini/, /llava/, /vision/, /pixtral/, /gemma-?3/];
+
+// OpenAI reasoning models, which take max_completion_tokens instead of max_tokens
+const REASONING_MODEL_PATTERNS = [/^o\d/, /gpt-5/];
+
+// Capabilities of a model: the user's override for each field, then the catalog or the endpoint's
+// model list, then a guess from the model id for vision and reasoning. Streaming and system prompts are assumed.
+export const getModelCapabilities = (
+  modelId: string, apiProviders: ApiProviderConfig[], modelCache: ModelCache, overrides?: Record<string, ModelCapabilities>,
+): ModelCapabilities => {
+  const known = findCatalogModel(modelId, apiProviders, modelCache)?.capabilities ?? {};
+  const defined = (caps: ModelCapabilities) => Object.fromEntries(Object.entries(caps).filter(([, value]) => value !== undefined));
+  return {
+    vision: VISION_MODEL_PATTERNS.some(pattern => pattern.test(modelId.toLowerCase())),
+    reasoning: REASONING_MODEL_PATTERNS.some(pattern => pattern.test(modelId.toLowerCase())),
+    streaming: true,
+    systemPrompt: true,
+    ...defined(known),
+    ...defined(overrides?.[modelId] ?? {}),
+  };
+};
+
+// Reply length to request: the chat's setting, kept within what the model can produce
+export const capMaxTokens = (maxTokens: number | undefined, capabilities: ModelCapabilities) =>
+  maxTokens && capabilities.maxOutputTokens ? Math.min(maxTokens, capabilities.maxOutputTokens) : maxTokens;
+
+// E.g. "128K context · 16K output · Images · Tools", for hints under model pickers
+export const describeCapabilities = (capabilities: ModelCapabilities) => [
+  capabilities.contextWindow && `${formatTokenCount(capabilities.contextWindow)} context`,
+  capabilities.maxOutputTokens && `${formatTokenCount(capabilities.maxOutputTokens)} output`,
+  capabilities.vision ? 'Images' : 'Text only',
+  capabilities.tools && 'Tools',
+  capabilities.reasoning && 'Reasoning',
+  capabilities.streaming === false && 'No streaming',
+  capabilities.systemPrompt === false && 'No system prompt',
+].filter(Boolean).join(' · ');
+
+// Models served from the user's own machine cost nothing per token
+const LOCAL_PROVIDERS = ['ollama', 'lmstudio'];
+
+// Key of a model's price in AppSettings.modelPricing. Per provider type, since the same model id
+// can be served by several (e.g. on Groq and on a free local endpoint).
+export const modelPricingKey = (providerId: string, modelId: string) => `${providerId}:${modelId}`;
+
+// Price of a model: the user's, then the catalog's; undefined if neither knows it
+export const getModelPricing = (modelId: string, providerId: string, overrides?: Record<string, ModelPricing>): ModelPricing | undefined => {
+  const override = overrides?.[modelPricingKey(providerId, modelId)];
+  if (override) return override;
+  if (LOCAL_PROVIDERS.includes(providerId)) return { input: 0, output: 0 };
+  return getModelsForProvider(providerId, [], {}).find(m => m.id === modelId)?.pricing;
+};
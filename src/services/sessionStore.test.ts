@@ -0,0 +1,186 @@
+import { invoke } from '@tauri-apps/api/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ChatSession } from '../types/chat';
+import { storedSessions } from '../test/tauriBackend';
+import { LEGACY_SESSIONS_KEY, SESSION_MIGRATIONS, migrateLocalStorageSessions, normalizeSession, syncSessions, toStored } from './sessionStore';
+
+vi.mock('@tauri-apps/api/core', () => import('../test/tauriBackend'));
+
+// Tests run in node, which has no localStorage
+const legacyStorage = new Map<string, string>();
+beforeEach(() => {
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => legacyStorage.get(key) ?? null,
+    setItem: (key: string, value: string) => legacyStorage.set(key, value),
+    removeItem: (key: string) => legacyStorage.delete(key),
+  });
+});
+afterEach(() => {
+  vi.unstubAllGlobals();
+  legacyStorage.clear();
+  storedSessions.clear();
+  vi.mocked(invoke).mockClear();
+});
+
+const session = (id: string, extra: Partial<ChatSession> = {}): ChatSession => ({
+  id,
+  title: `Chat ${id}`,
+  messages: [{ id: `${id}-1`, role: 'user', content: 'Hi', timestamp: new Date(0), parentId: null }],
+  activeLeafId: `${id}-1`,
+  createdAt: new Date(0),
+  lastModified: new Date(0),
+  messagesLoaded: true,
+  ...extra,
+});
+
+describe('normalizeSession migrations', () => {
+  it('migrates an unversioned session step by step', () => {
+    const normalized = normalizeSession({
+      id: 'old',
+      title: 'Old chat',
+      messages: [
+        { id: 'a', role: 'user', content: 'Hi' },
+        { id: 'b', content: 'Hello' }, // Saved without a role
+        { id: 'c', role: 'assistant', content: 'Error: timeout', isError: true },
+        { id: 'd', role: 'assistant', content: '' }, // Placeholder of an interrupted reply
+      ],
+    });
+
+    expect(normalized.schemaVersion).toBe(SESSION_MIGRATIONS.length);
+    expect(normalized.messages.map(m => [m.id, m.role, m.parentId])).toEqual([
+      ['a', 'user', null],
+      ['b', 'assistant', 'a'],
+      ['c', 'assistant', 'b'],
+    ]);
+    expect(normalized.activeLeafId).toBe('c');
+  });
+
+  it('only runs the steps a session has not had yet', () => {
+    const normalized = normalizeSession({
+      id: 'v1',
+      schemaVersion: 1,
+      messages: [{ id: 'a', role: 'user', content: 'Hi' }, { id: 'b', role: 'assistant', content: '' }],
+    });
+
+    // The v0 step would have dropped the empty reply
+    expect(normalized.messages.map(m => [m.id, m.parentId])).toEqual([['a', null], ['b', 'a']]);
+    expect(normalized.activeLeafId).toBe('b');
+  });
+
+  it('keeps fields it does not know about on the session, its messages and its settings', () => {
+    const normalized: any = normalizeSession({
+      id: 'extra',
+      pinnedAt: '2024-01-01T00:00:00.000Z',
+      messages: [{ id: 'a', role: 'user', content: 'Hi', reactions: ['+1'] }],
+      settings: { model: 'gpt-4o', temperature: 0.2, reasoningEffort: 'high' },
+    });
+
+    expect(normalized.pinnedAt).toBe('2024-01-01T00:00:00.000Z');
+    expect(normalized.messages[0].reactions).toEqual(['+1']);
+    expect(normalized.settings.reasoningEffort).toBe('high');
+  });
+
+  it('leaves a session from a newer build alone and saves it with its own version', () => {
+    const consoleWarn = vi.spyOn(console, 'warn').mockImplementation(() => { });
+    const raw = {
+      id: 'future',
+      schemaVersion: SESSION_MIGRATIONS.length + 1,
+      messages: [{ id: 'a', role: 'user', content: 'Hi', branch: 'x' }, { id: 'b', role: 'assistant', content: 'Hello', branch: 'x' }],
+      branches: { x: ['a', 'b'] },
+    };
+
+    const normalized: any = normalizeSession(raw);
+
+    expect(normalized.schemaVersion).toBe(SESSION_MIGRATIONS.length + 1);
+    expect(normalized.messages.map((m: any) => m.parentId)).toEqual([undefined, undefined]);
+    expect(normalized.activeLeafId).toBeUndefined();
+    expect(normalized.branches).toEqual({ x: ['a', 'b'] });
+    expect(toStored(normalized).schemaVersion).toBe(SESSION_MIGRATIONS.length + 1);
+    consoleWarn.mockRestore();
+  });
+});
+
+describe('migrateLocalStorageSessions', () => {
+  it('imports the legacy sessions, migrated to the current schema, and removes them from localStorage', async () => {
+    legacyStorage.set(LEGACY_SESSIONS_KEY, JSON.stringify([
+      {
+        id: 'old',
+        title: 'Old chat',
+        messages: [
+          { id: 'a', role: 'user', content: 'Hi', timestamp: '2024-01-01T00:00:00.000Z' },
+          { id: 'b', content: 'Hello', timestamp: '2024-01-01T00:00:01.000Z' },
+        ],
+        createdAt: '2024-01-01T00:00:00.000Z',
+        lastModified: '2024-01-01T00:00:01.000Z',
+      },
+    ]));
+
+    await expect(migrateLocalStorageSessions()).resolves.toBe(1);
+
+    const stored = storedSessions.get('old');
+    expect(stored.schemaVersion).toBe(SESSION_MIGRATIONS.length);
+    expect(stored.activeLeafId).toBe('b');
+    expect(stored.messages.map((m: any) => [m.id, m.role, m.parentId])).toEqual([['a', 'user', null], ['b', 'assistant', 'a']]);
+    expect(stored.createdAt).toBe('2024-01-01T00:00:00.000Z');
+    expect(legacyStorage.has(LEGACY_SESSIONS_KEY)).toBe(false);
+  });
+
+  it('does nothing when there is nothing to migrate', async () => {
+    await expect(migrateLocalStorageSessions()).resolves.toBe(0);
+
+    expect(invoke).not.toHaveBeenCalled();
+  });
+
+  it('discards a corrupt blob', async () => {
+    legacyStorage.set(LEGACY_SESSIONS_KEY, '[{"id":');
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => { });
+
+    await expect(migrateLocalStorageSessions()).resolves.toBe(0);
+
+    expect(legacyStorage.has(LEGACY_SESSIONS_KEY)).toBe(false);
+    expect(storedSessions.size).toBe(0);
+    consoleError.mockRestore();
+  });
+
+  it('keeps the blob for the next launch when the backend fails to import it', async () => {
+    legacyStorage.set(LEGACY_SESSIONS_KEY, JSON.stringify([{ id: 'old', title: 'Old chat', messages: [] }]));
+    vi.mocked(invoke).mockRejectedValueOnce('Failed to write index');
+
+    await expect(migrateLocalStorageSessions()).rejects.toBe('Failed to write index');
+
+    expect(legacyStorage.has(LEGACY_SESSIONS_KEY)).toBe(true);
+  });
+});
+
+describe('syncSessions', () => {
+  it('saves new and changed sessions, skips unchanged ones and deletes removed ones', async () => {
+    const unchanged = session('unchanged');
+    const removed = session('removed');
+    const persisted = new Map([['unchanged', unchanged], ['changed', session('changed')], ['removed', removed]]);
+    storedSessions.set('removed', removed);
+    const changed = session('changed', { title: 'Renamed' });
+
+    await syncSessions([unchanged, changed, session('new')], persisted);
+
+    const saved = vi.mocked(invoke).mock.calls.filter(([command]) => command === 'save_session').map(([, args]) => (args as any).session.id);
+    expect(saved).toEqual(['changed', 'new']);
+    expect(invoke).toHaveBeenCalledWith('delete_session', { id: 'removed' });
+    expect(storedSessions.has('removed')).toBe(false);
+    expect(storedSessions.get('changed').title).toBe('Renamed');
+    expect([...persisted.keys()]).toEqual(['unchanged', 'changed', 'new']);
+    expect(persisted.get('changed')).toBe(changed);
+  });
+
+  it('keeps the stored messages when saving a session whose messages were never loaded', async () => {
+    storedSessions.set('chat', { ...JSON.parse(JSON.stringify(session('chat'))), schemaVersion: 1 });
+    const [summary] = (await invoke<any[]>('list_sessions')).map(normalizeSession);
+    expect(summary.messagesLoaded).toBe(false);
+
+    await syncSessions([{ ...summary, title: 'Renamed' }], new Map());
+
+    const stored = storedSessions.get('chat');
+    expect(stored.title).toBe('Renamed');
+    expect(stored.messages.map((m: any) => m.id)).toEqual(['chat-1']);
+    expect(stored.schemaVersion).toBe(1);
+  });
+});
@@ -0,0 +1,157 @@
+import { invoke } from '@tauri-apps/api/core';
+import { v4 as uuidv4 } from 'uuid';
+import { ChatMessage, ChatSession } from '../types/chat';
+import { DEFAULT_CHAT_SETTINGS } from '../config';
+import { Migration, runMigrations } from './migrations';
+
+// Sessions are persisted by the backend (src-tauri/src/sessions.rs), one file per session.
+// Listing returns sessions without messages; a session's messages are loaded when it is opened.
+
+// Where sessions lived before the file-backed store; migrated once, then removed
+export const LEGACY_SESSIONS_KEY = "ai_chat_sessions_v4_dark";
+
+// Upgrades for stored session records, see services/migrations.ts
+export const SESSION_MIGRATIONS: Migration[] = [
+  // v0 → v1: sessions from localStorage and the first file store. Messages could be saved
+  // without a role, and an app closed mid-reply left an empty assistant placeholder behind.
+  (session) => ({
+    ...session,
+    messages: Array.isArray(session.messages)
+      ? session.messages
+        .map((m: any) => ({ ...m, role: m.role === "user" ? "user" : "assistant", isError: m.isError || false }))
+        .filter((m: any) => m.role === "user" || m.isError || m.content)
+      : session.messages,
+  }),
+  // v1 → v2: messages become a tree (services/messageTree.ts). A flat transcript is a single
+  // branch, each message following the one before it.
+  (session) => {
+    if (!Array.isArray(session.messages)) return session; // Summary without messages; migrated when loaded
+    const messages = session.messages.map((m: any, i: number) => ({ ...m, parentId: i === 0 ? null : session.messages[i - 1].id }));
+    return { ...session, messages, activeLeafId: messages[messages.length - 1]?.id };
+  },
+];
+
+// Safe date parsing
+const parseDate = (dateStr: string | Date | undefined): Date => {
+  if (!dateStr) return new Date();
+  try {
+    const date = new Date(dateStr);
+    return isNaN(date.getTime()) ? new Date() : date;
+  } catch {
+    return new Date();
+  }
+};
+
+// Unknown fields are spread through so data written by a newer build isn't dropped on save
+const normalizeMessage = (m: any): ChatMessage => ({
+  ...m,
+  id: m.id || uuidv4(),
+  role: m.role === "user" ? "user" : "assistant",
+  content: m.content || "",
+  timestamp: parseDate(m.timestamp),
+  isError: m.isError || false,
+});
+
+// Turn stored JSON (dates as strings, possibly missing fields) back into a ChatSession
+export const normalizeSession = (raw: any): ChatSession => {
+  const s = runMigrations<any>(raw, SESSION_MIGRATIONS, `Session ${raw?.id}`);
+  return {
+    ...s,
+    id: s.id || uuidv4(),
+    title: s.title || "Untitled Chat",
+    messages: Array.isArray(s.messages) ? s.messages.map(normalizeMessage) : [],
+    createdAt: parseDate(s.createdAt),
+    lastModified: parseDate(s.lastModified),
+    archivedAt: s.archivedAt ? parseDate(s.archivedAt) : undefined,
+    settings: s.settings
+      ? {
+        ...s.settings,
+        model: s.settings.model || DEFAULT_CHAT_SETTINGS.model,
+        temperature: typeof s.settings.temperature === "number" ? s.settings.temperature : DEFAULT_CHAT_SETTINGS.temperature,
+        systemPrompt: s.settings.systemPrompt ?? DEFAULT_CHAT_SETTINGS.systemPrompt,
+        maxTokens: s.settings.maxTokens,
+        topP: s.settings.topP,
+        providerConfigId: s.settings.providerConfigId,
+      }
+      : undefined,
+    messagesLoaded: Array.isArray(s.messages),
+  };
+};
+
+// A session whose messages were never loaded is saved without them, so the backend keeps the
+// stored messages (and the schema version they were written with)
+export const toStored = ({ messagesLoaded, ...session }: ChatSession) =>
+  messagesLoaded === false
+    ? { ...session, messages: undefined, schemaVersion: undefined }
+    : { ...session, schemaVersion: session.schemaVersion ?? SESSION_MIGRATIONS.length };
+
+export const listSessions = async (): Promise<ChatSession[]> =>
+  (await invoke<any[]>("list_sessions")).map(normalizeSession);
+
+export const loadSession = async (id: string): Promise<ChatSession> =>
+  normalizeSession(await invoke("load_session", { id }));
+
+export const saveSession = (session: ChatSession) =>
+  invoke<void>("save_session", { session: toStored(session) });
+
+export const deleteSession = (id: string) => invoke<void>("delete_session", { id });
+
+// Writes many sessions at once; resolves to how many were stored
+export const importSessions = (sessions: ChatSession[]) =>
+  invoke<number>("import_sessions", { sessions: sessions.map(toStored) });
+
+// Moves sessions from the old localStorage blob into the file store. The blob is only
+// removed once the backend has written them, so a failed migration is retried next launch.
+export const migrateLocalStorageSessions = async (): Promise<number> => {
+  const stored = localStorage.getItem(LEGACY_SESSIONS_KEY);
+  if (!stored) return 0;
+  let legacySessions: unknown;
+  try {
+    legacySessions = JSON.parse(stored);
+  } catch (error) {
+    console.error("Legacy sessions in localStorage are corrupt, discarding them:", error);
+    localStorage.removeItem(LEGACY_SESSIONS_KEY);
+    return 0;
+  }
+  const sessions = Array.isArray(legacySessions) ? legacySessions.map(normalizeSession) : [];
+  const imported = await importSessions(sessions);
+  localStorage.removeItem(LEGACY_SESSIONS_KEY);
+  return imported;
+};
+
+// Saves sessions whose object changed since the last sync and deletes the ones that are gone.
+// `persisted` maps session id to the object last written and is updated in place.
+export const syncSessions = async (sessions: ChatSession[], persisted: Map<string, ChatSession>) => {
+  const currentIds = new Set(sessions.map(s => s.id));
+  for (const session of sessions) {
+    if (persisted.get(session.id) === session) continue;
+    await saveSession(session);
+    persisted.set(session.id, session);
+  }
+  for (const id of [...persisted.keys()]) {
+    if (currentIds.has(id)) continue;
+    await deleteSession(id);
+    persisted.delete(id);
+  }
+};
+
+export interface MessageSearchFilters {
+  role?: 'user' | 'assistant';
+  model?: string;
+  defaultModel?: string; // Model of chats without their own settings, so the model filter covers them
+  from?: string; // ISO timestamp
+  to?: string; // ISO timestamp
+}
+
+export interface MessageSearchHit {
+  sessionId: string;
+  sessionTitle: string;
+  messageId: string;
+  role: 'user' | 'assistant';
+  snippet: string;
+  timestamp: string;
+}
+
+// Full-text search over every stored message (newest first, capped by the backend)
+export const searchMessages = (query: string, filters?: MessageSearchFilters) =>
+  invoke<MessageSearchHit[]>("search_messages", { query, filters });
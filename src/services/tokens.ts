@@ -0,0 +1,62 @@
+import { ChatMessage, TokenUsage } from '../types/chat';
+import { messageImages, messageText } from './ai/history';
+
+// Local token counts, for estimates before anything is sent and for replies whose provider
+// doesn't report usage. Counted with OpenAI's o200k tokenizer; other providers tokenize
+// differently, so counts for their models are approximate.
+
+const CHARS_PER_TOKEN = 4; // Used until the tokenizer has loaded
+const IMAGE_TOKENS = 1000; // What a mid-sized image costs with most providers
+const MESSAGE_OVERHEAD_TOKENS = 4; // Role markers and separators
+
+let countTextTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+// Messages don't change once written, so their counts are kept; indexed by whether images are sent
+let messageTokenCache = [new WeakMap<ChatMessage, number>(), new WeakMap<ChatMessage, number>()];
+
+// The tokenizer's vocabulary is large, so it is loaded after startup rather than bundled with the app
+export const loadTokenizer = async () => {
+  const { countTokens } = await import('gpt-tokenizer/encoding/o200k_base');
+  countTextTokens = text => countTokens(text);
+  messageTokenCache = [new WeakMap(), new WeakMap()];
+};
+
+export const estimateTokens = (text: string) => (text ? countTextTokens(text) : 0);
+
+export const estimateMessageTokens = (message: ChatMessage, supportsImages: boolean) => {
+  const cache = messageTokenCache[supportsImages ? 1 : 0];
+  let tokens = cache.get(message);
+  if (tokens === undefined) {
+    tokens = estimateTokens(messageText(message, supportsImages))
+      + messageImages(message, supportsImages).length * IMAGE_TOKENS
+      + MESSAGE_OVERHEAD_TOKENS;
+    cache.set(message, tokens);
+  }
+  return tokens;
+};
+
+// Prompt size of a conversation: the system prompt plus every message that would be sent
+export const estimateConversationTokens = (messages: ChatMessage[], systemPrompt: string | undefined, supportsImages: boolean) =>
+  estimateTokens(systemPrompt ?? '')
+  + messages.filter(m => !m.isError).reduce((total, m) => total + estimateMessageTokens(m, supportsImages), 0);
+
+// Usage of a request whose provider didn't report it
+export const estimateUsage = (messages: ChatMessage[], systemPrompt: string | undefined, supportsImages: boolean, reply: string): TokenUsage => ({
+  promptTokens: estimateConversationTokens(messages, systemPrompt, supportsImages),
+  completionTokens: estimateTokens(reply),
+  estimated: true,
+});
+
+// Usage of every reply in `messages`, all branches included; estimated if any part is.
+// The cost adds up the replies that have one, and is left out if none has.
+export const sumUsage = (messages: ChatMessage[]): TokenUsage =>
+  messages.reduce<TokenUsage>((total, { usage }) => (usage ? {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    estimated: total.estimated || usage.estimated,
+    cost: usage.cost === undefined ? total.cost : (total.cost ?? 0) + usage.cost,
+  } : total), { promptTokens: 0, completionTokens: 0, estimated: false });
+
+// E.g. 950, 12K, 1.2M
+export const formatTokenCount = (tokens: number) =>
+  tokens >= 1000000 ? `${+(tokens / 1000000).toFixed(1)}M` : tokens >= 10000 ? `${Math.round(tokens / 1000)}K` : tokens.toLocaleString();
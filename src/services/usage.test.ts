@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { ApiProviderConfig } from '../types/chat';
+import { UsageLedger, computeCost, formatCost, getBudgetStatus, groupUsage, recordUsage, usageSince } from './usage';
+
+const provider = (id: string, extra: Partial<ApiProviderConfig> = {}): ApiProviderConfig =>
+  ({ id, providerId: 'openai', name: `Config ${id}`, apiKey: '', status: 'valid', ...extra });
+
+const openai = provider('openai-1');
+const groq = provider('groq-1', { providerId: 'groq' });
+
+// Local dates, as the ledger keys days in local time
+const jan31 = new Date(2024, 0, 31, 23, 30);
+const feb1 = new Date(2024, 1, 1, 0, 30);
+
+describe('computeCost', () => {
+  it('prices prompt and completion tokens per million', () => {
+    expect(computeCost({ promptTokens: 1000000, completionTokens: 0 }, { input: 2.5, output: 10 })).toBe(2.5);
+    expect(computeCost({ promptTokens: 2000, completionTokens: 500 }, { input: 2.5, output: 10 })).toBeCloseTo(0.01);
+  });
+
+  it('is unknown without a price', () => {
+    expect(computeCost({ promptTokens: 2000, completionTokens: 500 }, undefined)).toBeUndefined();
+  });
+});
+
+describe('recordUsage', () => {
+  it('adds requests up per day, configuration and model', () => {
+    let ledger: UsageLedger = [];
+    ledger = recordUsage(ledger, openai, 'gpt-4o', { promptTokens: 100, completionTokens: 20, cost: 0.5 }, jan31);
+    ledger = recordUsage(ledger, openai, 'gpt-4o', { promptTokens: 50, completionTokens: 10, cost: 0.25 }, jan31);
+    ledger = recordUsage(ledger, openai, 'gpt-4o-mini', { promptTokens: 10, completionTokens: 1, cost: 0.01 }, jan31);
+    ledger = recordUsage(ledger, openai, 'gpt-4o', { promptTokens: 1, completionTokens: 1, cost: 0.01 }, feb1);
+
+    expect(ledger.map(e => [e.day, e.model, e.requests])).toEqual([
+      ['2024-01-31', 'gpt-4o', 2],
+      ['2024-01-31', 'gpt-4o-mini', 1],
+      ['2024-02-01', 'gpt-4o', 1],
+    ]);
+    expect(ledger[0]).toMatchObject({ promptTokens: 150, completionTokens: 30, cost: 0.75, unpricedRequests: 0 });
+  });
+
+  it('counts requests without a known cost separately, leaving them out of the cost', () => {
+    let ledger = recordUsage([], groq, 'llama-3.3-70b', { promptTokens: 100, completionTokens: 20 }, jan31);
+    ledger = recordUsage(ledger, groq, 'llama-3.3-70b', { promptTokens: 100, completionTokens: 20, cost: 0.1 }, jan31);
+
+    expect(ledger).toEqual([expect.objectContaining({ requests: 2, cost: 0.1, unpricedRequests: 1, promptTokens: 200 })]);
+  });
+
+  it('keeps the latest name of the configuration', () => {
+    let ledger = recordUsage([], openai, 'gpt-4o', { promptTokens: 1, completionTokens: 1, cost: 0 }, jan31);
+    ledger = recordUsage(ledger, { ...openai, name: 'Work' }, 'gpt-4o', { promptTokens: 1, completionTokens: 1, cost: 0 }, jan31);
+
+    expect(ledger[0].providerConfigName).toBe('Work');
+  });
+});
+
+describe('groupUsage', () => {
+  const ledger = [
+    { promptTokens: 1000, completionTokens: 100, cost: 0.2, model: 'gpt-4o', config: openai, date: jan31 },
+    { promptTokens: 500, completionTokens: 50, cost: 0.1, model: 'gpt-4o', config: openai, date: feb1 },
+    { promptTokens: 9000, completionTokens: 900, cost: undefined, model: 'llama-3.3-70b', config: groq, date: feb1 },
+  ].reduce<UsageLedger>((entries, { model, config, date, ...usage }) => recordUsage(entries, config, model, usage, date), []);
+
+  it('totals by configuration, most expensive first, naming deleted configurations', () => {
+    expect(groupUsage(ledger, 'providerConfig', { 'openai-1': 'OpenAI' })).toEqual([
+      { key: 'openai-1', label: 'OpenAI', requests: 2, tokens: 1650, cost: expect.closeTo(0.3), unpricedRequests: 0 },
+      { key: 'groq-1', label: 'Config groq-1 (deleted)', requests: 1, tokens: 9900, cost: 0, unpricedRequests: 1 },
+    ]);
+  });
+
+  it('totals by model, with tokens breaking ties in cost', () => {
+    const zeroCost = ledger.map(e => ({ ...e, cost: 0 }));
+
+    expect(groupUsage(zeroCost, 'model').map(g => g.key)).toEqual(['llama-3.3-70b', 'gpt-4o']);
+  });
+
+  it('totals by day, most recent first', () => {
+    expect(groupUsage(ledger, 'day').map(g => [g.key, g.requests])).toEqual([['2024-02-01', 2], ['2024-01-31', 1]]);
+  });
+
+  it('limits entries to the last days, today included', () => {
+    expect(usageSince(ledger, 1, feb1).map(e => e.day)).toEqual(['2024-02-01', '2024-02-01']);
+    expect(usageSince(ledger, 2, feb1)).toHaveLength(3);
+    expect(usageSince(ledger, undefined, feb1)).toBe(ledger);
+  });
+});
+
+describe('getBudgetStatus', () => {
+  const budgeted = { ...openai, monthlyBudget: 1 };
+  const ledger = recordUsage(
+    recordUsage([], openai, 'gpt-4o', { promptTokens: 0, completionTokens: 0, cost: 0.6 }, jan31),
+    groq, 'llama-3.3-70b', { promptTokens: 0, completionTokens: 0, cost: 5 }, jan31, // Another configuration's spending
+  );
+  const withTodaysSpending = recordUsage(ledger, openai, 'gpt-4o', { promptTokens: 0, completionTokens: 0, cost: 0.4 }, jan31);
+
+  it('is exceeded once this month\'s spending of the configuration reaches the budget', () => {
+    expect(getBudgetStatus(budgeted, ledger, jan31)).toEqual({ spent: 0.6, budget: 1, exceeded: false });
+    expect(getBudgetStatus(budgeted, withTodaysSpending, jan31)).toEqual({ spent: 1, budget: 1, exceeded: true });
+  });
+
+  it('resets when the month changes', () => {
+    expect(getBudgetStatus(budgeted, withTodaysSpending, feb1)).toEqual({ spent: 0, budget: 1, exceeded: false });
+  });
+
+  it('is null for a configuration without a budget', () => {
+    expect(getBudgetStatus(openai, withTodaysSpending, jan31)).toBeNull();
+  });
+});
+
+describe('formatCost', () => {
+  it('keeps more digits for small amounts', () => {
+    expect([0, 0.0042, 0.5, 12.5].map(formatCost)).toEqual(['$0.00', '$0.0042', '$0.50', '$12.50']);
+  });
+});
@@ -0,0 +1,123 @@
+import { ApiProviderConfig, ModelPricing, TokenUsage } from '../types/chat';
+import { USAGE_LEDGER_KEY } from '../config';
+
+// Token usage and spending of every request (replies, titles, summaries), kept in localStorage.
+// Requests are added up per day, API configuration and model, so the ledger stays small.
+
+export interface UsageEntry {
+  day: string; // YYYY-MM-DD, local time
+  providerConfigId: string;
+  providerConfigName: string; // As it was, so spending of deleted configurations keeps a name
+  model: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number; // USD
+  unpricedRequests: number; // Requests whose model had no known price, not included in cost
+}
+export type UsageLedger = UsageEntry[];
+
+export type UsageGrouping = 'providerConfig' | 'model' | 'day';
+
+export interface UsageTotals {
+  key: string;
+  label: string;
+  requests: number;
+  tokens: number;
+  cost: number;
+  unpricedRequests: number;
+}
+
+export const loadUsageLedger = (): UsageLedger => {
+  try {
+    const stored = localStorage.getItem(USAGE_LEDGER_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveUsageLedger = (ledger: UsageLedger) => {
+  try {
+    localStorage.setItem(USAGE_LEDGER_KEY, JSON.stringify(ledger));
+  } catch (e) {
+    console.error("Failed to save usage ledger", e);
+  }
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+export const toDayKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+const toMonthKey = (date: Date) => toDayKey(date).slice(0, 7);
+
+export const computeCost = (usage: TokenUsage, pricing: ModelPricing | undefined) =>
+  pricing ? (usage.promptTokens * pricing.input + usage.completionTokens * pricing.output) / 1000000 : undefined;
+
+// Ledger with one more request added to its day, configuration and model; usage.cost is left out if unknown
+export const recordUsage = (ledger: UsageLedger, provider: ApiProviderConfig, model: string, usage: TokenUsage, date = new Date()): UsageLedger => {
+  const day = toDayKey(date);
+  const index = ledger.findIndex(e => e.day === day && e.providerConfigId === provider.id && e.model === model);
+  const existing: UsageEntry = index >= 0 ? ledger[index] : {
+    day, providerConfigId: provider.id, providerConfigName: provider.name, model,
+    requests: 0, promptTokens: 0, completionTokens: 0, cost: 0, unpricedRequests: 0,
+  };
+  const updated: UsageEntry = {
+    ...existing,
+    providerConfigName: provider.name,
+    requests: existing.requests + 1,
+    promptTokens: existing.promptTokens + usage.promptTokens,
+    completionTokens: existing.completionTokens + usage.completionTokens,
+    cost: existing.cost + (usage.cost ?? 0),
+    unpricedRequests: existing.unpricedRequests + (usage.cost === undefined ? 1 : 0),
+  };
+  return index >= 0 ? ledger.map((e, i) => (i === index ? updated : e)) : [...ledger, updated];
+};
+
+// Entries from `days` days ago (today included) onwards; all of them without `days`
+export const usageSince = (ledger: UsageLedger, days?: number, now = new Date()) => {
+  if (!days) return ledger;
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate() - (days - 1));
+  return ledger.filter(e => e.day >= toDayKey(start));
+};
+
+export const usageThisMonth = (ledger: UsageLedger, now = new Date()) =>
+  ledger.filter(e => e.day.startsWith(toMonthKey(now)));
+
+// Totals per configuration, model or day, most expensive (or most recent day) first
+export const groupUsage = (entries: UsageEntry[], grouping: UsageGrouping, configNames: Record<string, string> = {}): UsageTotals[] => {
+  const groups = new Map<string, UsageTotals>();
+  entries.forEach(e => {
+    const key = grouping === 'providerConfig' ? e.providerConfigId : grouping === 'model' ? e.model : e.day;
+    const label = grouping === 'providerConfig' ? configNames[key] ?? `${e.providerConfigName} (deleted)` : key;
+    const group = groups.get(key) ?? { key, label, requests: 0, tokens: 0, cost: 0, unpricedRequests: 0 };
+    groups.set(key, {
+      ...group,
+      requests: group.requests + e.requests,
+      tokens: group.tokens + e.promptTokens + e.completionTokens,
+      cost: group.cost + e.cost,
+      unpricedRequests: group.unpricedRequests + e.unpricedRequests,
+    });
+  });
+  const totals = [...groups.values()];
+  return grouping === 'day'
+    ? totals.sort((a, b) => b.key.localeCompare(a.key))
+    : totals.sort((a, b) => b.cost - a.cost || b.tokens - a.tokens);
+};
+
+export interface BudgetStatus {
+  spent: number; // USD this calendar month
+  budget: number;
+  exceeded: boolean;
+}
+
+// Month-to-date spending of a configuration against its budget; null if it has none
+export const getBudgetStatus = (provider: ApiProviderConfig, ledger: UsageLedger, now = new Date()): BudgetStatus | null => {
+  if (!provider.monthlyBudget) return null;
+  const spent = usageThisMonth(ledger, now)
+    .filter(e => e.providerConfigId === provider.id)
+    .reduce((total, e) => total + e.cost, 0);
+  return { spent, budget: provider.monthlyBudget, exceeded: spent >= provider.monthlyBudget };
+};
+
+// Small amounts keep more digits, a single reply often costs fractions of a cent
+export const formatCost = (usd: number) =>
+  usd === 0 ? '$0.00' : usd < 0.01 ? `$${usd.toFixed(4)}` : usd < 100 ? `$${usd.toFixed(2)}` : `$${Math.round(usd).toLocaleString()}`;
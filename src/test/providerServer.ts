@@ -0,0 +1,61 @@
+import { createServer, IncomingHttpHeaders, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+
+// Local HTTP server standing in for a provider's API in adapter tests.
+// Every request is recorded; the test's handler decides the reply.
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  headers: IncomingHttpHeaders;
+  body: any; // Parsed JSON, or undefined for requests without a body
+}
+
+export type ProviderServerHandler = (request: RecordedRequest, response: ServerResponse) => void;
+
+export interface ProviderServer {
+  baseUrl: string;
+  requests: RecordedRequest[];
+  setHandler: (handler: ProviderServerHandler) => void;
+  close: () => Promise<void>;
+}
+
+export const startProviderServer = async (): Promise<ProviderServer> => {
+  const requests: RecordedRequest[] = [];
+  let handler: ProviderServerHandler = (_, response) => sendJson(response, 404, { error: { message: 'No handler set' } });
+
+  const server = createServer((req, res) => {
+    let raw = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const request = { method: req.method ?? 'GET', path: req.url ?? '/', headers: req.headers, body: raw ? JSON.parse(raw) : undefined };
+      requests.push(request);
+      handler(request, res);
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}/v1`,
+    requests,
+    setHandler: next => { handler = next; },
+    close: () => new Promise<void>(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+};
+
+export const sendJson = (response: ServerResponse, status: number, body: unknown) => {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+};
+
+// Writes `chunks` as separate writes of a text/event-stream reply, each given verbatim
+export const sendEventStream = (response: ServerResponse, chunks: string[]) => {
+  response.writeHead(200, { 'Content-Type': 'text/event-stream' });
+  chunks.forEach(chunk => response.write(chunk));
+  response.end();
+};
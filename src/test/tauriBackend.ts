@@ -0,0 +1,161 @@
+// Stand-in for `@tauri-apps/api/core` and `@tauri-apps/api/event` in tests, mocked with
+// vi.mock(..., () => import('../../test/tauriBackend')). It answers `provider_request` and
+// `cancel_provider_request` the way src-tauri/src/ai.rs does, but with fetch, so adapters
+// can be tested end to end against a local server (see providerServer.ts). The session
+// commands of src-tauri/src/sessions.rs are kept in memory.
+
+import { vi } from 'vitest';
+import { DEFAULT_PROVIDER_BASE_URLS } from '../config';
+import { ApiProviderConfig } from '../types/chat';
+
+type EventCallback = (event: { payload: any }) => void;
+
+interface StoredProvider {
+  providerId: string;
+  baseUrl?: string;
+  apiKey: string;
+}
+
+const STREAM_EVENT = 'provider-stream';
+
+const listeners = new Map<string, Set<EventCallback>>();
+const inFlight = new Map<string, AbortController>();
+
+// Saved configurations as load_provider_credentials would return them, by ApiProviderConfig.id
+export const storedProviders = new Map<string, StoredProvider>();
+export const saveProvider = (config: ApiProviderConfig, apiKey: string) =>
+  storedProviders.set(config.id, { providerId: config.providerId, baseUrl: config.baseUrl, apiKey });
+// Arguments of every provider_request, as the backend would receive them
+export const providerRequests: any[] = [];
+// Session files, by id
+export const storedSessions = new Map<string, any>();
+
+const authHeaders = (providerId: string, apiKey: string): Record<string, string> => {
+  if (!apiKey) return {};
+  if (providerId === 'anthropic') return { 'x-api-key': apiKey };
+  if (providerId === 'google') return { 'x-goog-api-key': apiKey };
+  return { Authorization: `Bearer ${apiKey}` };
+};
+
+// is_under_base_url in ai.rs
+const isUnderBaseUrl = (url: string, baseUrl: string) => {
+  try {
+    const target = new URL(url);
+    const base = new URL(baseUrl.trim());
+    const basePath = base.pathname.replace(/\/+$/, '');
+    return target.origin === base.origin && (target.pathname === basePath || target.pathname.startsWith(`${basePath}/`));
+  } catch {
+    return false;
+  }
+};
+
+// The headers execute_request adds, or the error it refuses a key with
+const storedAuthHeaders = (request: any): Record<string, string> => {
+  const stored = storedProviders.get(request.providerConfigId);
+  if (!stored?.apiKey) return {};
+  const baseUrl = stored.baseUrl?.trim() || DEFAULT_PROVIDER_BASE_URLS[stored.providerId];
+  if (!baseUrl || !isUnderBaseUrl(request.url, baseUrl)) {
+    throw { kind: 'config', message: `The saved API key is only sent to the saved base URL. Save the configuration to use it with ${request.url}.` };
+  }
+  return authHeaders(stored.providerId, stored.apiKey);
+};
+
+const emit = (event: string, payload: unknown) => listeners.get(event)?.forEach(callback => callback({ payload }));
+
+const providerRequest = async (request: any) => {
+  providerRequests.push(request);
+  const auth = storedAuthHeaders(request);
+  const controller = new AbortController();
+  inFlight.set(request.requestId, controller);
+  try {
+    let response: Response;
+    try {
+      response = await fetch(request.url, {
+        method: request.method,
+        headers: {
+          ...request.headers,
+          ...auth,
+          ...(request.body != null ? { 'Content-Type': 'application/json' } : {}),
+        },
+        body: request.body != null ? JSON.stringify(request.body) : undefined,
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (controller.signal.aborted) throw error;
+      throw { kind: 'connect', message: `Could not connect to ${request.url}` };
+    }
+    if (!response.ok) {
+      throw { kind: 'http', message: `HTTP ${response.status}`, status: response.status, body: await response.text() };
+    }
+    if (!request.stream) return { status: response.status, body: await response.text() };
+
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      emit(STREAM_EVENT, { requestId: request.requestId, chunk: decoder.decode(value, { stream: true }), done: false });
+    }
+    emit(STREAM_EVENT, { requestId: request.requestId, chunk: decoder.decode(), done: true });
+    return { status: response.status, body: '' };
+  } catch (error) {
+    if (controller.signal.aborted) throw { kind: 'cancelled', message: 'Request cancelled' };
+    throw error;
+  } finally {
+    inFlight.delete(request.requestId);
+  }
+};
+
+// store_session in sessions.rs: a session without `messages` keeps the stored ones and their schema version
+const storeSession = (session: any) => {
+  if (typeof session?.id !== 'string' || !session.id) throw 'Session has no id';
+  if (!('messages' in session)) {
+    const stored = storedSessions.get(session.id);
+    session.messages = stored?.messages ?? [];
+    if (stored?.schemaVersion !== undefined) session.schemaVersion = stored.schemaVersion;
+    else delete session.schemaVersion;
+  }
+  storedSessions.set(session.id, session);
+};
+
+// A vi.fn, so a test can make a command fail with mockRejectedValueOnce
+export const invoke = vi.fn(async (command: string, args: any = {}): Promise<any> => {
+  args = JSON.parse(JSON.stringify(args)); // Arguments reach the backend as JSON
+  switch (command) {
+    case 'provider_request':
+      return providerRequest(args.request);
+    case 'cancel_provider_request':
+      inFlight.get(args.requestId)?.abort();
+      return;
+    case 'list_sessions':
+      return [...storedSessions.values()].map(({ messages, ...summary }) => summary);
+    case 'load_session':
+      if (!storedSessions.has(args.id)) throw `Session ${args.id} not found`;
+      return storedSessions.get(args.id);
+    case 'save_session':
+      storeSession(args.session);
+      return;
+    case 'delete_session':
+      storedSessions.delete(args.id);
+      return;
+    case 'import_sessions':
+      // Sessions that can't be stored are skipped, as the backend does
+      return args.sessions.filter((session: any) => {
+        try {
+          storeSession(session);
+          return true;
+        } catch {
+          return false;
+        }
+      }).length;
+    default:
+      throw new Error(`Unexpected command in test: ${command}`);
+  }
+});
+
+export const listen = async (event: string, callback: EventCallback) => {
+  const callbacks = listeners.get(event) ?? new Set<EventCallback>();
+  listeners.set(event, callbacks);
+  callbacks.add(callback);
+  return () => { callbacks.delete(callback); };
+};
@@ -1,12 +1,61 @@
 
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  estimated?: boolean; // Counted locally because the provider didn't report it
+  cost?: number; // USD, priced when the request was made; unset if the model's price is unknown
+}
+
+// USD per million tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+export type AttachmentKind = 'text' | 'pdf' | 'image';
+
+// A file attached to a message, stored with it
+export interface ChatAttachment {
+  id: string;
+  name: string;
+  kind: AttachmentKind;
+  mimeType: string;
+  size: number; // Of the original file, in bytes
+  text?: string; // Contents of text files and text extracted from PDFs, inlined into the prompt
+  dataUrl?: string; // Images, base64-encoded
+}
+
 export interface ChatMessage {
   id: string;
   content: string;
   role: 'user' | 'assistant';
   timestamp: Date;
   isError?: boolean;
+  parentId?: string | null; // Message this one follows in the conversation tree; null for the first message
+  attachments?: ChatAttachment[];
+  usage?: TokenUsage; // Replies: tokens of the request that produced them
+  contextSummary?: string; // Rolling summary of the conversation up to and including this message, see services/contextWindow.ts
 }
 
+// What a model accepts and produces, see getModelCapabilities in services/modelCatalog.ts.
+// Fields left out are unknown.
+export interface ModelCapabilities {
+  contextWindow?: number; // Tokens of prompt and reply together
+  maxOutputTokens?: number; // Most tokens a single reply can have
+  vision?: boolean; // Accepts images
+  tools?: boolean; // Supports function/tool calling
+  streaming?: boolean;
+  systemPrompt?: boolean; // Has a system role; if not, the system prompt is sent as part of the first message
+  reasoning?: boolean; // Thinks before replying (OpenAI o-series, GPT-5): max tokens covers the thinking too, and sampling settings are rejected
+}
+
+// How much of a long conversation is sent with each request
+export type ContextStrategy =
+  | 'all' // Everything on the active branch
+  | 'lastMessages' // The last contextMessageLimit messages
+  | 'tokenBudget' // The newest messages that fit in contextTokenBudget
+  | 'summarize'; // As tokenBudget, with the older messages replaced by a rolling summary
+
 // Settings applicable to a chat session
 export interface ChatSettings {
   model: string;
@@ -14,15 +63,27 @@ export interface ChatSettings {
   systemPrompt?: string;
   maxTokens?: number;
   topP?: number; 
+  providerConfigId?: string; // ApiProviderConfig.id to send requests with; falls back to the first config for the model's provider
+  contextStrategy?: ContextStrategy; // Defaults to 'all'
+  contextMessageLimit?: number; // For 'lastMessages'
+  contextTokenBudget?: number; // For 'tokenBudget' and 'summarize'; defaults to what fits the model's context window
 }
 
 export interface ChatSession {
   id: string;
   title: string;
+  titleEditedByUser?: boolean; // Set once the user renames the chat; generated titles don't replace it
   messages: ChatMessage[];
   createdAt: Date;
   lastModified: Date;
   settings?: ChatSettings; // Overrides global defaults if present
+  activeLeafId?: string; // Last message of the branch being shown and sent, see services/messageTree.ts
+  pinned?: boolean; // Listed above everything else in the sidebar
+  folderId?: string; // ChatFolder.id; chats in a folder that no longer exists are unfiled
+  tags?: string[];
+  archivedAt?: Date; // Set while archived: left out of the main sidebar list but still searchable
+  schemaVersion?: number; // Stored record version, see SESSION_MIGRATIONS in services/sessionStore.ts
+  messagesLoaded?: boolean; // False while only the session's summary is loaded; messages are fetched when it is opened
 }
 
 export type ApiProviderStatus = 'unknown' | 'valid' | 'invalid' | 'testing';
@@ -31,16 +92,36 @@ export interface ApiProviderConfig {
   id: string; // Unique ID for this configuration (e.g., uuid)
   providerId: string; // Lowercase identifier (e.g., 'openai', 'anthropic', 'groq', 'google', 'ollama', 'custom')
   name: string; // User-defined name (e.g., "My OpenAI Key", "Local Llama3")
-  apiKey: string;
+  apiKey: string; // Only set on the way to save_app_settings, when a new key is entered; the backend keeps the encrypted key and never returns it
+  apiKeyHint?: string; // Last 4 characters of the stored key, provided by the backend
   baseUrl?: string; // Optional Base URL for proxies or custom endpoints
   status: ApiProviderStatus; // Connection status
   lastTested?: Date;
+  lastTestError?: string; // Reason the last connection test failed, shown next to the status
+  monthlyBudget?: number; // USD per calendar month, see services/usage.ts
+  budgetAction?: BudgetAction; // What happens once the budget is used up; defaults to 'warn'
 }
 
+export type BudgetAction = 'warn' | 'block';
+
 // Global application settings
+export interface ChatFolder {
+  id: string;
+  name: string;
+}
+
+export type SidebarViewMode = 'date' | 'folders';
+
 export interface AppSettings {
   defaultChatSettings: ChatSettings;
   apiProviders: ApiProviderConfig[];
   sendWithEnter: boolean;
   uiDensity: 'comfortable' | 'compact';
+  chatFolders?: ChatFolder[]; // In display order
+  sidebarViewMode?: SidebarViewMode;
+  autoTitleChats?: boolean; // Ask a model for a title after a chat's first exchange
+  utilityModel?: string; // Model for background tasks such as titles; '' = the chat's own model
+  modelCapabilityOverrides?: Record<string, ModelCapabilities>; // Keyed by model id, replace what the catalog says
+  modelPricing?: Record<string, ModelPricing>; // Keyed by modelPricingKey (provider type and model id), replace the catalog's prices
+  schemaVersion?: number; // Managed by the backend (SETTINGS_SCHEMA_VERSION in settings.rs)
 }
\ No newline at end of file